@@ -1,57 +1,175 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { Dashboard } from './components/Dashboard';
-import { analyzeFinancialData } from './services/geminiService';
-import { AnalysisResult, AppState } from './types';
-import { Loader2, AlertCircle } from 'lucide-react';
+import { HistoryPanel } from './components/HistoryPanel';
+import { analyzeFinancialData, ANALYSIS_STAGES, writeReport } from './services/analysisService';
+import { AnalysisValidationError } from './services/analysisSchema';
+import { loadBenchmarkSettings } from './services/ratioBenchmarks';
+import { loadMaterialitySettings } from './services/materiality';
+import { findAnalysisByHash, hashAnalysisInput, saveAnalysis, updateAnalysis } from './services/historyStore';
+import { AnalysisInput, AnalysisResult, AnalysisStage, AppState, LineItem, MaterialitySettings, SavedAnalysis, SourceSheet } from './types';
+import { Loader2, AlertCircle, CheckCircle2, Circle, XCircle } from 'lucide-react';
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(AppState.UPLOAD);
   const [analysisData, setAnalysisData] = useState<AnalysisResult | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
   
-  // Progress State for Analysis
-  const [analysisProgress, setAnalysisProgress] = useState(0);
+  // ขั้นที่กำลังทำงาน และสถานะว่ารายงานยังเขียนไม่เสร็จ (แสดงผลบางส่วนแล้ว)
+  const [stage, setStage] = useState<AnalysisStage>('parse');
+  const [reportPending, setReportPending] = useState(false);
+  // ขั้นเขียนรายงานล้มเหลวหลังแสดงผลบางส่วนแล้ว: แสดงข้อผิดพลาดใน Dashboard และให้ลองเขียนรายงานใหม่
+  const [reportError, setReportError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  // ข้อมูลของการวิเคราะห์ล่าสุด ใช้เขียนรายงานใหม่โดยไม่ต้องดึงตัวเลขใหม่ (ไม่มีเมื่อเปิดจากประวัติ)
+  const lastRunRef = useRef<{ input: AnalysisInput; materiality: MaterialitySettings } | null>(null);
+  // ผลวิเคราะห์ที่บันทึกในประวัติ ใช้บันทึกการตรวจทานรายงานและการถาม-ตอบกลับไปที่เดิม
+  const [savedRecord, setSavedRecord] = useState<SavedAnalysis | null>(null);
+  // รายการจากไฟล์ที่อัปโหลด ใช้เป็นบริบทของการถาม-ตอบ
+  const [lineItems, setLineItems] = useState<LineItem[]>([]);
+  // แถวต้นฉบับของไฟล์ ใช้ย้อนดูที่มาของตัวเลข
+  const [sourceSheets, setSourceSheets] = useState<SourceSheet[]>([]);
 
-  const handleFileUpload = async (file: { data: string; mimeType: string }) => {
-    setState(AppState.ANALYZING);
-    setAnalysisProgress(0);
+  const handleOpenHistory = (
+    record: SavedAnalysis,
+    items: LineItem[] = record.lineItems ?? [],
+    sheets: SourceSheet[] = record.sourceSheets ?? []
+  ) => {
+    setSavedRecord(record);
+    setAnalysisData(record.result);
+    setLineItems(items);
+    setSourceSheets(sheets);
+    setReportError('');
+    lastRunRef.current = null;
+    setState(AppState.RESULT);
+  };
 
-    // Simulate analysis progress
-    const progressInterval = setInterval(() => {
-      setAnalysisProgress(prev => {
-        if (prev >= 90) return prev;
-        return prev + 2; // Increment slowly
-      });
-    }, 150);
+  // รับเฉพาะส่วนที่เปลี่ยน แล้วรวมกับผลล่าสุด (การถาม-ตอบอาจตอบกลับหลังผู้ใช้แก้รายงานไปแล้ว)
+  const handleUpdateResult = (changes: Partial<AnalysisResult>) => {
+    setAnalysisData(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  useEffect(() => {
+    if (!savedRecord || !analysisData || savedRecord.result === analysisData) return;
+    const record = { ...savedRecord, result: analysisData };
+    setSavedRecord(record);
+    updateAnalysis(record).catch(error => console.error("History Error:", error));
+  }, [analysisData, savedRecord]);
+
+  const handleReportError = (error: unknown) => {
+    setReportError(error instanceof Error ? error.message : "เกิดข้อผิดพลาดที่ไม่ทราบสาเหตุ");
+    setReportPending(false);
+  };
 
+  // เขียนเฉพาะรายงานจากผลบางส่วน (ผลที่ได้บันทึกลงประวัติผ่าน savedRecord)
+  const runReport = async (partial: AnalysisResult) => {
+    const run = lastRunRef.current;
+    if (!run) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setReportError('');
+    setReportPending(true);
     try {
-      const result = await analyzeFinancialData(file);
-      clearInterval(progressInterval);
-      setAnalysisProgress(100);
-      
-      // Small delay to show 100%
-      setTimeout(() => {
-        setAnalysisData(result);
-        setState(AppState.RESULT);
-      }, 500);
+      const result = await writeReport(run.input, partial, { signal: controller.signal, onStage: setStage, materiality: run.materiality });
+      setAnalysisData(result);
+      setReportPending(false);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      handleReportError(error);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleFileUpload = async (input: AnalysisInput) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState(AppState.ANALYZING);
+    setStage('figures');
+    setLineItems(input.lineItems);
+    setSourceSheets(input.sourceSheets ?? []);
+
+    // ผลบางส่วนที่แสดงแล้ว ถ้าขั้นเขียนรายงานล้มเหลวจะยังแสดงและบันทึกผลนี้ไว้
+    let shown = null as { partial: AnalysisResult; hash: string } | null;
+    try {
+      // ไฟล์เดิมที่เคยวิเคราะห์แล้วด้วยเกณฑ์เดียวกัน: เปิดผลที่บันทึกไว้แทนการเรียก AI ใหม่
+      const settings = { benchmark: loadBenchmarkSettings(), materiality: loadMaterialitySettings() };
+      const hash = await hashAnalysisInput(input, settings);
+      const cached = await findAnalysisByHash(hash).catch(() => undefined);
+      if (cached) {
+        handleOpenHistory(cached, input.lineItems, input.sourceSheets);
+        // ผลที่บันทึกไว้ตอนรายงานล้มเหลว: เขียนรายงานต่อจากผลเดิม
+        lastRunRef.current = { input, materiality: settings.materiality };
+        if (!cached.result.formalReport) await runReport(cached.result);
+        return;
+      }
+
+      lastRunRef.current = { input, materiality: settings.materiality };
+      const result = await analyzeFinancialData(input, {
+        signal: controller.signal,
+        onStage: setStage,
+        ...settings,
+        // แสดงอัตราส่วนและกราฟทันที ระหว่างรอรายงาน
+        onPartial: (partial) => {
+          shown = { partial, hash };
+          setAnalysisData(partial);
+          setReportPending(true);
+          setState(AppState.RESULT);
+        },
+      });
+      const record = await saveAnalysis(input, hash, result).catch(error => {
+        console.error("History Error:", error);
+        return null;
+      });
+      setSavedRecord(record);
+      setAnalysisData(result);
+      setReportPending(false);
+      setState(AppState.RESULT);
 
     } catch (error) {
-      clearInterval(progressInterval);
+      // ผู้ใช้กดยกเลิก: handleReset จัดการสถานะแล้ว
+      if (controller.signal.aborted) return;
+      if (shown) {
+        const record = await saveAnalysis(input, shown.hash, shown.partial).catch(historyError => {
+          console.error("History Error:", historyError);
+          return null;
+        });
+        setSavedRecord(record);
+        handleReportError(error);
+        return;
+      }
       console.error(error);
       setErrorMessage(error instanceof Error ? error.message : "เกิดข้อผิดพลาดที่ไม่ทราบสาเหตุ");
+      setErrorDetails(error instanceof AnalysisValidationError ? error.issues : []);
+      setReportPending(false);
       setState(AppState.ERROR);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
+  // ใช้ทั้งปุ่ม "ยกเลิก" และ "วิเคราะห์ใหม่" — ยกเลิกคำขอที่ยังค้างอยู่ด้วย
   const handleReset = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
     setState(AppState.UPLOAD);
     setAnalysisData(null);
+    setSavedRecord(null);
+    setLineItems([]);
+    setSourceSheets([]);
     setErrorMessage('');
-    setAnalysisProgress(0);
+    setErrorDetails([]);
+    setReportPending(false);
+    setReportError('');
+    lastRunRef.current = null;
+    setStage('parse');
   };
 
+  const stageIndex = ANALYSIS_STAGES.findIndex(s => s.key === stage);
+  const analysisProgress = (stageIndex / ANALYSIS_STAGES.length) * 100;
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col font-sans text-slate-900 selection:bg-indigo-100 selection:text-indigo-900">
       {/* Navbar */}
@@ -104,6 +222,7 @@ const App: React.FC = () => {
               </p>
             </div>
             <FileUpload onFileUpload={handleFileUpload} />
+            <HistoryPanel onOpen={handleOpenHistory} />
           </div>
         )}
 
@@ -125,10 +244,33 @@ const App: React.FC = () => {
                  style={{ width: `${analysisProgress}%` }}
                ></div>
             </div>
-            <div className="flex justify-between text-xs text-slate-400 font-medium">
-               <span>Processing Data</span>
+            <div className="flex justify-between text-xs text-slate-400 font-medium mb-6">
+               <span>{ANALYSIS_STAGES[stageIndex]?.label}</span>
                <span>{Math.round(analysisProgress)}%</span>
             </div>
+
+            <ul className="text-left space-y-2 mb-6">
+              {ANALYSIS_STAGES.map((s, idx) => (
+                <li key={s.key} className={`flex items-center text-sm ${idx <= stageIndex ? 'text-slate-700' : 'text-slate-400'}`}>
+                  {idx < stageIndex ? (
+                    <CheckCircle2 className="w-4 h-4 mr-2 text-emerald-500" />
+                  ) : idx === stageIndex ? (
+                    <Loader2 className="w-4 h-4 mr-2 text-indigo-600 animate-spin" />
+                  ) : (
+                    <Circle className="w-4 h-4 mr-2" />
+                  )}
+                  {s.label}
+                </li>
+              ))}
+            </ul>
+
+            <button
+              onClick={handleReset}
+              className="inline-flex items-center text-sm font-medium text-slate-500 hover:text-red-600 transition-colors"
+            >
+              <XCircle className="w-4 h-4 mr-1.5" />
+              ยกเลิกการวิเคราะห์
+            </button>
           </div>
         )}
 
@@ -138,7 +280,15 @@ const App: React.FC = () => {
               <AlertCircle className="w-10 h-10 text-red-500" />
             </div>
             <h2 className="text-2xl font-bold text-slate-800 mb-2">เกิดข้อผิดพลาด</h2>
-            <p className="text-slate-500 mb-8 leading-relaxed">{errorMessage}</p>
+            <p className={`text-slate-500 leading-relaxed ${errorDetails.length > 0 ? 'mb-4' : 'mb-8'}`}>{errorMessage}</p>
+            {errorDetails.length > 0 && (
+              <div className="mb-8 text-left bg-red-50/60 border border-red-100 rounded-xl p-4">
+                <p className="text-xs font-semibold text-red-600 uppercase tracking-wider mb-2">รายการที่ไม่ผ่านการตรวจสอบ</p>
+                <ul className="max-h-48 overflow-y-auto space-y-1 text-xs font-mono text-slate-600">
+                  {errorDetails.map((issue, idx) => <li key={idx}>{issue}</li>)}
+                </ul>
+              </div>
+            )}
             <button 
               onClick={handleReset}
               className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-all shadow-lg shadow-indigo-200"
@@ -149,7 +299,7 @@ const App: React.FC = () => {
         )}
 
         {state === AppState.RESULT && analysisData && (
-          <Dashboard data={analysisData} onReset={handleReset} />
+          <Dashboard data={analysisData} onReset={handleReset} reportPending={reportPending} reportError={reportError} onRetryReport={lastRunRef.current ? () => runReport(analysisData) : undefined} lineItems={lineItems} sourceSheets={sourceSheets} onUpdate={handleUpdateResult} />
         )}
       </main>
 
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ListChecks, Save, SkipForward, Trash2 } from 'lucide-react';
+import { AccountCategory, AccountMappingRule, LineItem } from '../types';
+import { CATEGORY_LABELS, loadUserRules, saveUserRules } from '../services/accountMapping';
+
+interface AccountMappingReviewProps {
+  unmapped: LineItem[];
+  onConfirm: () => void;
+  onSkip: () => void;
+}
+
+export const AccountMappingReview: React.FC<AccountMappingReviewProps> = ({ unmapped, onConfirm, onSkip }) => {
+  const [assignments, setAssignments] = useState<Record<string, AccountCategory | ''>>({});
+  const [savedCount, setSavedCount] = useState(() => loadUserRules().length);
+
+  const assign = (label: string, category: AccountCategory | '') => {
+    setAssignments(prev => ({ ...prev, [label]: category }));
+  };
+
+  // บันทึกรายการที่เลือกหมวดแล้วเป็นกฎของผู้ใช้ (ใช้รหัสบัญชีถ้ามี ไม่เช่นนั้นใช้ชื่อบัญชี)
+  const handleSave = () => {
+    const stamp = Date.now();
+    const newRules: AccountMappingRule[] = unmapped
+      .filter(item => assignments[item.label])
+      .map((item, idx) => ({
+        id: `user-${stamp}-${idx}`,
+        matchType: item.code ? 'code' : 'name',
+        pattern: item.code ?? item.label,
+        category: assignments[item.label] as AccountCategory,
+        standardName: item.label,
+      }));
+
+    saveUserRules([...newRules, ...loadUserRules()]);
+    onConfirm();
+  };
+
+  const handleClearSaved = () => {
+    if (!confirm('ต้องการล้างผังบัญชีที่บันทึกไว้ทั้งหมดหรือไม่?')) return;
+    saveUserRules([]);
+    setSavedCount(0);
+  };
+
+  return (
+    <div>
+      <div className="flex items-start gap-3 mb-4">
+        <div className="bg-amber-50 p-2 rounded-lg">
+          <ListChecks className="w-5 h-5 text-amber-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">ตรวจสอบผังบัญชี</h3>
+          <p className="text-sm text-gray-500">
+            พบ {unmapped.length} รายการที่ยังไม่ได้จัดหมวด กรุณาเลือกหมวดบัญชีมาตรฐาน ระบบจะจำไว้ใช้กับการอัปโหลดครั้งต่อไป
+          </p>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+        {unmapped.map(item => (
+          <div key={item.label} className="flex items-center gap-3 px-3 py-2">
+            {item.code && <span className="text-xs font-mono text-slate-400 w-16 flex-shrink-0">{item.code}</span>}
+            <span className="flex-grow text-sm text-gray-700 truncate" title={item.label}>{item.label}</span>
+            <select
+              value={assignments[item.label] ?? ''}
+              onChange={(e) => assign(item.label, e.target.value as AccountCategory | '')}
+              className="w-52 text-sm border border-slate-300 rounded-md px-2 py-1 bg-white outline-none focus:border-indigo-500"
+            >
+              <option value="">— ไม่ระบุ —</option>
+              {(Object.keys(CATEGORY_LABELS) as AccountCategory[]).map(category => (
+                <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-4">
+        <button
+          onClick={handleSave}
+          className="flex-grow flex items-center justify-center bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-all shadow-lg shadow-indigo-200"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          บันทึกผังบัญชีและวิเคราะห์
+        </button>
+        <button
+          onClick={onSkip}
+          className="flex items-center bg-white hover:bg-slate-50 text-slate-600 border border-slate-200 py-3 px-5 rounded-xl transition-colors font-medium text-sm"
+        >
+          <SkipForward className="w-4 h-4 mr-2" />
+          ข้าม
+        </button>
+      </div>
+
+      {savedCount > 0 && (
+        <button onClick={handleClearSaved} className="mt-3 flex items-center text-xs text-slate-400 hover:text-red-500">
+          <Trash2 className="w-3 h-3 mr-1" />
+          ล้างผังบัญชีที่บันทึกไว้ ({savedCount} กฎ)
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { RatioKey } from '../types';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { RATIO_DEFINITIONS } from '../services/ratioEngine';
+import {
+  BENCHMARK_NOTE, BENCHMARK_PRESETS, BenchmarkSettings as Settings,
+  isOverridden, overrideThreshold, resolveBenchmark
+} from '../services/ratioBenchmarks';
+
+interface BenchmarkSettingsProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+/**
+ * เลือกชุดเกณฑ์ตามอุตสาหกรรม และปรับเกณฑ์ good/warning ของแต่ละอัตราส่วนเอง
+ */
+export const BenchmarkSettings: React.FC<BenchmarkSettingsProps> = ({ settings, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const { thresholds } = resolveBenchmark(settings);
+
+  const handleThresholdChange = (key: RatioKey, field: 'good' | 'warning', raw: string) => {
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value)) return;
+    onChange(overrideThreshold(settings, key, { ...thresholds[key], [field]: value }));
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          เกณฑ์เปรียบเทียบ
+          <select
+            value={settings.presetId}
+            onChange={(e) => onChange({ presetId: e.target.value, overrides: {} })}
+            className="bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {BENCHMARK_PRESETS.map(p => (
+              <option key={p.id} value={p.id}>{p.sector ? `${p.name} (${p.sector})` : p.name}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-lg border ${isEditing ? 'bg-slate-800 text-white border-slate-800' : 'text-slate-600 border-slate-200 bg-white hover:bg-slate-50'}`}
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5 mr-1.5" /> ปรับเกณฑ์
+        </button>
+      </div>
+
+      {isEditing && (
+        <div className="mt-3 bg-white border border-slate-200 rounded-xl p-4 animate-fade-in">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500">
+                <th className="py-1.5 font-medium">อัตราส่วน</th>
+                <th className="py-1.5 font-medium">ดี เมื่อ</th>
+                <th className="py-1.5 font-medium">เฝ้าระวัง เมื่อ</th>
+                <th className="py-1.5"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {RATIO_DEFINITIONS.map(def => {
+                const op = def.higherIsBetter ? '≥' : '≤';
+                return (
+                  <tr key={def.key} className="border-t border-slate-100">
+                    <td className="py-2 text-slate-700">{def.name} <span className="text-slate-400">({def.unit})</span></td>
+                    {(['good', 'warning'] as const).map(field => (
+                      <td key={field} className="py-2">
+                        <span className="text-slate-400 mr-1">{op}</span>
+                        <input
+                          type="number"
+                          step="any"
+                          defaultValue={thresholds[def.key][field]}
+                          key={`${settings.presetId}-${isOverridden(settings, def.key)}`}
+                          onBlur={(e) => handleThresholdChange(def.key, field, e.target.value)}
+                          className="w-20 px-2 py-1 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                      </td>
+                    ))}
+                    <td className="py-2 text-right">
+                      {isOverridden(settings, def.key) && (
+                        <button onClick={() => onChange(overrideThreshold(settings, def.key, undefined))} className="flex items-center ml-auto text-xs text-slate-500 hover:text-indigo-600">
+                          <RotateCcw className="w-3 h-3 mr-1" /> ใช้ค่าของชุดเกณฑ์
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-3 text-xs text-slate-400">ค่าที่ไม่ผ่านเกณฑ์ "เฝ้าระวัง" ถือเป็นวิกฤต • {BENCHMARK_NOTE}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React from 'react';
+import { BudgetComparison, BudgetFigure } from '../types';
+import { Target, Info, ThumbsUp, ThumbsDown } from 'lucide-react';
+
+// จำนวนรายการบัญชีที่แสดง (ไฟล์ Excel มีครบทุกรายการ)
+const MAX_ITEMS = 12;
+
+const formatAmount = (value: number) => value.toLocaleString('th-TH', { maximumFractionDigits: 0 });
+
+const formatVariance = (figure: BudgetFigure) =>
+  `${figure.variance >= 0 ? '+' : ''}${formatAmount(figure.variance)}${figure.variancePercent === null ? '' : ` (${figure.variancePercent >= 0 ? '+' : ''}${figure.variancePercent}%)`}`;
+
+const VarianceCell: React.FC<{ figure: BudgetFigure }> = ({ figure }) => (
+  <span className={`inline-flex items-center font-medium ${figure.variance === 0 ? 'text-slate-500' : figure.favorable ? 'text-emerald-600' : 'text-red-600'}`}>
+    {figure.variance !== 0 && (figure.favorable ? <ThumbsUp className="w-3.5 h-3.5 mr-1" /> : <ThumbsDown className="w-3.5 h-3.5 mr-1" />)}
+    {formatVariance(figure)}
+  </span>
+);
+
+/**
+ * งบประมาณเทียบผลจริงแยกตามหน่วยงานและรายการบัญชี
+ * เขียว = ดีกว่างบ (รายได้/กำไรสูงกว่างบ หรือรายจ่ายต่ำกว่างบ), แดง = แย่กว่างบ
+ */
+export const BudgetSection: React.FC<{ budget: BudgetComparison; department?: string }> = ({ budget, department = 'All' }) => {
+  const departments = department === 'All' ? budget.departments : budget.departments.filter(d => d.name === department);
+  const items = (department === 'All' ? budget.items : budget.items.filter(i => i.department === department)).slice(0, MAX_ITEMS);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+      <div className="mb-6">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center">
+          <Target className="w-5 h-5 mr-2 text-amber-500" />
+          งบประมาณเทียบผลจริง (Budget vs Actual)
+        </h2>
+        <p className="text-xs text-slate-400 mt-1">
+          งบประมาณ {budget.budgetPeriod} เทียบผลจริง {budget.actualPeriod} • ผลต่าง = ผลจริง − งบประมาณ
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-slate-50/50 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+              <th className="px-4 py-3 text-left">หน่วยงาน</th>
+              <th className="px-4 py-3 text-left"></th>
+              <th className="px-4 py-3 text-right">งบประมาณ</th>
+              <th className="px-4 py-3 text-right">ผลจริง</th>
+              <th className="px-4 py-3 text-right">ผลต่าง</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {departments.flatMap(d => ([
+              ['รายได้', d.revenue],
+              ['รายจ่าย', d.expense],
+              ['กำไร', d.profit],
+            ] as const).map(([label, figure], idx) => (
+              <tr key={`${d.name}-${label}`} className={idx === 2 ? 'bg-slate-50/50 font-semibold' : ''}>
+                <td className="px-4 py-2 text-slate-800">{idx === 0 ? d.name : ''}</td>
+                <td className="px-4 py-2 text-slate-500">{label}</td>
+                <td className="px-4 py-2 text-right font-mono text-slate-600">{formatAmount(figure.budget)}</td>
+                <td className="px-4 py-2 text-right font-mono text-slate-800">{formatAmount(figure.actual)}</td>
+                <td className="px-4 py-2 text-right"><VarianceCell figure={figure} /></td>
+              </tr>
+            )))}
+          </tbody>
+        </table>
+      </div>
+
+      {items.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-slate-700 mb-2">รายการที่ต่างจากงบประมาณมากที่สุด</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs font-semibold text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                  <th className="px-4 py-2 text-left">รายการ</th>
+                  <th className="px-4 py-2 text-left">หน่วยงาน</th>
+                  <th className="px-4 py-2 text-right">งบประมาณ</th>
+                  <th className="px-4 py-2 text-right">ผลจริง</th>
+                  <th className="px-4 py-2 text-right">ผลต่าง</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {items.map(item => (
+                  <tr key={`${item.department}-${item.kind}-${item.item}`}>
+                    <td className="px-4 py-2 text-slate-800">
+                      {item.item}
+                      <span className="ml-2 text-xs text-slate-400">{item.kind === 'revenue' ? 'รายได้' : 'รายจ่าย'}</span>
+                    </td>
+                    <td className="px-4 py-2 text-slate-500">{item.department}</td>
+                    <td className="px-4 py-2 text-right font-mono text-slate-600">{formatAmount(item.budget)}</td>
+                    <td className="px-4 py-2 text-right font-mono text-slate-800">{formatAmount(item.actual)}</td>
+                    <td className="px-4 py-2 text-right"><VarianceCell figure={item} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {budget.notes.length > 0 && (
+        <div className="mt-4 p-3 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-700 space-y-1">
+          {budget.notes.map(note => (
+            <p key={note} className="flex items-start"><Info className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />{note}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
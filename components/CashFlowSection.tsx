@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import { CashFlowAnalysis } from '../types';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Banknote, Info } from 'lucide-react';
+
+const POSITIVE = '#10b981';
+const NEGATIVE = '#ef4444';
+const TOTAL = '#6366f1';
+
+const formatAmount = (value: number | null) =>
+  value === null ? 'N/A' : value.toLocaleString('th-TH', { maximumFractionDigits: 0 });
+
+const formatRatio = (value: number | null) =>
+  value === null ? 'N/A' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * แท่ง Waterfall แบบช่วง [ต่ำ, สูง] ต่อจากยอดสะสมก่อนหน้า
+ * แท่ง total เริ่มจาก 0 และตั้งยอดสะสมใหม่ (เช่น เงินสดจากการดำเนินงาน)
+ */
+const waterfallData = (cashFlow: CashFlowAnalysis) => {
+  let running = 0;
+  return cashFlow.steps.map(step => {
+    const start = step.total ? 0 : running;
+    const end = step.total ? step.amount : running + step.amount;
+    running = end;
+    return {
+      name: step.label,
+      range: [Math.min(start, end), Math.max(start, end)],
+      amount: step.amount,
+      fill: step.total ? TOTAL : step.amount >= 0 ? POSITIVE : NEGATIVE,
+    };
+  });
+};
+
+export const CashFlowSection: React.FC<{ cashFlow: CashFlowAnalysis }> = ({ cashFlow }) => {
+  const chartData = useMemo(() => waterfallData(cashFlow), [cashFlow]);
+
+  const metrics = [
+    { label: 'เงินสดจากการดำเนินงาน', value: formatAmount(cashFlow.operating), hint: 'Operating Cash Flow' },
+    { label: 'กระแสเงินสดอิสระ', value: formatAmount(cashFlow.freeCashFlow), hint: 'เงินสดจากการดำเนินงาน − รายจ่ายลงทุน' },
+    { label: 'Cash Conversion', value: `${formatRatio(cashFlow.cashConversion)} เท่า`, hint: 'เงินสดจากการดำเนินงาน ÷ กำไรสุทธิ' },
+    { label: 'Operating Cash Flow Ratio', value: `${formatRatio(cashFlow.operatingCashFlowRatio)} เท่า`, hint: 'เงินสดจากการดำเนินงาน ÷ หนี้สินหมุนเวียน' },
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-6">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <Banknote className="w-5 h-5 mr-2 text-emerald-600" />
+            กระแสเงินสด (Cash Flow) งวด {cashFlow.period}
+          </h2>
+          <p className="text-xs text-slate-400 mt-1">
+            {cashFlow.method === 'direct'
+              ? 'จากงบกระแสเงินสดในไฟล์'
+              : `คำนวณทางอ้อมจากงบดุล ${cashFlow.fromPeriod} → ${cashFlow.period} และงบกำไรขาดทุน`}
+          </p>
+        </div>
+        {cashFlow.netIncome !== null && (
+          <span className="text-sm text-slate-500">
+            กำไรสุทธิ <span className="font-semibold text-slate-700">{formatAmount(cashFlow.netIncome)}</span>
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={chartData} margin={{ top: 10, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 11}} interval={0} />
+              <YAxis axisLine={false} tickLine={false} tickFormatter={(val) => `${val/1000}k`} tick={{fill: '#64748b', fontSize: 12}} />
+              <Tooltip
+                cursor={{fill: '#f8fafc'}}
+                formatter={(_val, _name, item) => [new Intl.NumberFormat('th-TH').format(item.payload.amount), 'จำนวนเงิน']}
+                contentStyle={{borderRadius:'8px', border:'none', boxShadow:'0 10px 15px -3px rgba(0, 0, 0, 0.1)'}}
+              />
+              <ReferenceLine y={0} stroke="#94a3b8" />
+              <Bar dataKey="range" radius={[4, 4, 4, 4]} barSize={48}>
+                {chartData.map((entry, index) => <Cell key={`cell-${index}`} fill={entry.fill} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="space-y-3">
+          {metrics.map(m => (
+            <div key={m.label} className="p-4 rounded-xl bg-slate-50 border border-slate-100" title={m.hint}>
+              <div className="text-xs text-slate-500 font-semibold uppercase tracking-wide">{m.label}</div>
+              <div className="text-xl font-bold text-slate-800 mt-1">{m.value}</div>
+              <div className="text-[11px] text-slate-400 mt-0.5">{m.hint}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {cashFlow.notes.length > 0 && (
+        <div className="mt-4 p-3 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-700 space-y-1">
+          {cashFlow.notes.map(note => (
+            <p key={note} className="flex items-start"><Info className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />{note}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, ChatMessage, LineItem } from '../types';
+import { MessageSquare, Send, Loader2, Pin, PinOff, AlertCircle } from 'lucide-react';
+import { answerFollowUp } from '../services/analysisService';
+import { MarkdownRenderer } from './ReportViewer';
+
+interface ChatPanelProps {
+  data: AnalysisResult;
+  lineItems: LineItem[];
+  onMessagesChange: (messages: ChatMessage[]) => void;
+  onPin: (message: ChatMessage) => void;
+  disabled?: boolean; // ระหว่างที่ AI ยังเขียนรายงานไม่เสร็จ
+}
+
+const SUGGESTIONS = [
+  'ทำไมค่าใช้จ่ายของหน่วยงานที่เพิ่มขึ้นมากที่สุดถึงเพิ่มขึ้น?',
+  'สภาพคล่องของกิจการน่ากังวลหรือไม่?',
+  'Which department is the least profitable and why?',
+];
+
+/**
+ * ถาม-ตอบเพิ่มเติมจากผลวิเคราะห์ปัจจุบัน โดยไม่ต้องอัปโหลดไฟล์ใหม่
+ * คำตอบแสดงรายการที่ใช้อ้างอิง และแนบเข้ารายงานฉบับเต็มได้
+ */
+export const ChatPanel: React.FC<ChatPanelProps> = ({ data, lineItems, onMessagesChange, onPin, disabled = false }) => {
+  const messages = data.chat ?? [];
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  // ข้อความล่าสุด สำหรับถอนคำถามที่ถูกยกเลิกหลังจากผู้ใช้แนบคำตอบอื่นในระหว่างรอ
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  // ยกเลิกคำถามที่ค้างอยู่เมื่อออกจากหน้า
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length, isAsking]);
+
+  const handleAsk = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isAsking) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const userMessage: ChatMessage = { id: crypto.randomUUID(), role: 'user', content: trimmed, createdAt: Date.now() };
+    const thread = [...messages, userMessage];
+    onMessagesChange(thread);
+    setQuestion('');
+    setError('');
+    setIsAsking(true);
+
+    try {
+      const answer = await answerFollowUp(trimmed, { result: data, lineItems, history: messages }, controller.signal);
+      // ต่อท้ายรายการล่าสุด ไม่ใช่ thread ตอนส่งคำถาม เพื่อไม่ทับการปักหมุดที่ทำระหว่างรอคำตอบ
+      onMessagesChange([...messagesRef.current, answer]);
+    } catch (err) {
+      // ถูกยกเลิก (เช่น ออกจากหน้า): ถอนคำถามที่ยังไม่มีคำตอบออก ไม่ให้ค้างอยู่ในประวัติที่บันทึก
+      if (controller.signal.aborted) {
+        onMessagesChange(messagesRef.current.filter(m => m.id !== userMessage.id));
+        return;
+      }
+      setError(err instanceof Error ? err.message : "เกิดข้อผิดพลาดที่ไม่ทราบสาเหตุ");
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsAsking(false);
+    }
+  };
+
+  const changeDetail = (ref: string) => {
+    const change = data.significantChanges.find(c => c.item === ref);
+    return change ? `${change.percentage} (${change.amount.toLocaleString()})` : undefined;
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden flex flex-col min-h-[600px]">
+      <div className="bg-slate-50 border-b border-slate-200 p-6 flex items-center">
+        <div className="bg-indigo-600 text-white p-2 rounded-lg mr-3">
+          <MessageSquare className="w-5 h-5" />
+        </div>
+        <div>
+          <h2 className="text-lg font-bold text-slate-900">ถาม-ตอบเกี่ยวกับผลวิเคราะห์</h2>
+          <p className="text-sm text-slate-500">ถามเป็นภาษาไทยหรือภาษาอังกฤษ AI จะตอบจากข้อมูลในไฟล์และผลวิเคราะห์นี้เท่านั้น</p>
+        </div>
+      </div>
+
+      <div className="flex-grow p-6 space-y-4 overflow-y-auto max-h-[60vh]">
+        {messages.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-slate-400 mb-4">ตัวอย่างคำถาม</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {SUGGESTIONS.map(s => (
+                <button key={s} onClick={() => handleAsk(s)} disabled={disabled || isAsking} className="px-3 py-1.5 text-sm text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-full hover:bg-indigo-100 disabled:opacity-50">
+                  {s}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(message => message.role === 'user' ? (
+          <div key={message.id} className="flex justify-end">
+            <div className="max-w-[80%] px-4 py-2.5 bg-indigo-600 text-white rounded-2xl rounded-br-sm whitespace-pre-wrap">{message.content}</div>
+          </div>
+        ) : (
+          <div key={message.id} className="flex justify-start">
+            <div className="max-w-[90%] px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl rounded-bl-sm space-y-3">
+              <MarkdownRenderer content={message.content} />
+              {message.citations && message.citations.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1.5 pt-2 border-t border-slate-200">
+                  <span className="text-xs text-slate-400 mr-1">อ้างอิง:</span>
+                  {message.citations.map(c => (
+                    <span
+                      key={`${c.type}:${c.ref}`}
+                      title={c.type === 'change' ? changeDetail(c.ref) : undefined}
+                      className={`px-2 py-0.5 text-xs rounded-full border ${c.type === 'change' ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-white text-slate-600 border-slate-200'}`}
+                    >
+                      {c.type === 'change' ? 'ผลต่าง' : 'รายการ'}: {c.ref}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex justify-end">
+                <button
+                  onClick={() => onPin(message)}
+                  disabled={message.pinned || disabled}
+                  className="flex items-center text-xs font-medium text-slate-500 hover:text-indigo-600 disabled:hover:text-slate-500 disabled:opacity-60"
+                >
+                  {message.pinned
+                    ? <><PinOff className="w-3.5 h-3.5 mr-1" /> แนบในรายงานแล้ว</>
+                    : <><Pin className="w-3.5 h-3.5 mr-1" /> แนบในรายงาน</>}
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {isAsking && (
+          <div className="flex items-center text-slate-400 text-sm">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" /> กำลังหาคำตอบ...
+          </div>
+        )}
+        {error && (
+          <div className="flex items-start p-3 bg-red-50 border border-red-100 rounded-lg text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" /> {error}
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); handleAsk(question); }}
+        className="border-t border-slate-200 p-4 flex gap-3 bg-white"
+      >
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          disabled={disabled}
+          placeholder={disabled ? 'รอรายงานเสร็จก่อนจึงจะถามได้' : 'เช่น ทำไมค่าใช้จ่ายของ BusA เพิ่มขึ้น?'}
+          className="flex-grow px-4 py-2.5 border border-slate-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-slate-50"
+        />
+        <button type="submit" disabled={disabled || isAsking || !question.trim()} className="flex items-center px-5 py-2.5 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+          <Send className="w-4 h-4 mr-2" /> ถาม
+        </button>
+      </form>
+    </div>
+  );
+};
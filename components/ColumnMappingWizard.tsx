@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { Check, Wand2, X } from 'lucide-react';
+import { ColumnMapping, ColumnRole } from '../types';
+import {
+  applyColumnMapping, columnTitle, COLUMN_ROLE_LABELS, defaultSkipRows, guessColumnRoles, isMappingComplete, normalizedTable,
+} from '../services/importTemplates';
+
+type SheetRows = (string | number | null)[][];
+
+interface ColumnMappingWizardProps {
+  sheetName: string;
+  rows: SheetRows;
+  mapping: ColumnMapping;
+  period: string; // งวดที่ใช้เมื่อมีคอลัมน์จำนวนเงินคอลัมน์เดียว
+  onApply: (mapping: ColumnMapping, saveTemplate: boolean) => void;
+  onCancel: () => void;
+}
+
+const MAX_ROWS = 30;
+const PREVIEW_ROWS = 10;
+
+const ROLE_COLORS: Record<ColumnRole, string> = {
+  account: 'bg-indigo-50 text-indigo-700',
+  code: 'bg-slate-100 text-slate-700',
+  department: 'bg-violet-50 text-violet-700',
+  period: 'bg-sky-50 text-sky-700',
+  amount: 'bg-emerald-50 text-emerald-700',
+  ignore: 'bg-white text-slate-400',
+};
+
+const rowSummary = (row: SheetRows[number] = []) =>
+  row.filter(cell => cell !== null && String(cell).trim() !== '').slice(0, 3).join(' | ');
+
+/**
+ * ตัวช่วยจัดคอลัมน์ของ Sheet ที่รูปแบบไม่มาตรฐาน: เลือกแถวหัวตาราง ระบุหน้าที่ของคอลัมน์ เลือกแถวที่ข้าม
+ * และดูตัวอย่างตารางที่จัดแล้วก่อนใช้ (บันทึกเป็นแม่แบบเพื่อใช้กับไฟล์หัวตารางเดียวกันครั้งถัดไป)
+ */
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ sheetName, rows, mapping, period, onApply, onCancel }) => {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const [draft, setDraft] = useState<ColumnMapping>(() => ({
+    ...mapping,
+    columns: Array.from({ length: width }, (_, col) => mapping.columns[col] ?? 'ignore'),
+  }));
+  const [saveTemplate, setSaveTemplate] = useState(true);
+
+  const skip = new Set(draft.skipRows);
+  const body = rows.slice(draft.headerRow + 1, draft.headerRow + 1 + MAX_ROWS);
+  const preview = useMemo(() => normalizedTable(applyColumnMapping(rows, draft, period)), [rows, draft, period]);
+
+  const changeHeaderRow = (headerRow: number) => {
+    const columns = guessColumnRoles(rows, headerRow);
+    setDraft({ headerRow, columns, skipRows: defaultSkipRows(rows, headerRow, columns) });
+  };
+
+  // ชื่อบัญชีมีคอลัมน์เดียว และเปลี่ยนคอลัมน์แล้วเลือกแถวที่ข้ามใหม่
+  const changeRole = (col: number, role: ColumnRole) => {
+    const columns = draft.columns.map((current, i) =>
+      i === col ? role : role === 'account' && current === 'account' ? 'ignore' : current
+    );
+    setDraft({ ...draft, columns, skipRows: defaultSkipRows(rows, draft.headerRow, columns) });
+  };
+
+  const toggleSkip = (rowIndex: number) => {
+    setDraft({
+      ...draft,
+      skipRows: skip.has(rowIndex) ? draft.skipRows.filter(r => r !== rowIndex) : [...draft.skipRows, rowIndex].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <div className="mt-1 mb-2 p-3 border border-indigo-200 rounded-lg bg-white space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-slate-700 flex items-center">
+          <Wand2 className="w-4 h-4 mr-1.5 text-indigo-500" /> จัดคอลัมน์: {sheetName}
+        </h4>
+        <button onClick={onCancel} className="p-1 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        แถวหัวตาราง
+        <select
+          value={draft.headerRow}
+          onChange={(e) => changeHeaderRow(Number(e.target.value))}
+          className="flex-grow text-xs border border-slate-200 rounded-md px-1.5 py-1 bg-white outline-none"
+        >
+          {rows.slice(0, 15).map((row, index) => (
+            <option key={index} value={index}>แถว {index + 1}: {rowSummary(row) || '(ว่าง)'}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="border border-slate-200 rounded-md overflow-auto max-h-72">
+        <table className="text-xs">
+          <thead className="sticky top-0 bg-slate-50">
+            <tr>
+              <th className="px-2 py-1 text-left text-slate-400 font-medium">ข้าม</th>
+              {draft.columns.map((role, col) => (
+                <th key={col} className="px-1 py-1 text-left font-medium">
+                  <select
+                    value={role}
+                    onChange={(e) => changeRole(col, e.target.value as ColumnRole)}
+                    className={`w-full text-xs border border-slate-200 rounded px-1 py-0.5 outline-none ${ROLE_COLORS[role]}`}
+                  >
+                    {(Object.keys(COLUMN_ROLE_LABELS) as ColumnRole[]).map(option => (
+                      <option key={option} value={option}>{COLUMN_ROLE_LABELS[option]}</option>
+                    ))}
+                  </select>
+                  <div className="px-1 pt-1 text-slate-500 whitespace-nowrap">{columnTitle(rows, draft.headerRow, col) || '—'}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {body.map((row, offset) => {
+              const rowIndex = draft.headerRow + 1 + offset;
+              const skipped = skip.has(rowIndex);
+              return (
+                <tr key={rowIndex} className={skipped ? 'bg-slate-50 text-slate-300 line-through' : 'text-slate-700'}>
+                  <td className="px-2 py-1">
+                    <input type="checkbox" checked={skipped} onChange={() => toggleSkip(rowIndex)} className="accent-indigo-600" />
+                  </td>
+                  {draft.columns.map((role, col) => (
+                    <td key={col} className={`px-2 py-1 whitespace-nowrap ${role === 'amount' ? 'text-right font-mono' : ''}`}>
+                      {row[col] ?? ''}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {rows.length - draft.headerRow - 1 > MAX_ROWS && (
+          <p className="px-2 py-1 text-xs text-slate-400 border-t border-slate-100">
+            และอีก {rows.length - draft.headerRow - 1 - MAX_ROWS} แถว (บรรทัดรวมและแถวที่ไม่มีตัวเลขข้ามให้อัตโนมัติ)
+          </p>
+        )}
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold text-slate-500 mb-1">ตัวอย่างข้อมูลที่จะนำเข้า ({preview.length - 1} รายการ)</p>
+        {isMappingComplete(draft) ? (
+          <div className="border border-slate-200 rounded-md overflow-x-auto">
+            <table className="w-full text-xs">
+              <tbody className="divide-y divide-slate-100">
+                {preview.slice(0, PREVIEW_ROWS + 1).map((row, rowIdx) => (
+                  <tr key={rowIdx} className={rowIdx === 0 ? 'bg-slate-50 font-semibold text-slate-500' : 'text-slate-700'}>
+                    {row.map((cell, cellIdx) => (
+                      <td key={cellIdx} className={`px-2 py-1 whitespace-nowrap ${cellIdx === row.length - 1 ? 'text-right font-mono' : ''}`}>
+                        {typeof cell === 'number' ? cell.toLocaleString() : cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-md px-2 py-1.5">
+            กรุณาระบุคอลัมน์ชื่อบัญชีและจำนวนเงินอย่างน้อยอย่างละ 1 คอลัมน์
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-1.5 text-xs text-slate-600">
+          <input type="checkbox" checked={saveTemplate} onChange={(e) => setSaveTemplate(e.target.checked)} className="accent-indigo-600" />
+          บันทึกเป็นแม่แบบสำหรับไฟล์ที่มีหัวตารางเดียวกัน
+        </label>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="px-3 py-1.5 text-xs text-slate-500 border border-slate-200 rounded-md hover:bg-slate-50">
+            ยกเลิก
+          </button>
+          <button
+            onClick={() => onApply(draft, saveTemplate)}
+            disabled={!isMappingComplete(draft)}
+            className="flex items-center px-3 py-1.5 text-xs font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            <Check className="w-3.5 h-3.5 mr-1" /> ใช้การจัดคอลัมน์นี้
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React from 'react';
+import { ConsolidationResult } from '../types';
+import { Building2, Info } from 'lucide-react';
+
+const formatAmount = (value: number) => value.toLocaleString('th-TH', { maximumFractionDigits: 0 });
+
+const Figure: React.FC<{ label: string; value: number | null; hint?: string }> = ({ label, value, hint }) => (
+  <div className="p-3 rounded-xl bg-slate-50 border border-slate-100" title={hint}>
+    <p className="text-xs text-slate-500">{label}</p>
+    <p className="text-lg font-bold text-slate-800 font-mono">{value === null ? '-' : formatAmount(value)}</p>
+  </div>
+);
+
+/**
+ * งบการเงินรวมของกลุ่มบริษัท: ตัวเลขรายบริษัทก่อนตัดรายการ → รายการระหว่างกันที่ตัดออก → ยอดรวมของกลุ่ม
+ * พร้อมส่วนได้เสียที่ไม่มีอำนาจควบคุม (NCI) และคู่บัญชีที่มียอดไม่ได้ตัด
+ */
+export const ConsolidationSection: React.FC<{ consolidation: ConsolidationResult }> = ({ consolidation }) => {
+  const { entities, period } = consolidation;
+  const eliminations = consolidation.eliminations.filter(e => e.period === period);
+  const sum = (key: 'revenue' | 'expense') => entities.reduce((total, e) => total + e[key], 0);
+  // ผลต่างระหว่างผลรวมรายบริษัทกับงบรวม = รายได้/ค่าใช้จ่ายระหว่างกันที่ตัดออก
+  const eliminatedRevenue = consolidation.revenue - sum('revenue');
+  const eliminatedExpense = consolidation.expense - sum('expense');
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+      <div className="mb-6">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center">
+          <Building2 className="w-5 h-5 mr-2 text-indigo-500" />
+          งบการเงินรวม (Consolidation)
+        </h2>
+        <p className="text-xs text-slate-400 mt-1">
+          งวด {period} • {entities.length} บริษัท • ตัดรายการระหว่างกันแล้ว
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <Figure label="กำไรสุทธิของกลุ่ม" value={consolidation.profit} />
+        <Figure label="ส่วนของบริษัทใหญ่" value={consolidation.profitToParent} />
+        <Figure label="ส่วนได้เสียที่ไม่มีอำนาจควบคุม (กำไร)" value={consolidation.nciProfit} />
+        <Figure
+          label="ส่วนได้เสียที่ไม่มีอำนาจควบคุม (ส่วนของผู้ถือหุ้น)"
+          value={consolidation.nciEquity}
+          hint={consolidation.goodwill === null ? undefined : `ค่าความนิยม ${formatAmount(consolidation.goodwill)}`}
+        />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-slate-50/50 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+              <th className="px-4 py-3 text-left">บริษัท</th>
+              <th className="px-4 py-3 text-right">ถือหุ้น</th>
+              <th className="px-4 py-3 text-right">รายได้</th>
+              <th className="px-4 py-3 text-right">ค่าใช้จ่าย</th>
+              <th className="px-4 py-3 text-right">กำไร</th>
+              <th className="px-4 py-3 text-right">NCI (กำไร)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {entities.map(e => (
+              <tr key={e.name}>
+                <td className="px-4 py-2 text-slate-800">
+                  {e.name}
+                  {e.parent && <span className="ml-2 text-xs text-indigo-500">บริษัทใหญ่</span>}
+                </td>
+                <td className="px-4 py-2 text-right text-slate-500">{e.ownership}%</td>
+                <td className="px-4 py-2 text-right font-mono text-slate-700">{formatAmount(e.revenue)}</td>
+                <td className="px-4 py-2 text-right font-mono text-slate-700">{formatAmount(e.expense)}</td>
+                <td className={`px-4 py-2 text-right font-mono ${e.profit >= 0 ? 'text-slate-800' : 'text-red-600'}`}>{formatAmount(e.profit)}</td>
+                <td className="px-4 py-2 text-right font-mono text-slate-500">{e.parent ? '-' : formatAmount(e.nciProfit)}</td>
+              </tr>
+            ))}
+            <tr className="text-slate-500 italic">
+              <td className="px-4 py-2">ตัดรายการระหว่างกัน</td>
+              <td></td>
+              <td className="px-4 py-2 text-right font-mono">{formatAmount(eliminatedRevenue)}</td>
+              <td className="px-4 py-2 text-right font-mono">{formatAmount(eliminatedExpense)}</td>
+              <td className="px-4 py-2 text-right font-mono">{formatAmount(eliminatedRevenue - eliminatedExpense)}</td>
+              <td></td>
+            </tr>
+            <tr className="bg-slate-50/50 font-semibold">
+              <td className="px-4 py-2 text-slate-800">งบการเงินรวม</td>
+              <td></td>
+              <td className="px-4 py-2 text-right font-mono text-slate-800">{formatAmount(consolidation.revenue)}</td>
+              <td className="px-4 py-2 text-right font-mono text-slate-800">{formatAmount(consolidation.expense)}</td>
+              <td className="px-4 py-2 text-right font-mono text-slate-800">{formatAmount(consolidation.profit)}</td>
+              <td className="px-4 py-2 text-right font-mono text-slate-800">{formatAmount(consolidation.nciProfit)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {eliminations.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-slate-700 mb-2">รายการระหว่างกันที่ตัดออก</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs font-semibold text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                  <th className="px-4 py-2 text-left">คู่บัญชี</th>
+                  <th className="px-4 py-2 text-right">ด้าน A</th>
+                  <th className="px-4 py-2 text-right">ด้าน B</th>
+                  <th className="px-4 py-2 text-right">ตัดออก</th>
+                  <th className="px-4 py-2 text-right">ไม่ได้ตัด</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {eliminations.map(e => (
+                  <tr key={e.pair}>
+                    <td className="px-4 py-2 text-slate-800">{e.pair}</td>
+                    <td className="px-4 py-2 text-right font-mono text-slate-600">{formatAmount(e.sideA)}</td>
+                    <td className="px-4 py-2 text-right font-mono text-slate-600">{formatAmount(e.sideB)}</td>
+                    <td className="px-4 py-2 text-right font-mono text-slate-800">{formatAmount(e.eliminated)}</td>
+                    <td className={`px-4 py-2 text-right font-mono ${Math.round(e.unmatched) === 0 ? 'text-slate-400' : 'text-red-600 font-medium'}`}>
+                      {formatAmount(e.unmatched)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {consolidation.notes.length > 0 && (
+        <div className="mt-4 p-3 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-700 space-y-1">
+          {consolidation.notes.map(note => (
+            <p key={note} className="flex items-start"><Info className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />{note}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
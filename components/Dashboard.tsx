@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, ChatMessage, LineItem, MaterialitySettings as MaterialityConfig, SourceRef, SourceSheet } from '../types';
 import { 
   BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, 
   XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer 
@@ -8,114 +8,94 @@ import {
   TrendingUp, TrendingDown, Activity, AlertTriangle, CheckCircle2, 
   FileText, LayoutDashboard, ArrowUpRight, ArrowDownRight, Filter, 
   Download, FileSpreadsheet, BarChart3, PieChart as PieChartIcon, 
-  LineChart as LineChartIcon, DollarSign, Wallet, ChevronDown, ChevronRight
+  LineChart as LineChartIcon, DollarSign, Wallet, Loader2, MessageSquare, Target, RotateCcw
 } from 'lucide-react';
 import { utils, writeFile } from 'xlsx';
+import { STATEMENT_LABELS } from '../services/spreadsheetParser';
+import { REVIEW_STATUS_LABELS, exportedSection, isFullyApproved, pinnedAnswerSection, reviewSections, signOffRows } from '../services/reportReview';
+import { ReportViewer } from './ReportViewer';
+import { ChatPanel } from './ChatPanel';
+import { CashFlowSection } from './CashFlowSection';
+import { BudgetSection } from './BudgetSection';
+import { ConsolidationSection } from './ConsolidationSection';
+import { ForecastSection } from './ForecastSection';
+import { ScenarioPanel } from './ScenarioPanel';
+import { SourcePanel } from './SourcePanel';
+import { MismatchBadge, ReconciliationSection } from './ReconciliationSection';
+import { findCheck, reconcileAnalysis, RECONCILIATION_KIND_LABELS } from '../services/reconciliation';
+import { FORECAST_METHOD_LABELS, FORECAST_METRIC_LABELS } from '../services/forecastEngine';
+import { BenchmarkSettings } from './BenchmarkSettings';
+import { MaterialitySettings } from './MaterialitySettings';
+import { applyMateriality, loadMaterialitySettings, saveMaterialitySettings } from '../services/materiality';
+import { applyBenchmark } from '../services/ratioEngine';
+import { BenchmarkSettings as BenchmarkConfig, loadBenchmarkSettings, resolveBenchmark, saveBenchmarkSettings } from '../services/ratioBenchmarks';
 
 interface DashboardProps {
   data: AnalysisResult;
   onReset: () => void;
+  reportPending?: boolean; // แสดงผลบางส่วน ระหว่างที่ AI ยังเขียนรายงานไม่เสร็จ
+  reportError?: string; // ขั้นเขียนรายงานล้มเหลว (ยังแสดงผลบางส่วน)
+  onRetryReport?: () => void; // เขียนเฉพาะรายงานใหม่ (มีเมื่อยังมีไฟล์ของการวิเคราะห์นี้อยู่)
+  lineItems?: LineItem[]; // รายการจากไฟล์ที่อัปโหลด (บริบทของการถาม-ตอบ)
+  sourceSheets?: SourceSheet[]; // แถวต้นฉบับ ใช้แสดงที่มาของตัวเลข
+  onUpdate?: (changes: Partial<AnalysisResult>) => void; // บันทึกการแก้ไข/ตรวจทานรายงานและการถาม-ตอบ
 }
 
 const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4'];
 
-// --- Helper Components for Report Viewer ---
-
-const MarkdownRenderer: React.FC<{ content: string }> = ({ content }) => {
-  // Simple parser to handle bold text (**text**) and bullet points
-  const lines = content.split('\n');
-  return (
-    <div className="space-y-2 text-slate-700 leading-relaxed">
-      {lines.map((line, idx) => {
-        const trimmed = line.trim();
-        if (!trimmed) return <div key={idx} className="h-2"></div>;
-        
-        // Handle Bullet points
-        if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
-          const text = trimmed.substring(2);
-          return (
-            <div key={idx} className="flex items-start ml-4">
-              <span className="mr-2 mt-1.5 w-1.5 h-1.5 bg-indigo-500 rounded-full flex-shrink-0"></span>
-              <span dangerouslySetInnerHTML={{ 
-                __html: text.replace(/\*\*(.*?)\*\*/g, '<strong class="text-slate-900 font-semibold">$1</strong>') 
-              }} />
-            </div>
-          );
-        }
-
-        // Handle normal text
-        return (
-          <p key={idx} dangerouslySetInnerHTML={{ 
-            __html: trimmed.replace(/\*\*(.*?)\*\*/g, '<strong class="text-slate-900 font-semibold">$1</strong>') 
-          }} />
-        );
-      })}
-    </div>
-  );
-};
-
-const CollapsibleSection: React.FC<{ title: string; content: string; defaultOpen?: boolean }> = ({ title, content, defaultOpen = false }) => {
-  const [isOpen, setIsOpen] = useState(defaultOpen);
-
-  return (
-    <div className="border border-slate-200 rounded-xl overflow-hidden mb-4 bg-white shadow-sm transition-all hover:shadow-md">
-      <button 
-        onClick={() => setIsOpen(!isOpen)}
-        className="w-full flex items-center justify-between p-4 bg-slate-50 hover:bg-slate-100 transition-colors text-left"
-      >
-        <h3 className="font-bold text-slate-800 flex items-center text-lg">
-          {isOpen ? <ChevronDown className="w-5 h-5 mr-2 text-indigo-600" /> : <ChevronRight className="w-5 h-5 mr-2 text-slate-400" />}
-          {title.replace(/^#+\s*/, '')}
-        </h3>
-      </button>
-      
-      {isOpen && (
-        <div className="p-6 bg-white animate-fade-in border-t border-slate-100">
-          <MarkdownRenderer content={content} />
-        </div>
-      )}
-    </div>
-  );
-};
-
-const ReportViewer: React.FC<{ report: string }> = ({ report }) => {
-  // Split report by Headers (##)
-  const sections = useMemo(() => {
-    if (!report) return [];
-    // Split by lines starting with ##
-    const parts = report.split(/(?=^##\s)/m);
-    return parts.filter(p => p.trim().length > 0).map(part => {
-      const lines = part.split('\n');
-      const title = lines[0].trim();
-      const content = lines.slice(1).join('\n').trim();
-      return { title, content };
-    });
-  }, [report]);
+// --- Main Dashboard Component ---
 
-  return (
-    <div className="max-w-4xl mx-auto space-y-4">
-      {sections.length > 0 ? (
-        sections.map((sec, idx) => (
-          <CollapsibleSection 
-            key={idx} 
-            title={sec.title} 
-            content={sec.content} 
-            defaultOpen={idx === 0 || idx === 1} // Open first two sections by default
-          />
-        ))
-      ) : (
-        <div className="p-8 text-center text-slate-400">กำลังประมวลผลรูปแบบรายงาน...</div>
+export const Dashboard: React.FC<DashboardProps> = ({ data, onReset, reportPending = false, reportError = '', onRetryReport, lineItems = [], sourceSheets = [], onUpdate }) => {
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'report' | 'chat'>('dashboard');
+  const [selectedDept, setSelectedDept] = useState<string>('All');
+  const [chartType, setChartType] = useState<'bar' | 'line' | 'pie' | 'budget'>('bar');
+  const hasPeriods = data.periods?.length > 1;
+  const [chartAxis, setChartAxis] = useState<'period' | 'department'>(hasPeriods ? 'period' : 'department');
+  const sections = useMemo(() => reviewSections(data), [data]);
+  const [benchmark, setBenchmark] = useState<BenchmarkConfig>(loadBenchmarkSettings);
+  const resolvedBenchmark = useMemo(() => resolveBenchmark(benchmark), [benchmark]);
+  // ตัวเลขที่ผู้ใช้คลิกเพื่อดูแถวต้นฉบับ
+  // ผลบางส่วนที่ยังไม่มีรายงาน (ขั้นเขียนรายงานล้มเหลว)
+  const reportMissing = !reportPending && !data.formalReport;
+  const reportNotice = reportMissing && (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+      <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+      <p className="flex-grow">
+        เขียนรายงานผู้บริหารไม่สำเร็จ ตัวเลข อัตราส่วน และผลต่างด้านล่างยังใช้ได้
+        {reportError && <span className="block text-amber-700/80 mt-1">{reportError}</span>}
+      </p>
+      {onRetryReport && (
+        <button onClick={onRetryReport} className="flex items-center justify-center px-4 py-2 bg-white border border-amber-300 rounded-lg hover:bg-amber-100 font-medium">
+          <RotateCcw className="w-4 h-4 mr-2" /> เขียนรายงานใหม่
+        </button>
       )}
     </div>
   );
-};
+  const [drillDown, setDrillDown] = useState<{ title: string; refs: SourceRef[] } | null>(null);
+  const openDepartmentSources = (name?: string) => {
+    const dept = data.departments.find(d => d.name === name);
+    if (dept?.sources?.length) setDrillDown({ title: `รายรับ/รายจ่ายของ ${dept.name}`, refs: dept.sources });
+  };
 
-// --- Main Dashboard Component ---
+  // เปลี่ยนเกณฑ์แล้วตัดสินสถานะของอัตราส่วนใหม่ทันที (ไม่ต้องวิเคราะห์ใหม่)
+  const handleBenchmarkChange = (settings: BenchmarkConfig) => {
+    setBenchmark(settings);
+    saveBenchmarkSettings(settings);
+    onUpdate?.({ ratios: applyBenchmark(data.ratios, resolveBenchmark(settings)) });
+  };
 
-export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'report'>('dashboard');
-  const [selectedDept, setSelectedDept] = useState<string>('All');
-  const [chartType, setChartType] = useState<'bar' | 'line' | 'pie'>('bar');
+  // คัดรายการผลต่างใหม่จากทุกรายการที่คำนวณได้ ตามเกณฑ์ความมีสาระสำคัญที่ปรับ
+  const [materiality, setMateriality] = useState<MaterialityConfig>(loadMaterialitySettings);
+  const handleMaterialityChange = (settings: MaterialityConfig) => {
+    setMateriality(settings);
+    saveMaterialitySettings(settings);
+    const significantChanges = applyMateriality(data.varianceCandidates ?? data.significantChanges, settings, data.figures);
+    // รายการที่แสดงเปลี่ยน จึงตรวจกับไฟล์ใหม่ (ผลเก่าที่ไม่มีผลตรวจไม่ต้องตรวจ)
+    onUpdate?.({
+      significantChanges,
+      ...(data.reconciliation && { reconciliation: reconcileAnalysis({ ...data, significantChanges }, lineItems) }),
+    });
+  };
 
   // Logic: Extract Departments
   const availableDepartments = useMemo(() => {
@@ -128,6 +108,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
         if (c.relatedDepartment) depts.add(c.relatedDepartment);
       });
     }
+    data.budget?.departments.forEach(d => depts.add(d.name));
     return Array.from(depts).sort();
   }, [data]);
 
@@ -147,6 +128,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
     return data.departments.filter(d => d.name === selectedDept);
   }, [data.departments, selectedDept]);
 
+  // แนบคำตอบจากการถาม-ตอบเป็นส่วนใหม่ท้ายรายงาน (คู่กับคำถามที่อยู่ก่อนหน้า)
+  const handlePinAnswer = (message: ChatMessage) => {
+    const chat = data.chat ?? [];
+    const idx = chat.findIndex(m => m.id === message.id);
+    const question = chat.slice(0, idx).reverse().find(m => m.role === 'user')?.content ?? '';
+    onUpdate?.({
+      chat: chat.map(m => (m.id === message.id ? { ...m, pinned: true } : m)),
+      reportReview: [...sections, pinnedAnswerSection(question, message.content)],
+    });
+  };
+
+  // Export Logic (PDF) — โหลด pdfmake และฟอนต์เมื่อกดใช้งานเท่านั้น
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const handleExportPdf = async () => {
+    setIsExportingPdf(true);
+    try {
+      const { exportReportPdf } = await import('../services/reportPdf');
+      await exportReportPdf(data);
+    } catch (error) {
+      console.error("PDF Export Error:", error);
+      alert("เกิดข้อผิดพลาดในการสร้างไฟล์ PDF");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
   // Export Logic (Excel)
   const handleExportExcel = () => {
     try {
@@ -161,31 +168,128 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
         [],
         ["---------------------------------------------------"],
         [],
-        ["บทรายงานฉบับเต็ม"],
-        [data.formalReport] 
+        [isFullyApproved(sections) ? "บทรายงานฉบับเต็ม (อนุมัติแล้ว)" : "บทรายงานฉบับเต็ม (ยังไม่อนุมัติครบทุกส่วน)"],
+        ...sections.flatMap(sec => {
+          const { content, note } = exportedSection(sec);
+          return [[], [sec.title, note ? `สถานะ: ${note}` : `สถานะ: ${REVIEW_STATUS_LABELS.approved}`], [content]];
+        })
       ];
       const wsReport = utils.aoa_to_sheet(reportData);
       utils.book_append_sheet(wb, wsReport, "Executive Report");
 
+      if (sections.length > 0) {
+        utils.book_append_sheet(wb, utils.aoa_to_sheet(signOffRows(sections)), "Sign-off");
+      }
+
       if (data.significantChanges?.length > 0) {
         const changesData = data.significantChanges.map(item => ({
           "รายการ": item.item,
           "หน่วยงาน": item.relatedDepartment || "N/A",
+          "งบ": item.statement ? STATEMENT_LABELS[item.statement] : "",
           "แนวโน้ม": item.trend === 'increase' ? 'เพิ่มขึ้น' : 'ลดลง',
           "เปลี่ยนแปลง (%)": item.percentage,
           "จำนวนเงิน": item.amount,
-          "สาเหตุ": item.reason
+          "งวดก่อน": item.basis ? `${item.basis.fromPeriod}: ${item.basis.fromAmount}` : "",
+          "งวดปัจจุบัน": item.basis ? `${item.basis.toPeriod}: ${item.basis.toAmount}` : "",
+          "สาเหตุ": item.reason,
+          "เกณฑ์ความมีสาระสำคัญ": item.materiality?.rule ?? ""
         }));
         const wsChanges = utils.json_to_sheet(changesData);
         utils.book_append_sheet(wb, wsChanges, "Variance Analysis");
       }
 
+      if (data.cashFlow) {
+        const cf = data.cashFlow;
+        const cashFlowData = [
+          ["งวด", cf.period],
+          ["วิธีคำนวณ", cf.method === 'direct' ? 'จากงบกระแสเงินสด' : `ทางอ้อม (${cf.fromPeriod} → ${cf.period})`],
+          [],
+          ...cf.steps.map(step => [step.label, step.amount]),
+          [],
+          ["รายจ่ายลงทุน", cf.capex ?? "N/A"],
+          ["กระแสเงินสดอิสระ", cf.freeCashFlow ?? "N/A"],
+          ["Cash Conversion (เท่า)", cf.cashConversion ?? "N/A"],
+          ["Operating Cash Flow Ratio (เท่า)", cf.operatingCashFlowRatio ?? "N/A"],
+          ...cf.notes.map(note => ["หมายเหตุ", note]),
+        ];
+        utils.book_append_sheet(wb, utils.aoa_to_sheet(cashFlowData), "Cash Flow");
+      }
+
+      if (data.budget) {
+        const favorable = (favorable: boolean) => (favorable ? 'ดีกว่างบ' : 'แย่กว่างบ');
+        const budgetData = [
+          ["งบประมาณ", data.budget.budgetPeriod, "ผลจริง", data.budget.actualPeriod],
+          [],
+          ["หน่วยงาน", "รายการ", "ประเภท", "งบประมาณ", "ผลจริง", "ผลต่าง", "ผลต่าง (%)", "ผลเทียบงบ"],
+          ...data.budget.departments.flatMap(d => ([
+            ["รวมรายได้", d.revenue],
+            ["รวมรายจ่าย", d.expense],
+            ["กำไร", d.profit],
+          ] as const).map(([label, f]) => [d.name, label, "", f.budget, f.actual, f.variance, f.variancePercent ?? "N/A", favorable(f.favorable)])),
+          [],
+          ...data.budget.items.map(i => [
+            i.department, i.item, i.kind === 'revenue' ? 'รายได้' : 'รายจ่าย',
+            i.budget, i.actual, i.variance, i.variancePercent ?? "N/A", favorable(i.favorable)
+          ]),
+          ...data.budget.notes.map(note => ["หมายเหตุ", note]),
+        ];
+        utils.book_append_sheet(wb, utils.aoa_to_sheet(budgetData), "Budget vs Actual");
+      }
+
+      if (data.consolidation) {
+        const { consolidation } = data;
+        const consolidationData = [
+          ["งวด", consolidation.period],
+          [],
+          ["บริษัท", "บริษัทใหญ่", "ถือหุ้น (%)", "รายได้", "ค่าใช้จ่าย", "กำไร", "ส่วนของผู้ถือหุ้น", "NCI (กำไร)", "NCI (ส่วนของผู้ถือหุ้น)"],
+          ...consolidation.entities.map(e => [
+            e.name, e.parent ? "ใช่" : "", e.ownership, e.revenue, e.expense, e.profit, e.equity ?? "N/A", e.nciProfit, e.nciEquity ?? "N/A"
+          ]),
+          ["งบการเงินรวม", "", "", consolidation.revenue, consolidation.expense, consolidation.profit, "", consolidation.nciProfit, consolidation.nciEquity ?? "N/A"],
+          ["กำไรส่วนของบริษัทใหญ่", "", "", "", "", consolidation.profitToParent],
+          ["ค่าความนิยม", consolidation.goodwill ?? "N/A"],
+          [],
+          ["คู่บัญชีระหว่างกัน", "งวด", "ด้าน A", "ด้าน B", "ตัดออก", "ไม่ได้ตัด"],
+          ...consolidation.eliminations.map(e => [e.pair, e.period, e.sideA, e.sideB, e.eliminated, e.unmatched]),
+          ...consolidation.notes.map(note => ["หมายเหตุ", note]),
+        ];
+        utils.book_append_sheet(wb, utils.aoa_to_sheet(consolidationData), "Consolidation");
+      }
+
+      if (data.forecast) {
+        const forecastData = [
+          ["วิธีคาดการณ์", FORECAST_METHOD_LABELS[data.forecast.method]],
+          [],
+          ["หน่วยงาน", "ตัวเลข", "งวด", "ค่าคาดการณ์", "ขอบล่าง (95%)", "ขอบบน (95%)"],
+          ...data.forecast.series.flatMap(s => s.forecast.map(p => [
+            s.department, FORECAST_METRIC_LABELS[s.metric], p.period, Math.round(p.value), Math.round(p.lower), Math.round(p.upper)
+          ])),
+          ...data.forecast.notes.map(note => ["หมายเหตุ", note]),
+        ];
+        utils.book_append_sheet(wb, utils.aoa_to_sheet(forecastData), "Forecast");
+      }
+
+      if (data.reconciliation) {
+        const statusLabels = { match: 'ตรง', mismatch: 'ไม่ตรง', unverified: 'ตรวจไม่ได้' };
+        const reconciliationData = [
+          ["ความน่าเชื่อถือ (%)", data.reconciliation.confidence ?? "N/A"],
+          [],
+          ["การตรวจ", "หน่วยงาน/รายการ", "ผลวิเคราะห์", "ข้อมูลในไฟล์", "ผลตรวจ"],
+          ...data.reconciliation.checks.map(c => [
+            RECONCILIATION_KIND_LABELS[c.kind], c.subject, c.claimed, c.expected ?? "ไม่พบในไฟล์", statusLabels[c.status]
+          ]),
+        ];
+        utils.book_append_sheet(wb, utils.aoa_to_sheet(reconciliationData), "Reconciliation");
+      }
+
       if (data.ratios?.length > 0) {
         const ratiosData = data.ratios.map(item => ({
           "อัตราส่วน": item.name,
-          "ค่า": item.value,
+          "ค่า": item.value ?? "N/A",
           "หน่วย": item.unit,
           "สถานะ": item.status,
+          "สูตร": item.formula,
+          "ตัวเลขตั้งต้น": item.inputs.map(i => `${i.label} = ${i.value === null ? 'N/A' : i.value.toLocaleString()}`).join(', '),
           "คำอธิบาย": item.description
         }));
         const wsRatios = utils.json_to_sheet(ratiosData);
@@ -201,12 +305,45 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
 
   // Render Functions
   const renderChart = () => {
-    const chartData = filteredDepts;
+    if (chartType === 'budget' && data.budget) {
+      const budgetData = data.budget.departments
+        .filter(d => selectedDept === 'All' || d.name === selectedDept)
+        .map(d => ({
+          name: d.name,
+          budgetRevenue: d.revenue.budget,
+          actualRevenue: d.revenue.actual,
+          budgetExpense: d.expense.budget,
+          actualExpense: d.expense.actual,
+        }));
+      if (budgetData.length === 0) return <div className="flex h-64 items-center justify-center text-gray-400">ไม่มีงบประมาณของหน่วยงานนี้</div>;
+
+      return (
+        <ResponsiveContainer width="100%" height={350}>
+          <BarChart data={budgetData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 12}} />
+            <YAxis axisLine={false} tickLine={false} tickFormatter={(val) => `${val/1000}k`} tick={{fill: '#64748b', fontSize: 12}} />
+            <Tooltip cursor={{fill: '#f8fafc'}} formatter={(val:number) => new Intl.NumberFormat('th-TH').format(val)} contentStyle={{borderRadius:'8px', border:'none', boxShadow:'0 10px 15px -3px rgba(0, 0, 0, 0.1)'}} />
+            <Legend verticalAlign="top" wrapperStyle={{paddingBottom: '20px'}} />
+            <Bar dataKey="budgetRevenue" name="รายรับ (งบประมาณ)" fill="#c7d2fe" radius={[4, 4, 0, 0]} barSize={24} />
+            <Bar dataKey="actualRevenue" name="รายรับ (จริง)" fill="#6366f1" radius={[4, 4, 0, 0]} barSize={24} />
+            <Bar dataKey="budgetExpense" name="รายจ่าย (งบประมาณ)" fill="#fecaca" radius={[4, 4, 0, 0]} barSize={24} />
+            <Bar dataKey="actualExpense" name="รายจ่าย (จริง)" fill="#ef4444" radius={[4, 4, 0, 0]} barSize={24} />
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    }
+
+    // แกน X เป็นงวด (ภาพรวมทั้งองค์กร) หรือเป็นหน่วยงาน
+    const byPeriod = chartAxis === 'period' && hasPeriods;
+    const chartData = byPeriod
+      ? data.periods.map(p => ({ name: p.period, revenue: p.revenue, expense: p.expense, profit: p.profit }))
+      : filteredDepts;
     if (!chartData || chartData.length === 0) return <div className="flex h-64 items-center justify-center text-gray-400">ไม่มีข้อมูลแสดงกราฟ</div>;
 
     if (chartType === 'pie') {
       let pieData;
-      if (selectedDept === 'All') {
+      if (byPeriod || selectedDept === 'All') {
         pieData = chartData.map(d => ({ name: d.name, value: d.revenue }));
       } else {
         const dept = chartData[0];
@@ -218,7 +355,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
           <PieChart>
             <Pie data={pieData} cx="50%" cy="50%" innerRadius={60} outerRadius={100} paddingAngle={5} dataKey="value">
               {pieData.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={selectedDept === 'All' ? COLORS[index % COLORS.length] : (index === 0 ? '#10b981' : '#ef4444')} />
+                <Cell key={`cell-${index}`} fill={byPeriod || selectedDept === 'All' ? COLORS[index % COLORS.length] : (index === 0 ? '#10b981' : '#ef4444')} />
               ))}
             </Pie>
             <Tooltip formatter={(val:number) => new Intl.NumberFormat('th-TH').format(val)} contentStyle={{borderRadius:'8px', border:'none', boxShadow:'0 10px 15px -3px rgba(0, 0, 0, 0.1)'}} />
@@ -245,7 +382,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
       );
     }
 
-    // Default to Bar
+    // Default to Bar — แท่งของหน่วยงานคลิกเพื่อดูแถวต้นฉบับได้
+    const departmentClick = byPeriod ? undefined : (entry: { name?: string }) => openDepartmentSources(entry.name);
     return (
       <ResponsiveContainer width="100%" height={350}>
         <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
@@ -254,9 +392,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
           <YAxis axisLine={false} tickLine={false} tickFormatter={(val) => `${val/1000}k`} tick={{fill: '#64748b', fontSize: 12}} />
           <Tooltip cursor={{fill: '#f8fafc'}} formatter={(val:number) => new Intl.NumberFormat('th-TH').format(val)} contentStyle={{borderRadius:'8px', border:'none', boxShadow:'0 10px 15px -3px rgba(0, 0, 0, 0.1)'}} />
           <Legend verticalAlign="top" wrapperStyle={{paddingBottom: '20px'}} />
-          <Bar dataKey="revenue" name="รายรับ" fill="#6366f1" radius={[4, 4, 0, 0]} barSize={40} />
-          <Bar dataKey="expense" name="รายจ่าย" fill="#ef4444" radius={[4, 4, 0, 0]} barSize={40} />
-          <Bar dataKey="profit" name="กำไรสุทธิ" fill="#10b981" radius={[4, 4, 0, 0]} barSize={40} />
+          <Bar dataKey="revenue" name="รายรับ" fill="#6366f1" radius={[4, 4, 0, 0]} barSize={40} onClick={departmentClick} cursor={departmentClick && 'pointer'} />
+          <Bar dataKey="expense" name="รายจ่าย" fill="#ef4444" radius={[4, 4, 0, 0]} barSize={40} onClick={departmentClick} cursor={departmentClick && 'pointer'} />
+          <Bar dataKey="profit" name="กำไรสุทธิ" fill="#10b981" radius={[4, 4, 0, 0]} barSize={40} onClick={departmentClick} cursor={departmentClick && 'pointer'} />
         </BarChart>
       </ResponsiveContainer>
     );
@@ -293,6 +431,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                <FileText className="w-4 h-4 mr-2" />
                บทรายงาน
              </button>
+             <button
+               onClick={() => setActiveTab('chat')}
+               className={`px-5 py-2.5 rounded-lg flex items-center transition-all duration-200 ${activeTab === 'chat' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+             >
+               <MessageSquare className="w-4 h-4 mr-2" />
+               ถาม-ตอบ
+             </button>
            </div>
 
            {activeTab === 'dashboard' && (
@@ -311,14 +456,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
            )}
            
           <button onClick={onReset} className="bg-white hover:bg-slate-50 text-slate-600 border border-slate-200 px-5 py-2.5 rounded-xl transition-colors font-medium text-sm h-[46px]">
-            วิเคราะห์ใหม่
+            {reportPending ? 'ยกเลิก' : 'วิเคราะห์ใหม่'}
           </button>
         </div>
       </div>
 
       {activeTab === 'dashboard' ? (
         <div className="animate-fade-in space-y-6">
-          
+          {reportNotice}
+
           {/* Summary Card */}
           <div className="bg-gradient-to-r from-indigo-600 to-violet-600 rounded-2xl p-8 shadow-xl text-white relative overflow-hidden">
             <div className="absolute top-0 right-0 -mt-4 -mr-4 w-32 h-32 bg-white opacity-10 rounded-full blur-2xl"></div>
@@ -326,10 +472,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
             
             <h3 className="text-indigo-100 font-medium mb-3 flex items-center uppercase tracking-wider text-xs">
                <Activity className="w-4 h-4 mr-2" /> Executive Summary
+               {data.reconciliation && data.reconciliation.confidence !== null && (
+                 <span className="ml-3 px-2 py-0.5 rounded-full bg-white/20 text-white normal-case tracking-normal" title="สัดส่วนตัวเลขของ AI ที่ตรงกับข้อมูลในไฟล์">
+                   ความน่าเชื่อถือของตัวเลข {data.reconciliation.confidence}%
+                 </span>
+               )}
             </h3>
-            <p className="text-xl md:text-2xl leading-relaxed font-light text-white opacity-95">
-              "{data.overallAnalysis}"
-            </p>
+            {reportPending ? (
+              <p className="flex items-center text-lg font-light text-indigo-100">
+                <Loader2 className="w-5 h-5 mr-3 animate-spin" />
+                กำลังเขียนบทสรุปและรายงาน...
+              </p>
+            ) : reportMissing ? (
+              <p className="text-lg font-light text-indigo-100">ยังไม่มีบทสรุปผู้บริหาร</p>
+            ) : (
+              <p className="text-xl md:text-2xl leading-relaxed font-light text-white opacity-95">
+                "{data.overallAnalysis}"
+              </p>
+            )}
           </div>
 
           {/* Financial Ratios Grid - Highlighting this section */}
@@ -338,6 +498,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
               <Wallet className="w-5 h-5 mr-2 text-emerald-600" />
               อัตราส่วนทางการเงินที่สำคัญ (Key Financial Ratios)
             </h2>
+            <BenchmarkSettings settings={benchmark} onChange={handleBenchmarkChange} />
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5">
               {data.ratios.map((ratio, index) => {
                 let colorClass = 'bg-slate-100 text-slate-600';
@@ -358,16 +519,59 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                    icon = <TrendingDown className="w-5 h-5 text-red-500" />;
                 }
 
+                const ratioRefs = ratio.inputs.flatMap(input => input.refs ?? []);
+
                 return (
-                  <div key={index} className="bg-white rounded-2xl p-5 shadow-sm border border-slate-100 hover:shadow-md transition-all duration-200">
+                  <div
+                    key={index}
+                    onClick={ratioRefs.length > 0 ? () => setDrillDown({ title: `${ratio.name} (${ratio.formula})`, refs: ratioRefs }) : undefined}
+                    className={`relative group bg-white rounded-2xl p-5 shadow-sm border border-slate-100 hover:shadow-md transition-all duration-200 ${ratioRefs.length > 0 ? 'cursor-pointer' : ''}`}
+                  >
                     <div className="flex justify-between items-start mb-3">
                       <span className="text-slate-500 text-xs font-semibold uppercase tracking-wide">{ratio.name}</span>
                       {icon}
                     </div>
                     <div className="flex items-baseline mb-2">
-                       <span className="text-3xl font-bold text-slate-800">{ratio.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                       <span className="text-3xl font-bold text-slate-800">
+                         {ratio.value === null ? 'N/A' : ratio.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                       </span>
                        <span className="ml-1 text-sm text-slate-400 font-medium">{ratio.unit}</span>
                     </div>
+
+                    {/* เกณฑ์และค่ากลางอุตสาหกรรมที่ใช้ตัดสินสถานะ */}
+                    {ratio.benchmark && (
+                      <div className="text-[11px] text-slate-500 mb-2 space-y-0.5">
+                        {ratio.benchmark.median !== undefined && (
+                          <p title="ค่าตัวอย่างโดยประมาณ ไม่ใช่ค่ามัธยฐานจากชุดข้อมูลของ SET">
+                            ค่ากลางอุตสาหกรรม (ค่าตัวอย่าง): <span className="font-semibold text-slate-700">{ratio.benchmark.median.toLocaleString()} {ratio.unit}</span>
+                          </p>
+                        )}
+                        <p>
+                          เกณฑ์ ({ratio.benchmark.preset}): ดี {ratio.benchmark.higherIsBetter ? '≥' : '≤'} {ratio.benchmark.good}
+                          {' • '}เฝ้าระวัง {ratio.benchmark.higherIsBetter ? '≥' : '≤'} {ratio.benchmark.warning}
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Formula & Source Figures (แสดงเมื่อ hover) */}
+                    <div className="hidden group-hover:block absolute left-0 right-0 top-full mt-2 z-20 bg-slate-900 text-white text-xs rounded-xl p-4 shadow-xl">
+                      <div className="font-semibold text-indigo-200 mb-2">{ratio.formula}</div>
+                      <table className="w-full">
+                        <tbody>
+                          {ratio.inputs.map(input => (
+                            <tr key={input.key}>
+                              <td className="py-0.5 text-slate-300">
+                                {input.label}
+                                {input.source && <span className="block text-[10px] text-slate-500">{input.source}</span>}
+                              </td>
+                              <td className="py-0.5 text-right font-mono">
+                                {input.value === null ? 'ไม่พบในไฟล์' : input.value.toLocaleString()}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
                     
                     {/* Visual Status Bar */}
                     <div className="w-full bg-slate-100 rounded-full h-1.5 mb-3">
@@ -386,7 +590,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Variance Analysis Table */}
             <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden flex flex-col">
-              <div className="p-6 border-b border-slate-50 flex justify-between items-center bg-white">
+              <div className="relative p-6 border-b border-slate-50 flex justify-between items-center bg-white">
                 <div>
                   <h2 className="text-lg font-bold text-slate-800 flex items-center">
                     <TrendingUp className="w-5 h-5 mr-2 text-indigo-600" />
@@ -394,6 +598,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                   </h2>
                   <p className="text-xs text-slate-400 mt-1">รายการที่มีการ เพิ่ม/ลด อย่างมีนัยสำคัญ</p>
                 </div>
+                {!reportPending && onUpdate && (
+                  <MaterialitySettings
+                    settings={materiality}
+                    departments={availableDepartments.filter(d => d !== 'All')}
+                    onChange={handleMaterialityChange}
+                  />
+                )}
               </div>
               <div className="overflow-x-auto flex-grow">
                 <table className="w-full text-left">
@@ -412,6 +623,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                         <tr key={idx} className="hover:bg-slate-50/80 transition-colors group">
                           <td className="px-6 py-4">
                             <div className="font-medium text-slate-800">{item.item}</div>
+                            {item.statement && item.statement !== 'other' && (
+                              <div className="text-xs text-indigo-500 mt-0.5">{STATEMENT_LABELS[item.statement]}</div>
+                            )}
+                            {item.basis && (
+                              <div className="text-xs text-slate-400 font-mono mt-0.5">
+                                {item.basis.fromPeriod}: {item.basis.fromAmount.toLocaleString()} → {item.basis.toPeriod}: {item.basis.toAmount.toLocaleString()}
+                              </div>
+                            )}
+                            {item.materiality && (
+                              <div className="text-[11px] text-amber-600 mt-0.5" title={`ผลต่างขั้นต่ำ ${item.materiality.threshold.toLocaleString()} บาท`}>
+                                เกณฑ์ {item.materiality.rule}
+                              </div>
+                            )}
                           </td>
                           <td className="px-4 py-4">
                             <span className="px-2.5 py-1 bg-slate-100 text-slate-600 rounded-md text-xs font-medium border border-slate-200">
@@ -427,7 +651,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                              </span>
                           </td>
                           <td className="px-6 py-4 text-right text-slate-600 font-mono text-sm">
-                            {item.amount.toLocaleString()}
+                            {item.sources?.length ? (
+                              <button
+                                onClick={() => setDrillDown({ title: item.item, refs: item.sources! })}
+                                title="ดูแถวต้นฉบับ"
+                                className="underline decoration-dotted underline-offset-4 hover:text-indigo-600"
+                              >
+                                {item.amount.toLocaleString()}
+                              </button>
+                            ) : item.amount.toLocaleString()}
+                            <MismatchBadge check={findCheck(data.reconciliation, 'variance', item.item)} />
                           </td>
                           <td className="px-6 py-4 text-sm text-slate-500">
                             {item.reason}
@@ -450,16 +683,33 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
             <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100 flex flex-col">
               <div className="flex justify-between items-center mb-6">
                 <h2 className="text-lg font-bold text-slate-800">ประสิทธิภาพการดำเนินงาน</h2>
-                <div className="flex bg-slate-100 p-1 rounded-lg">
-                  <button onClick={() => setChartType('bar')} className={`p-1.5 rounded-md transition-all ${chartType === 'bar' ? 'bg-white shadow text-indigo-600' : 'text-slate-400'}`}>
-                    <BarChart3 className="w-4 h-4" />
-                  </button>
-                  <button onClick={() => setChartType('line')} className={`p-1.5 rounded-md transition-all ${chartType === 'line' ? 'bg-white shadow text-indigo-600' : 'text-slate-400'}`}>
-                    <LineChartIcon className="w-4 h-4" />
-                  </button>
-                  <button onClick={() => setChartType('pie')} className={`p-1.5 rounded-md transition-all ${chartType === 'pie' ? 'bg-white shadow text-indigo-600' : 'text-slate-400'}`}>
-                    <PieChartIcon className="w-4 h-4" />
-                  </button>
+                <div className="flex items-center gap-2">
+                  {hasPeriods && chartType !== 'budget' && (
+                    <select
+                      value={chartAxis}
+                      onChange={(e) => setChartAxis(e.target.value as 'period' | 'department')}
+                      className="bg-slate-100 text-xs text-slate-600 rounded-lg px-2 py-1.5 outline-none cursor-pointer font-medium"
+                    >
+                      <option value="period">ตามงวด</option>
+                      <option value="department">{data.consolidation ? 'ตามบริษัท' : 'ตามหน่วยงาน'}</option>
+                    </select>
+                  )}
+                  <div className="flex bg-slate-100 p-1 rounded-lg">
+                    <button onClick={() => setChartType('bar')} className={`p-1.5 rounded-md transition-all ${chartType === 'bar' ? 'bg-white shadow text-indigo-600' : 'text-slate-400'}`}>
+                      <BarChart3 className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setChartType('line')} className={`p-1.5 rounded-md transition-all ${chartType === 'line' ? 'bg-white shadow text-indigo-600' : 'text-slate-400'}`}>
+                      <LineChartIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setChartType('pie')} className={`p-1.5 rounded-md transition-all ${chartType === 'pie' ? 'bg-white shadow text-indigo-600' : 'text-slate-400'}`}>
+                      <PieChartIcon className="w-4 h-4" />
+                    </button>
+                    {data.budget && (
+                      <button onClick={() => setChartType('budget')} title="งบประมาณเทียบผลจริง" className={`p-1.5 rounded-md transition-all ${chartType === 'budget' ? 'bg-white shadow text-indigo-600' : 'text-slate-400'}`}>
+                        <Target className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
               <div className="flex-grow flex items-center justify-center">
@@ -467,6 +717,27 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
               </div>
             </div>
           </div>
+
+          {data.consolidation && <ConsolidationSection consolidation={data.consolidation} />}
+          {data.reconciliation && <ReconciliationSection reconciliation={data.reconciliation} />}
+          {data.budget && <BudgetSection budget={data.budget} department={selectedDept} />}
+          {data.forecast && <ForecastSection forecast={data.forecast} department={selectedDept} />}
+          <ScenarioPanel
+            data={data}
+            benchmark={resolvedBenchmark}
+            onScenariosChange={onUpdate && !reportPending ? (scenarios) => onUpdate({ scenarios }) : undefined}
+          />
+          {data.cashFlow && <CashFlowSection cashFlow={data.cashFlow} />}
+        </div>
+      ) : activeTab === 'chat' ? (
+        <div className="animate-fade-in">
+          <ChatPanel
+            data={data}
+            lineItems={lineItems}
+            disabled={reportPending || !onUpdate}
+            onMessagesChange={(chat) => onUpdate?.({ chat })}
+            onPin={handlePinAnswer}
+          />
         </div>
       ) : (
         /* REPORT VIEW - Enhanced Readability */
@@ -482,7 +753,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
                <p className="text-slate-500 ml-0 md:ml-14">SmartAcc Analysis Official Report</p>
             </div>
             <div className="flex gap-3">
-              <button onClick={handleExportExcel} className="flex items-center px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium transition-colors shadow-lg shadow-indigo-200">
+              <button onClick={handleExportPdf} disabled={reportPending || isExportingPdf} className="flex items-center px-5 py-2.5 bg-white text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                {isExportingPdf ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+                Download Report (.pdf)
+              </button>
+              <button onClick={handleExportExcel} disabled={reportPending} className="flex items-center px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium transition-colors shadow-lg shadow-indigo-200 disabled:opacity-50 disabled:cursor-not-allowed">
                 <FileSpreadsheet className="w-4 h-4 mr-2" />
                 Download Report (.xlsx)
               </button>
@@ -490,7 +765,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
           </div>
           
           <div className="p-8 bg-slate-50/50 flex-grow">
-             <ReportViewer report={data.formalReport || "กำลังสร้างรายงาน..."} />
+             {reportNotice && <div className="mb-6">{reportNotice}</div>}
+             <ReportViewer sections={sections} readOnly={reportPending || !onUpdate} onChange={(reportReview) => onUpdate?.({ reportReview })} />
              
              <div className="mt-12 text-center text-slate-400 text-sm">
                 <p>Generated by SmartAcc AI Engine</p>
@@ -498,6 +774,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onReset }) => {
           </div>
         </div>
       )}
+
+      {drillDown && (
+        <SourcePanel title={drillDown.title} refs={drillDown.refs} sheets={sourceSheets} onClose={() => setDrillDown(null)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,86 +1,364 @@
-
-import React, { useState, useEffect } from 'react';
-import { Upload, FileSpreadsheet, FileText, CheckCircle2 } from 'lucide-react';
-import { read, utils } from 'xlsx';
+import React, { useState } from 'react';
+import { Upload, FileSpreadsheet, FileText, CheckCircle2, X, Play, Eye, Loader2, ScanText, Target, BookOpen, Wand2, Building2 } from 'lucide-react';
+import { read, utils, WorkBook } from 'xlsx';
+import { AnalysisInput, ColumnMapping, GroupEntity, LineItem, SourceSheet, StatementType, UploadedFile } from '../types';
+import { classifyStatement, extractLineItems, guessPeriodFromFileName, STATEMENT_LABELS } from '../services/spreadsheetParser';
+import { applyAccountMapping, findUnmappedItems } from '../services/accountMapping';
+import { extractPdfPages, OcrUnavailableError, PdfPage, tableRows } from '../services/pdfExtractor';
+import { buildLedgerStatements, findLedgerColumns } from '../services/ledgerImport';
+import { applyColumnMapping, headerSignature, normalizedTable, saveImportTemplate, suggestMapping } from '../services/importTemplates';
+import { consolidate } from '../services/consolidationEngine';
+import { AccountMappingReview } from './AccountMappingReview';
+import { IntercompanySettings } from './IntercompanySettings';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
 
 interface FileUploadProps {
-  onFileUpload: (file: { data: string; mimeType: string }) => void;
+  onFileUpload: (input: AnalysisInput) => void;
+}
+
+interface SheetOption {
+  name: string;
+  statement: StatementType;
+  included: boolean;
+  mapping?: ColumnMapping; // การจัดคอลัมน์จากตัวช่วย (ไม่มี = อ่านหัวตารางอัตโนมัติ)
+}
+
+interface PendingFile {
+  file: File;
+  period: string;
+  workbook?: WorkBook; // มีเฉพาะไฟล์ Excel/CSV
+  pages?: PdfPage[]; // มีเฉพาะไฟล์ PDF (แต่ละหน้าเลือกได้เหมือน Sheet)
+  sheets: SheetOption[];
+  budget: boolean; // ไฟล์งบประมาณ: ใช้เทียบกับผลจริงในเครื่อง ไม่ส่งให้ AI
+  ledger: boolean; // ไฟล์ Trial Balance/GL: สร้างงบการเงินในเครื่องก่อนวิเคราะห์
+  entity: string; // ชื่อบริษัท (งบการเงินรวม)
+  ownership: number; // % การถือหุ้นของบริษัทใหญ่
+  parent: boolean;
 }
 
+type SheetRows = (string | number | null)[][];
+
+// ขนาดคำขอสูงสุดของ server (MAX_UPLOAD_MB) ตรวจก่อนส่งเพื่อไม่ให้อัปโหลดแล้วถูกปฏิเสธ
+const MAX_UPLOAD_MB = Number(import.meta.env.VITE_MAX_UPLOAD_MB) || 20;
+const MAX_UPLOAD_BYTES = MAX_UPLOAD_MB * 1024 * 1024;
+
+// เริ่มอ่านจากเซลล์ A1 เสมอ เพื่อให้ลำดับแถว/คอลัมน์ตรงกับตำแหน่งเซลล์ใน Excel (ใช้ย้อนดูที่มาของตัวเลข)
+const sheetRows = (workbook: WorkBook, name: string): SheetRows => {
+  const sheet = workbook.Sheets[name];
+  const ref = sheet['!ref'];
+  const range = ref ? utils.encode_range({ s: { r: 0, c: 0 }, e: utils.decode_range(ref).e }) : undefined;
+  return utils.sheet_to_json<(string | number | null)[]>(sheet, { header: 1, raw: true, range });
+};
+
+// ใช้แม่แบบที่บันทึกไว้ทันทีถ้าหัวตารางตรงกัน
+const templateMapping = (rows: SheetRows): ColumnMapping | undefined => {
+  const mapping = suggestMapping(rows);
+  return mapping.template ? mapping : undefined;
+};
+
+// รายการบัญชีของ Sheet ตามการจัดคอลัมน์ (ถ้ามี)
+const sheetLineItems = (
+  rows: SheetRows,
+  sheet: SheetOption,
+  period: string,
+  file: string
+): LineItem[] => {
+  const source = { sheet: sheet.name, statement: sheet.statement, file };
+  return sheet.mapping ? applyColumnMapping(rows, sheet.mapping, period, source) : extractLineItems(rows, period, source);
+};
+
+const fileBaseName = (file: File) => file.name.replace(/\.[^.]+$/, '');
+
+const entityName = (pending: PendingFile) => pending.entity.trim() || fileBaseName(pending.file);
+
+// หัวข้อของไฟล์บริษัทในกลุ่ม ให้ AI รู้ว่า Sheet ต่อไปนี้เป็นของบริษัทใด
+const entityHeading = (pending: PendingFile) =>
+  `## บริษัท: ${entityName(pending)} (${pending.parent ? 'บริษัทใหญ่' : `ถือหุ้น ${pending.ownership}%`})`;
+
+const pageSheetName = (page: PdfPage) => `หน้า ${page.pageNumber}`;
+
+const findPage = (pending: PendingFile, name: string) =>
+  pending.pages?.find(page => pageSheetName(page) === name);
+
+const isPdfFile = (file: File) => file.name.toLowerCase().endsWith('.pdf') || file.type === 'application/pdf';
+
+const isSpreadsheetFile = (file: File) =>
+  file.name.endsWith('.xlsx') ||
+  file.name.endsWith('.xls') ||
+  file.name.endsWith('.csv') ||
+  file.type.includes('spreadsheet') ||
+  file.type.includes('excel') ||
+  file.type === 'text/csv';
+
+const readFile = (file: File, as: 'arrayBuffer' | 'dataURL') =>
+  new Promise<string | ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string | ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    if (as === 'arrayBuffer') reader.readAsArrayBuffer(file);
+    else reader.readAsDataURL(file);
+  });
+
 export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [statusText, setStatusText] = useState('');
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
+  const [extracting, setExtracting] = useState('');
+  const [preview, setPreview] = useState<string | null>(null); // `${fileIndex}:${sheetName}`
+  const [wizard, setWizard] = useState<string | null>(null); // `${fileIndex}:${sheetName}`
+  // ข้อมูลที่อ่านแล้วแต่ยังมีรายการที่ไม่อยู่ในผังบัญชี รอผู้ใช้ตรวจสอบ
+  const [review, setReview] = useState<LineItem[] | null>(null);
+  const [consolidation, setConsolidation] = useState(false);
+  const actualFiles = pendingFiles.filter(p => !p.budget);
+  // งบการเงินรวม: ไฟล์ผลจริงแต่ละไฟล์คือหนึ่งบริษัทในงวดเดียวกัน
+  const isGroup = consolidation && actualFiles.length > 1;
 
-  // Effect เพื่อจำลอง Progress Bar
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isProcessing && progress < 90) {
-      interval = setInterval(() => {
-        setProgress(prev => Math.min(prev + Math.floor(Math.random() * 10), 90));
-      }, 300);
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = '';
+    const oversized = selected.filter(file => file.size > MAX_UPLOAD_BYTES);
+    if (oversized.length > 0) {
+      alert(`ไฟล์มีขนาดเกิน ${MAX_UPLOAD_MB} MB: ${oversized.map(file => file.name).join(', ')}`);
     }
-    return () => clearInterval(interval);
-  }, [isProcessing, progress]);
+    const files = selected.filter(file => file.size <= MAX_UPLOAD_BYTES);
+    if (files.length === 0) return;
 
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    try {
+      const added: PendingFile[] = [];
+      for (const file of files) {
+        const pending: PendingFile = {
+          file, period: guessPeriodFromFileName(file.name), sheets: [], budget: /budget|งบประมาณ/i.test(file.name), ledger: false,
+          entity: fileBaseName(file), ownership: 100, parent: false,
+        };
+        if (isSpreadsheetFile(file)) {
+          // อ่าน Workbook ทันทีเพื่อให้เลือก Sheet ก่อนวิเคราะห์
+          const data = await readFile(file, 'arrayBuffer');
+          const workbook = read(data, { type: 'array', codepage: 65001 });
+          pending.workbook = workbook;
+          pending.sheets = workbook.SheetNames.map(name => ({
+            name,
+            statement: classifyStatement(name, sheetRows(workbook, name)),
+            included: true,
+            mapping: templateMapping(sheetRows(workbook, name)),
+          }));
+          // มีคอลัมน์เดบิต/เครดิต = TB หรือ GL
+          pending.ledger = workbook.SheetNames.some(name => findLedgerColumns(sheetRows(workbook, name)) !== null);
+        } else if (isPdfFile(file)) {
+          // แยกข้อความ/ตารางจาก PDF ในเครื่อง แล้วให้ผู้ใช้ตรวจตัวอย่างก่อนส่ง
+          const data = await readFile(file, 'arrayBuffer') as ArrayBuffer;
+          const pages = await extractPdfPages(data, (pageNumber, totalPages, ocr) =>
+            setExtracting(`กำลังอ่าน ${file.name} หน้า ${pageNumber}/${totalPages}${ocr ? ' (OCR)' : ''}`)
+          );
+          const hasTables = pages.some(page => tableRows(page).length > 0);
+          pending.pages = pages;
+          pending.sheets = pages.map(page => ({
+            name: pageSheetName(page),
+            statement: classifyStatement(pageSheetName(page), page.rows),
+            // เลือกเฉพาะหน้าที่มีตาราง (ถ้าไม่พบตารางเลย ใช้ทุกหน้า)
+            included: !hasTables || tableRows(page).length > 0,
+            mapping: templateMapping(page.rows),
+          }));
+        }
+        added.push(pending);
+      }
+      setPendingFiles(prev => [...prev, ...added]);
+    } catch (error) {
+      console.error("Error reading file:", error);
+      alert(error instanceof OcrUnavailableError ? error.message : "เกิดข้อผิดพลาดในการอ่านไฟล์");
+    } finally {
+      setExtracting('');
+    }
+  };
+
+  const updatePeriod = (index: number, period: string) => {
+    setPendingFiles(prev => prev.map((p, i) => (i === index ? { ...p, period } : p)));
+  };
+
+  const toggleBudget = (index: number) => {
+    setPendingFiles(prev => prev.map((p, i) => (i === index ? { ...p, budget: !p.budget } : p)));
+  };
+
+  const toggleLedger = (index: number) => {
+    setPendingFiles(prev => prev.map((p, i) => (i === index ? { ...p, ledger: !p.ledger } : p)));
+  };
+
+  const updateEntity = (index: number, change: Partial<Pick<PendingFile, 'entity' | 'ownership'>>) => {
+    setPendingFiles(prev => prev.map((p, i) => (i === index ? { ...p, ...change } : p)));
+  };
+
+  // บริษัทใหญ่มีได้บริษัทเดียว
+  const setParent = (index: number) => {
+    setPendingFiles(prev => prev.map((p, i) => ({ ...p, parent: i === index })));
+  };
+
+  const toggleConsolidation = () => {
+    // เริ่มด้วยไฟล์ผลจริงไฟล์แรกเป็นบริษัทใหญ่
+    if (!consolidation && !pendingFiles.some(p => p.parent && !p.budget)) {
+      setParent(pendingFiles.findIndex(p => !p.budget));
+    }
+    setConsolidation(!consolidation);
+  };
+
+  const groupEntities = (): GroupEntity[] => {
+    const parent = actualFiles.find(p => p.parent) ?? actualFiles[0];
+    return actualFiles.map(p => ({ name: entityName(p), ownership: p === parent ? 100 : p.ownership, parent: p === parent }));
+  };
+
+  const updateSheet = (fileIndex: number, sheetName: string, change: Partial<SheetOption>) => {
+    setPendingFiles(prev => prev.map((p, i) => (i !== fileIndex ? p : {
+      ...p,
+      sheets: p.sheets.map(sheet => (sheet.name === sheetName ? { ...sheet, ...change } : sheet)),
+    })));
+  };
 
+  const applyMapping = (fileIndex: number, sheetName: string, rows: SheetRows, mapping: ColumnMapping, saveTemplate: boolean) => {
+    if (saveTemplate) {
+      saveImportTemplate({ signature: headerSignature(rows[mapping.headerRow] ?? []), columns: mapping.columns, updatedAt: Date.now() });
+    }
+    updateSheet(fileIndex, sheetName, { mapping: { ...mapping, template: saveTemplate } });
+    setWizard(null);
+  };
+
+  const removeFile = (index: number) => {
+    setPendingFiles(prev => prev.filter((_, i) => i !== index));
+    setPreview(null);
+    setWizard(null);
+  };
+
+  // งบการเงินรวมตัดรายการระหว่างกันหลังจัดหมวดบัญชีแล้ว (ใช้หมวดส่วนของผู้ถือหุ้นหาส่วนได้เสียที่ไม่มีอำนาจควบคุม)
+  const submit = (input: AnalysisInput) => {
+    const group = isGroup ? consolidate(input.lineItems, groupEntities()) : undefined;
+    setReview(null);
     setIsProcessing(true);
-    setProgress(10);
+    setProgress(100);
+    setStatusText('เตรียมส่งข้อมูล...');
+    onFileUpload(group ? { ...input, lineItems: group.items, consolidation: group.result } : input);
+  };
+
+  // อ่านไฟล์ใหม่ด้วยกฎล่าสุด (รวมกฎที่ผู้ใช้เพิ่งบันทึก) งบที่สร้างจาก TB/GL จึงจัดบัญชีตามหมวดใหม่ทั้งแถวที่ส่งให้ AI และที่มาของตัวเลข
+  const handleReviewDone = () => {
+    setReview(null);
+    handleAnalyze(true);
+  };
+
+  const handleAnalyze = async (reviewed = false) => {
+    if (actualFiles.length === 0) return;
+    const names = actualFiles.map(entityName);
+    if (isGroup && new Set(names).size !== names.length) {
+      alert('ชื่อบริษัทในกลุ่มต้องไม่ซ้ำกัน');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(0);
     setStatusText('กำลังอ่านไฟล์...');
 
     try {
-      const isSpreadsheet = file.name.endsWith('.xlsx') || 
-                            file.name.endsWith('.xls') || 
-                            file.name.endsWith('.csv') ||
-                            file.type.includes('spreadsheet') ||
-                            file.type.includes('excel') ||
-                            file.type === 'text/csv';
-
-      setTimeout(() => { // Add slight delay for UX
-        if (isSpreadsheet) {
-          setStatusText('กำลังแปลงข้อมูล Excel/CSV...');
-          const reader = new FileReader();
-          reader.onload = (e) => {
-            const data = e.target?.result;
-            const workbook = read(data, { type: 'array', codepage: 65001 });
-            
-            const firstSheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[firstSheetName];
-            
-            const csv = utils.sheet_to_csv(worksheet);
-            const base64Data = window.btoa(unescape(encodeURIComponent(csv)));
-
-            setProgress(100);
-            setStatusText('เตรียมส่งข้อมูล...');
-            
-            // รอให้ Progress เต็ม 100 ก่อนส่ง
-            setTimeout(() => {
-                onFileUpload({ data: base64Data, mimeType: 'text/csv' });
-            }, 500);
-          };
-          reader.readAsArrayBuffer(file);
+      const files: UploadedFile[] = [];
+      const lineItems: LineItem[] = [];
+      const budgetItems: LineItem[] = [];
+      const sourceSheets: SourceSheet[] = [];
+      // อัปโหลดไฟล์ผลจริงไฟล์เดียว (หรือไฟล์ของแต่ละบริษัทในกลุ่ม) ไม่ต้องระบุงวด (ใช้หัวคอลัมน์ในไฟล์แทน)
+      const multiPeriod = actualFiles.length > 1 && !isGroup;
+
+      for (const [index, pending] of pendingFiles.entries()) {
+        const { file, period, workbook, pages, sheets } = pending;
+        // Progress ตามจำนวนไฟล์ที่อ่านแล้ว
+        setProgress(Math.round((index / pendingFiles.length) * 100));
+
+        if (pending.budget && (workbook || pages)) {
+          setStatusText(`กำลังอ่านงบประมาณ: ${file.name}`);
+          sheets.filter(sheet => sheet.included).forEach(sheet => {
+            const rows = workbook ? sheetRows(workbook, sheet.name) : findPage(pending, sheet.name)!.rows;
+            budgetItems.push(...sheetLineItems(rows, sheet, period.trim() || 'งบประมาณ', file.name));
+          });
+          continue;
+        }
+
+        const filePeriod = multiPeriod ? period.trim() || file.name : undefined;
+        const tag = (items: LineItem[]) => (isGroup ? items.map(item => ({ ...item, entity: entityName(pending) })) : items);
+        const heading = isGroup ? [entityHeading(pending)] : [];
+        if (pending.ledger && workbook) {
+          setStatusText(`กำลังสร้างงบการเงินจาก TB/GL: ${file.name}`);
+          const ledger = buildLedgerStatements(
+            sheets.filter(sheet => sheet.included).map(({ name }) => sheetRows(workbook, name)),
+            filePeriod || 'ปัจจุบัน',
+            file.name
+          );
+          if (!ledger || !ledger.balanced) {
+            setIsProcessing(false);
+            setProgress(0);
+            alert(!ledger
+              ? `${file.name}: ไม่พบคอลัมน์รหัส/ชื่อบัญชี เดบิต และเครดิต`
+              : `${file.name}: ยอดเดบิตรวม ${ledger.totalDebit.toLocaleString()} ไม่เท่ากับยอดเครดิตรวม ${ledger.totalCredit.toLocaleString()} (ต่างกัน ${Math.abs(ledger.totalDebit - ledger.totalCredit).toLocaleString()}) กรุณาตรวจสอบไฟล์`);
+            return;
+          }
+          // บัญชีที่ไม่มีหมวดไม่อยู่ทั้งในงบแสดงฐานะการเงินและกำไรสุทธิ (งบไม่สมดุล) ต้องจัดหมวดให้ครบหลังตรวจผังบัญชี
+          const unclassified = ledger.accounts.filter(a => !a.category);
+          if (reviewed && unclassified.length > 0) {
+            setIsProcessing(false);
+            setProgress(0);
+            alert(`${file.name}: กรุณาจัดหมวดบัญชีให้ครบก่อนวิเคราะห์ (${unclassified.map(a => a.code ?? a.name).join(', ')})`);
+            return;
+          }
+
+          // ส่งงบที่สร้างแล้วให้ AI แทน TB/GL ดิบ
+          const sections = ledger.statements.map(({ name, statement, rows, items }) => {
+            lineItems.push(...tag(items));
+            sourceSheets.push({ file: file.name, name, rows });
+            return `### Sheet: ${name} (${STATEMENT_LABELS[statement]})\n${utils.sheet_to_csv(utils.aoa_to_sheet(rows))}`;
+          });
+          const base64Data = window.btoa(unescape(encodeURIComponent([...heading, ...sections].join('\n\n'))));
+          files.push({ name: file.name, data: base64Data, mimeType: 'text/csv', period: filePeriod });
+          continue;
+        }
+
+        if (workbook || pages) {
+          setStatusText(`กำลังแปลงข้อมูล${pages ? 'จาก PDF' : ' Excel/CSV'}: ${file.name}`);
+          const sections: string[] = [...heading];
+
+          // แปลงทุก Sheet (หรือหน้า PDF) ที่เลือก โดยใช้ชื่อเป็นหัวข้อของแต่ละส่วน
+          // Sheet ที่จัดคอลัมน์แล้วส่งตารางที่จัดรูปแบบแล้ว (ที่มาของตัวเลขยังชี้ไปที่ Sheet เดิม)
+          sheets.filter(sheet => sheet.included).forEach(option => {
+            const { name, statement } = option;
+            const rows = workbook ? sheetRows(workbook, name) : findPage(pending, name)!.rows;
+            const items = sheetLineItems(rows, option, filePeriod || 'ปัจจุบัน', file.name);
+            const sheet = option.mapping
+              ? utils.aoa_to_sheet(normalizedTable(items))
+              : workbook ? workbook.Sheets[name] : utils.aoa_to_sheet(rows);
+            lineItems.push(...tag(items));
+            sourceSheets.push({ file: file.name, name, rows });
+            sections.push(`### Sheet: ${name} (${STATEMENT_LABELS[statement]})\n${utils.sheet_to_csv(sheet)}`);
+          });
 
+          const csv = sections.join('\n\n');
+          const base64Data = window.btoa(unescape(encodeURIComponent(csv)));
+          files.push({ name: file.name, data: base64Data, mimeType: 'text/csv', period: filePeriod });
         } else {
-          setStatusText('กำลังประมวลผล PDF...');
-          const reader = new FileReader();
-          reader.onload = (e) => {
-            const result = e.target?.result as string;
-            const base64Data = result.split(',')[1];
-            const mimeType = file.type || 'text/plain';
-
-            setProgress(100);
-            setStatusText('พร้อมวิเคราะห์...');
-            
-             setTimeout(() => {
-                onFileUpload({ data: base64Data, mimeType });
-            }, 500);
-          };
-          reader.readAsDataURL(file);
+          setStatusText(`กำลังประมวลผลไฟล์: ${file.name}`);
+          const result = await readFile(file, 'dataURL') as string;
+          const base64Data = result.split(',')[1];
+          files.push({ name: file.name, data: base64Data, mimeType: file.type || 'text/plain', period: filePeriod });
         }
-      }, 800);
+      }
+
+      const mapped = applyAccountMapping(lineItems);
+      const budget = budgetItems.length > 0 ? budgetItems : undefined;
+      // server รับคำขอรวมทุกไฟล์ได้ไม่เกิน MAX_UPLOAD_MB (ข้อมูลแบบ base64)
+      if (files.reduce((sum, f) => sum + f.data.length, 0) > MAX_UPLOAD_BYTES) {
+        setIsProcessing(false);
+        setProgress(0);
+        alert(`ข้อมูลที่ต้องส่งรวมกันเกิน ${MAX_UPLOAD_MB} MB กรุณาลดจำนวนไฟล์หรือ Sheet ที่เลือก`);
+        return;
+      }
+      if (!reviewed && findUnmappedItems(mapped).length > 0) {
+        setIsProcessing(false);
+        setProgress(0);
+        setReview(lineItems);
+        return;
+      }
+      submit({ files, lineItems: mapped, budgetItems: budget && applyAccountMapping(budget), sourceSheets });
 
     } catch (error) {
       console.error("Error processing file:", error);
@@ -99,43 +377,273 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload }) => {
             <FileSpreadsheet className="w-8 h-8 text-white" />
           </div>
           <h2 className="text-2xl font-bold mb-2">นำเข้าข้อมูลการเงิน</h2>
-          <p className="text-blue-100 opacity-90">รองรับไฟล์ Excel, CSV หรือ PDF งบการเงิน</p>
+          <p className="text-blue-100 opacity-90">รองรับไฟล์ Excel, CSV หรือ PDF งบการเงิน และงบทดลอง (TB) / บัญชีแยกประเภท (GL)</p>
         </div>
 
         {/* Upload Area */}
         <div className="p-8">
-          {!isProcessing ? (
-            <div className="relative group cursor-pointer">
-              <input
-                type="file"
-                accept=".csv,.xlsx,.xls,.pdf,.txt"
-                onChange={handleFileChange}
-                className="absolute inset-0 w-full h-full opacity-0 z-10 cursor-pointer"
-              />
-              <div className="border-2 border-dashed border-gray-300 rounded-xl p-10 text-center transition-all duration-300 group-hover:border-indigo-500 group-hover:bg-indigo-50/50">
-                <div className="flex justify-center mb-4 transition-transform duration-300 group-hover:-translate-y-2">
-                  <div className="bg-indigo-50 p-4 rounded-full group-hover:bg-indigo-100">
-                    <Upload className="w-8 h-8 text-indigo-500" />
+          {review ? (
+            <AccountMappingReview
+              unmapped={findUnmappedItems(applyAccountMapping(review))}
+              onConfirm={handleReviewDone}
+              onSkip={handleReviewDone}
+            />
+          ) : !isProcessing ? (
+            <>
+              <div className="relative group cursor-pointer">
+                <input
+                  type="file"
+                  multiple
+                  accept=".csv,.xlsx,.xls,.pdf,.txt"
+                  onChange={handleFileChange}
+                  className="absolute inset-0 w-full h-full opacity-0 z-10 cursor-pointer"
+                />
+                <div className="border-2 border-dashed border-gray-300 rounded-xl p-10 text-center transition-all duration-300 group-hover:border-indigo-500 group-hover:bg-indigo-50/50">
+                  <div className="flex justify-center mb-4 transition-transform duration-300 group-hover:-translate-y-2">
+                    <div className="bg-indigo-50 p-4 rounded-full group-hover:bg-indigo-100">
+                      <Upload className="w-8 h-8 text-indigo-500" />
+                    </div>
                   </div>
-                </div>
-                <h3 className="text-lg font-semibold text-gray-700 mb-1">
-                  คลิกเพื่อเลือกไฟล์ หรือลากไฟล์มาวาง
-                </h3>
-                <p className="text-gray-400 text-sm mb-6">ขนาดไฟล์ไม่เกิน 10MB</p>
+                  <h3 className="text-lg font-semibold text-gray-700 mb-1">
+                    คลิกเพื่อเลือกไฟล์ หรือลากไฟล์มาวาง
+                  </h3>
+                  <p className="text-gray-400 text-sm mb-6">ขนาดไฟล์รวมไม่เกิน {MAX_UPLOAD_MB}MB • เลือกหลายไฟล์เพื่อเปรียบเทียบหลายงวด</p>
                 
-                <div className="flex justify-center gap-3">
-                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                    .XLSX
-                  </span>
-                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                    .CSV
-                  </span>
-                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                    .PDF
-                  </span>
+                  <div className="flex justify-center gap-3">
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      .XLSX
+                    </span>
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      .CSV
+                    </span>
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                      .PDF
+                    </span>
+                  </div>
                 </div>
               </div>
-            </div>
+
+              {extracting && (
+                <div className="mt-4 flex items-center justify-center text-sm text-indigo-600">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {extracting}
+                </div>
+              )}
+
+              {/* Selected Files & Period Labels */}
+              {pendingFiles.length > 0 && (
+                <div className="mt-6 space-y-3">
+                  {pendingFiles.map((pending, idx) => (
+                    <div key={`${pending.file.name}-${idx}`}>
+                      <div className="flex items-center gap-3 p-3 bg-slate-50 rounded-lg border border-slate-200">
+                        {pending.pages ? (
+                          <FileText className="w-5 h-5 text-red-500 flex-shrink-0" />
+                        ) : (
+                          <FileSpreadsheet className="w-5 h-5 text-indigo-500 flex-shrink-0" />
+                        )}
+                        <span className="flex-grow text-sm text-gray-700 truncate">{pending.file.name}</span>
+                        {(pending.workbook || pending.pages) && (
+                          <button
+                            onClick={() => toggleBudget(idx)}
+                            title="ใช้ไฟล์นี้เป็นงบประมาณ เพื่อเทียบกับผลจริง"
+                            className={`flex items-center px-2 py-1 text-xs font-medium rounded-md border ${pending.budget ? 'bg-amber-50 text-amber-700 border-amber-200' : 'text-slate-400 border-slate-200 hover:text-slate-600'}`}
+                          >
+                            <Target className="w-3.5 h-3.5 mr-1" /> งบประมาณ
+                          </button>
+                        )}
+                        {pending.workbook && !pending.budget && (
+                          <button
+                            onClick={() => toggleLedger(idx)}
+                            title="ไฟล์นี้เป็น Trial Balance หรือ GL (รหัสบัญชี ชื่อบัญชี เดบิต เครดิต) ระบบจะสร้างงบการเงินให้"
+                            className={`flex items-center px-2 py-1 text-xs font-medium rounded-md border ${pending.ledger ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'text-slate-400 border-slate-200 hover:text-slate-600'}`}
+                          >
+                            <BookOpen className="w-3.5 h-3.5 mr-1" /> TB/GL
+                          </button>
+                        )}
+                        {isGroup && !pending.budget ? (
+                          <>
+                            <input
+                              type="text"
+                              value={pending.entity}
+                              onChange={(e) => updateEntity(idx, { entity: e.target.value })}
+                              placeholder="ชื่อบริษัท"
+                              className="w-32 px-2 py-1 text-sm border border-slate-300 rounded-md focus:border-indigo-500 outline-none"
+                            />
+                            {pending.parent ? (
+                              <span className="px-2 py-1 text-xs font-medium rounded-md bg-indigo-50 text-indigo-700 border border-indigo-200">บริษัทใหญ่</span>
+                            ) : (
+                              <>
+                                <button
+                                  onClick={() => setParent(idx)}
+                                  title="ตั้งเป็นบริษัทใหญ่"
+                                  className="px-2 py-1 text-xs text-slate-400 border border-slate-200 rounded-md hover:text-slate-600"
+                                >
+                                  บริษัทย่อย
+                                </button>
+                                <label className="flex items-center text-xs text-slate-500" title="% การถือหุ้นของบริษัทใหญ่">
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    step="any"
+                                    value={pending.ownership}
+                                    onChange={(e) => updateEntity(idx, { ownership: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                                    className="w-16 px-2 py-1 mr-1 text-sm border border-slate-300 rounded-md focus:border-indigo-500 outline-none"
+                                  />
+                                  %
+                                </label>
+                              </>
+                            )}
+                          </>
+                        ) : (pendingFiles.length > 1 || pending.budget) && (
+                          <input
+                            type="text"
+                            value={pending.period}
+                            onChange={(e) => updatePeriod(idx, e.target.value)}
+                            placeholder={pending.budget ? 'งวดงบประมาณ' : 'งวด (เช่น FY2025)'}
+                            className="w-36 px-2 py-1 text-sm border border-slate-300 rounded-md focus:border-indigo-500 outline-none"
+                          />
+                        )}
+                        <button onClick={() => removeFile(idx)} className="p-1 text-slate-400 hover:text-red-500">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {/* Sheet Picker (PDF: เลือกหน้า พร้อมดูตัวอย่างตารางที่แยกได้) */}
+                      {pending.sheets.length > 0 && (
+                        <div className="ml-8 mt-2 space-y-1.5">
+                          {pending.sheets.map(sheet => {
+                            const page = findPage(pending, sheet.name);
+                            const previewKey = `${idx}:${sheet.name}`;
+                            const rows = () => (pending.workbook ? sheetRows(pending.workbook, sheet.name) : page?.rows ?? []);
+                            // TB/GL อ่านคอลัมน์เดบิต/เครดิตเอง ไม่ใช้การจัดคอลัมน์
+                            const mappable = sheet.included && !(pending.ledger && !pending.budget);
+                            return (
+                              <div key={sheet.name}>
+                                <label className="flex items-center gap-2 text-sm text-gray-600">
+                                  <input
+                                    type="checkbox"
+                                    checked={sheet.included}
+                                    onChange={(e) => updateSheet(idx, sheet.name, { included: e.target.checked })}
+                                    className="accent-indigo-600"
+                                  />
+                                  <span className={`flex-grow truncate ${sheet.included ? '' : 'line-through text-gray-400'}`}>{sheet.name}</span>
+                                  <select
+                                    value={sheet.statement}
+                                    onChange={(e) => updateSheet(idx, sheet.name, { statement: e.target.value as StatementType })}
+                                    disabled={!sheet.included || (pending.ledger && !pending.budget)}
+                                    className="text-xs border border-slate-200 rounded-md px-1.5 py-0.5 bg-white outline-none"
+                                  >
+                                    {(Object.keys(STATEMENT_LABELS) as StatementType[]).map(type => (
+                                      <option key={type} value={type}>{STATEMENT_LABELS[type]}</option>
+                                    ))}
+                                  </select>
+                                  {mappable && sheet.mapping && (
+                                    <span
+                                      title={sheet.mapping.template ? 'ใช้การจัดคอลัมน์จากแม่แบบที่บันทึกไว้' : 'ใช้การจัดคอลัมน์ที่กำหนดเอง'}
+                                      className="flex items-center px-1.5 py-0.5 text-[10px] font-semibold rounded bg-indigo-50 text-indigo-600 border border-indigo-100"
+                                    >
+                                      {sheet.mapping.template ? 'ใช้แม่แบบ' : 'จัดคอลัมน์แล้ว'}
+                                      <button
+                                        type="button"
+                                        onClick={(e) => { e.preventDefault(); updateSheet(idx, sheet.name, { mapping: undefined }); }}
+                                        title="กลับไปอ่านหัวตารางอัตโนมัติ"
+                                        className="ml-1 text-indigo-400 hover:text-red-500"
+                                      >
+                                        <X className="w-3 h-3" />
+                                      </button>
+                                    </span>
+                                  )}
+                                  {mappable && (
+                                    <button
+                                      type="button"
+                                      onClick={(e) => { e.preventDefault(); setWizard(wizard === previewKey ? null : previewKey); }}
+                                      title="จัดคอลัมน์ (ไฟล์ที่หัวตารางไม่มาตรฐาน)"
+                                      className={`p-1 ${wizard === previewKey ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}
+                                    >
+                                      <Wand2 className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                  {page && (
+                                    <button
+                                      type="button"
+                                      onClick={(e) => { e.preventDefault(); setPreview(preview === previewKey ? null : previewKey); }}
+                                      title="ดูตัวอย่างตาราง"
+                                      className={`p-1 ${preview === previewKey ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}
+                                    >
+                                      <Eye className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                </label>
+                                {mappable && wizard === previewKey && (
+                                  <ColumnMappingWizard
+                                    key={previewKey}
+                                    sheetName={sheet.name}
+                                    rows={rows()}
+                                    mapping={sheet.mapping ?? suggestMapping(rows())}
+                                    period={pending.period.trim() || (pending.budget ? 'งบประมาณ' : 'ปัจจุบัน')}
+                                    onApply={(mapping, saveTemplate) => applyMapping(idx, sheet.name, rows(), mapping, saveTemplate)}
+                                    onCancel={() => setWizard(null)}
+                                  />
+                                )}
+                                {page && preview === previewKey && (
+                                  <div className="mt-1 mb-2 border border-slate-200 rounded-md overflow-x-auto">
+                                    {page.ocr && (
+                                      <div className="flex items-center px-2 py-1 text-xs text-amber-700 bg-amber-50 border-b border-amber-100">
+                                        <ScanText className="w-3 h-3 mr-1" />
+                                        หน้านี้อ่านด้วย OCR กรุณาตรวจตัวเลขก่อนวิเคราะห์
+                                      </div>
+                                    )}
+                                    {tableRows(page).length > 0 ? (
+                                      <table className="w-full text-xs">
+                                        <tbody className="divide-y divide-slate-100">
+                                          {tableRows(page).slice(0, 10).map((row, rowIdx) => (
+                                            <tr key={rowIdx}>
+                                              {row.map((cell, cellIdx) => (
+                                                <td key={cellIdx} className={`px-2 py-1 whitespace-nowrap ${cellIdx > 0 ? 'text-right font-mono' : ''}`}>{cell}</td>
+                                              ))}
+                                            </tr>
+                                          ))}
+                                        </tbody>
+                                      </table>
+                                    ) : (
+                                      <p className="px-2 py-1.5 text-xs text-slate-400">ไม่พบตารางตัวเลขในหน้านี้ (จะส่งเป็นข้อความ)</p>
+                                    )}
+                                    {tableRows(page).length > 10 && (
+                                      <p className="px-2 py-1 text-xs text-slate-400 border-t border-slate-100">และอีก {tableRows(page).length - 10} แถว</p>
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  {actualFiles.length > 1 && (
+                    <button
+                      onClick={toggleConsolidation}
+                      title="ไฟล์ผลจริงแต่ละไฟล์เป็นของบริษัทหนึ่งในกลุ่ม (งวดเดียวกัน)"
+                      className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-lg border ${isGroup ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'text-slate-500 border-slate-200 hover:text-slate-700'}`}
+                    >
+                      <Building2 className="w-3.5 h-3.5 mr-1.5" /> วิเคราะห์เป็นงบการเงินรวมของกลุ่มบริษัท
+                    </button>
+                  )}
+                  {isGroup && <IntercompanySettings />}
+                  <button
+                    onClick={() => handleAnalyze()}
+                    disabled={actualFiles.length === 0}
+                    className="w-full flex items-center justify-center bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-all shadow-lg shadow-indigo-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Play className="w-4 h-4 mr-2" />
+                    {actualFiles.length === 0
+                      ? 'กรุณาเพิ่มไฟล์ผลจริงอย่างน้อย 1 ไฟล์'
+                      : `เริ่มวิเคราะห์ ${isGroup ? `งบการเงินรวม (${actualFiles.length} บริษัท)` : actualFiles.length > 1 ? `(${actualFiles.length} งวด)` : ''}${actualFiles.length < pendingFiles.length ? ' เทียบงบประมาณ' : ''}`}
+                  </button>
+                </div>
+              )}
+            </>
           ) : (
             <div className="py-12 px-4 text-center">
                <div className="mb-4 flex justify-center">
@@ -165,8 +673,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload }) => {
              <div>
                 <h4 className="text-sm font-semibold text-yellow-800">คำแนะนำ</h4>
                 <p className="text-xs text-yellow-700 mt-1">
-                  เพื่อผลลัพธ์ที่แม่นยำที่สุด หากเป็นไฟล์ Excel ควรมีหัวตารางที่ชัดเจน (เช่น ปี 2566, ปี 2567) 
-                  ระบบจะเปรียบเทียบข้อมูลระหว่างปีให้อัตโนมัติ
+                  เพื่อผลลัพธ์ที่แม่นยำที่สุด หากเป็นไฟล์ Excel ควรมีหัวตารางที่ชัดเจน (เช่น ปี 2566, ปี 2567)
+                  หรืออัปโหลดไฟล์แยกงวดพร้อมระบุชื่องวด ระบบจะคำนวณผลต่างระหว่างงวดให้อัตโนมัติ
+                  ถ้าหัวตารางไม่มาตรฐาน (หัวตารางหลายแถว มีบรรทัดรวม หรือมีคอลัมน์แผนก) ใช้ปุ่มจัดคอลัมน์ของแต่ละ Sheet และบันทึกเป็นแม่แบบสำหรับไฟล์ครั้งถัดไป
+                  กลุ่มบริษัทอัปโหลดไฟล์ของแต่ละบริษัท แล้วเลือกวิเคราะห์เป็นงบการเงินรวม ระบุบริษัทใหญ่ สัดส่วนการถือหุ้น และคู่บัญชีระหว่างกันที่ต้องตัดออก
+                  ไฟล์ TB/GL ที่มีคอลัมน์รหัสบัญชี ชื่อบัญชี เดบิต เครดิต (และแผนกถ้ามี) ระบบจะสร้างงบแสดงฐานะการเงินและงบกำไรขาดทุนให้
                 </p>
              </div>
           </div>
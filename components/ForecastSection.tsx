@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { ForecastMethod, ForecastMetric, ForecastResult } from '../types';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { TrendingUp, Info } from 'lucide-react';
+import {
+  FORECAST_METHOD_LABELS, FORECAST_METRIC_LABELS, TOTAL_SERIES, applicableMethod, projectSeries
+} from '../services/forecastEngine';
+
+const formatAmount = (value: number) => value.toLocaleString('th-TH', { maximumFractionDigits: 0 });
+
+const selectClass = 'bg-slate-100 text-xs text-slate-600 rounded-lg px-2 py-1.5 outline-none cursor-pointer font-medium';
+
+/**
+ * ค่าคาดการณ์พร้อมช่วงความเชื่อมั่น 95% เลือกหน่วยงาน ตัวเลข และวิธีคาดการณ์ได้
+ * การเปลี่ยนวิธีเป็นการดูเปรียบเทียบเท่านั้น รายงานใช้วิธีที่ระบบเลือกตอนวิเคราะห์
+ */
+export const ForecastSection: React.FC<{ forecast: ForecastResult; department?: string }> = ({ forecast, department = 'All' }) => {
+  const departments = Array.from(new Set(forecast.series.map(s => s.department)));
+  const [selected, setSelected] = useState(departments.includes(department) ? department : TOTAL_SERIES);
+  const [metric, setMetric] = useState<ForecastMetric>('revenue');
+  const [method, setMethod] = useState<ForecastMethod>(forecast.method);
+
+  const series = forecast.series.find(s => s.department === selected && s.metric === metric) ?? forecast.series[0];
+  const points = useMemo(
+    () => (method === forecast.method
+      ? series.forecast
+      : projectSeries(series.history, series.metric, method, forecast.seasonLength, forecast.periods)),
+    [series, method, forecast]
+  );
+  const applied = applicableMethod(method, series.history.length, forecast.seasonLength);
+
+  // งวดล่าสุดเป็นจุดเริ่มของเส้นคาดการณ์ เพื่อให้เส้นต่อกัน
+  const chartData = useMemo(() => {
+    const last = series.history[series.history.length - 1];
+    return [
+      ...series.history.map(h => ({ name: h.period, actual: h.value })),
+      ...points.map(p => ({ name: p.period, forecast: p.value, band: [p.lower, p.upper] })),
+    ].map(d => (d.name === last.period ? { ...d, forecast: last.value, band: [last.value, last.value] } : d));
+  }, [series, points]);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <TrendingUp className="w-5 h-5 mr-2 text-indigo-600" />
+            คาดการณ์ {forecast.periods[0]} – {forecast.periods[forecast.periods.length - 1]}
+          </h2>
+          <p className="text-xs text-slate-400 mt-1">
+            รายงานใช้วิธี{FORECAST_METHOD_LABELS[forecast.method]} • พื้นที่แรเงาคือช่วงความเชื่อมั่น 95%
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {departments.length > 1 && (
+            <select value={selected} onChange={(e) => setSelected(e.target.value)} className={selectClass}>
+              {departments.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          )}
+          <select value={metric} onChange={(e) => setMetric(e.target.value as ForecastMetric)} className={selectClass}>
+            {(Object.keys(FORECAST_METRIC_LABELS) as ForecastMetric[]).map(m => (
+              <option key={m} value={m}>{FORECAST_METRIC_LABELS[m]}</option>
+            ))}
+          </select>
+          <select value={method} onChange={(e) => setMethod(e.target.value as ForecastMethod)} className={selectClass}>
+            {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(m => (
+              <option key={m} value={m}>{FORECAST_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={chartData} margin={{ top: 10, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 11}} />
+              <YAxis axisLine={false} tickLine={false} tickFormatter={(val) => `${val/1000}k`} tick={{fill: '#64748b', fontSize: 12}} />
+              <Tooltip
+                formatter={(val: number | number[]) => Array.isArray(val)
+                  ? `${formatAmount(val[0])} – ${formatAmount(val[1])}`
+                  : formatAmount(val)}
+                contentStyle={{borderRadius:'8px', border:'none', boxShadow:'0 10px 15px -3px rgba(0, 0, 0, 0.1)'}}
+              />
+              <Legend verticalAlign="top" wrapperStyle={{paddingBottom: '20px'}} />
+              <Area dataKey="band" name="ช่วงความเชื่อมั่น 95%" fill="#c7d2fe" stroke="none" fillOpacity={0.6} />
+              <Line dataKey="actual" name="ข้อมูลจริง" stroke="#6366f1" strokeWidth={3} dot={{r: 4}} />
+              <Line dataKey="forecast" name="คาดการณ์" stroke="#6366f1" strokeWidth={2} strokeDasharray="6 4" dot={{r: 3}} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="space-y-3">
+          {points.map(p => (
+            <div key={p.period} className="p-4 rounded-xl bg-slate-50 border border-slate-100">
+              <div className="text-xs text-slate-500 font-semibold uppercase tracking-wide">{FORECAST_METRIC_LABELS[metric]} {p.period}</div>
+              <div className="text-xl font-bold text-slate-800 mt-1">{formatAmount(p.value)}</div>
+              <div className="text-[11px] text-slate-400 mt-0.5">ช่วง {formatAmount(p.lower)} – {formatAmount(p.upper)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {(applied !== method || forecast.notes.length > 0) && (
+        <div className="mt-4 p-3 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-700 space-y-1">
+          {applied !== method && (
+            <p className="flex items-start"><Info className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />ข้อมูลไม่พอสำหรับวิธีตามฤดูกาล จึงแสดงแนวโน้มเชิงเส้นแทน</p>
+          )}
+          {forecast.notes.map(note => (
+            <p key={note} className="flex items-start"><Info className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />{note}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
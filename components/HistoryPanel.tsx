@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { History, FolderOpen, Pencil, Trash2, GitCompare, X, Check } from 'lucide-react';
+import { SavedAnalysis } from '../types';
+import { deleteAnalysis, listAnalyses, renameAnalysis } from '../services/historyStore';
+
+interface HistoryPanelProps {
+  onOpen: (record: SavedAnalysis) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('th-TH', { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatNumber = (value: number | null | undefined) =>
+  value === null || value === undefined ? 'N/A' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const sumDepartments = (record: SavedAnalysis, field: 'revenue' | 'expense' | 'profit') =>
+  (record.result.departments || []).reduce((sum, d) => sum + (d[field] || 0), 0);
+
+// --- ตารางเปรียบเทียบผลการวิเคราะห์ 2 ครั้ง ---
+
+const HistoryComparison: React.FC<{ runs: [SavedAnalysis, SavedAnalysis]; onClose: () => void }> = ({ runs, onClose }) => {
+  const [a, b] = runs;
+  const ratioKeys = Array.from(new Set([...a.result.ratios, ...b.result.ratios].map(r => r.key)));
+  const rows = [
+    ...ratioKeys.map(key => {
+      const ra = a.result.ratios.find(r => r.key === key);
+      const rb = b.result.ratios.find(r => r.key === key);
+      return { label: `${(ra ?? rb)!.name} (${(ra ?? rb)!.unit})`, va: ra?.value ?? null, vb: rb?.value ?? null };
+    }),
+    ...(['revenue', 'expense', 'profit'] as const).map(field => ({
+      label: { revenue: 'รายรับรวมทุกหน่วยงาน', expense: 'รายจ่ายรวมทุกหน่วยงาน', profit: 'กำไรรวมทุกหน่วยงาน' }[field],
+      va: sumDepartments(a, field),
+      vb: sumDepartments(b, field),
+    })),
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[85vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <GitCompare className="w-5 h-5 mr-2 text-indigo-600" />
+            เปรียบเทียบผลการวิเคราะห์
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 text-xs uppercase font-semibold tracking-wider">
+            <tr>
+              <th className="px-6 py-3">รายการ</th>
+              <th className="px-4 py-3 text-right">{a.name}<div className="font-normal normal-case">{formatDate(a.createdAt)}</div></th>
+              <th className="px-4 py-3 text-right">{b.name}<div className="font-normal normal-case">{formatDate(b.createdAt)}</div></th>
+              <th className="px-6 py-3 text-right">ผลต่าง</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {rows.map(row => {
+              const diff = row.va !== null && row.vb !== null ? row.vb - row.va : null;
+              return (
+                <tr key={row.label}>
+                  <td className="px-6 py-3 font-medium text-slate-700">{row.label}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-600">{formatNumber(row.va)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-600">{formatNumber(row.vb)}</td>
+                  <td className={`px-6 py-3 text-right font-mono ${diff === null || diff === 0 ? 'text-slate-400' : diff > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {diff === null ? '-' : `${diff > 0 ? '+' : ''}${formatNumber(diff)}`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// --- Main History Panel ---
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ onOpen }) => {
+  const [records, setRecords] = useState<SavedAnalysis[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+
+  const refresh = () => {
+    listAnalyses()
+      .then(setRecords)
+      .catch(error => console.error("History Error:", error));
+  };
+
+  useEffect(refresh, []);
+
+  const handleRename = async (record: SavedAnalysis) => {
+    if (editName.trim()) await renameAnalysis(record, editName.trim());
+    setEditingId(null);
+    refresh();
+  };
+
+  const handleDelete = async (record: SavedAnalysis) => {
+    if (!confirm(`ลบผลการวิเคราะห์ "${record.name}" หรือไม่?`)) return;
+    await deleteAnalysis(record.id);
+    setSelected(prev => prev.filter(id => id !== record.id));
+    refresh();
+  };
+
+  // เลือกได้สูงสุด 2 รายการสำหรับเปรียบเทียบ
+  const toggleSelect = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2)));
+  };
+
+  if (records.length === 0) return null;
+
+  const compareRuns = selected
+    .map(id => records.find(r => r.id === id))
+    .filter((r): r is SavedAnalysis => !!r);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-8 bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+      <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+        <h3 className="font-bold text-slate-800 flex items-center">
+          <History className="w-5 h-5 mr-2 text-indigo-600" />
+          ประวัติการวิเคราะห์
+        </h3>
+        <button
+          onClick={() => setComparing(true)}
+          disabled={compareRuns.length !== 2}
+          className="flex items-center text-sm font-medium px-3 py-1.5 rounded-lg text-indigo-600 hover:bg-indigo-50 disabled:text-slate-300 disabled:hover:bg-transparent"
+        >
+          <GitCompare className="w-4 h-4 mr-1.5" />
+          เปรียบเทียบ ({compareRuns.length}/2)
+        </button>
+      </div>
+
+      <ul className="divide-y divide-slate-50 max-h-72 overflow-y-auto">
+        {records.map(record => (
+          <li key={record.id} className="flex items-center gap-3 px-6 py-3 hover:bg-slate-50/80">
+            <input
+              type="checkbox"
+              checked={selected.includes(record.id)}
+              onChange={() => toggleSelect(record.id)}
+              className="accent-indigo-600"
+            />
+            <div className="flex-grow min-w-0">
+              {editingId === record.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    autoFocus
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRename(record)}
+                    className="flex-grow px-2 py-1 text-sm border border-slate-300 rounded-md outline-none focus:border-indigo-500"
+                  />
+                  <button onClick={() => handleRename(record)} className="p-1 text-emerald-600">
+                    <Check className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <div className="text-sm font-medium text-slate-800 truncate">{record.name}</div>
+              )}
+              <div className="text-xs text-slate-400">{formatDate(record.createdAt)}</div>
+            </div>
+            <button onClick={() => onOpen(record)} title="เปิด" className="p-1.5 text-slate-400 hover:text-indigo-600">
+              <FolderOpen className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => { setEditingId(record.id); setEditName(record.name); }}
+              title="เปลี่ยนชื่อ"
+              className="p-1.5 text-slate-400 hover:text-indigo-600"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDelete(record)} title="ลบ" className="p-1.5 text-slate-400 hover:text-red-500">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {comparing && compareRuns.length === 2 && (
+        <HistoryComparison runs={[compareRuns[0], compareRuns[1]]} onClose={() => setComparing(false)} />
+      )}
+    </div>
+  );
+};
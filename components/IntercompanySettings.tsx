@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { IntercompanyPair } from '../types';
+import { ArrowLeftRight, Plus, X } from 'lucide-react';
+import { loadIntercompanyPairs, saveIntercompanyPairs } from '../services/consolidationEngine';
+
+const inputClass = 'px-2 py-1 text-sm border border-slate-300 rounded-md focus:border-indigo-500 outline-none';
+
+/**
+ * คู่บัญชีระหว่างกันที่ตัดออกในงบการเงินรวม (บันทึกในเครื่อง ใช้กับการรวมงบครั้งถัดไปด้วย)
+ * แต่ละคู่: ด้าน A และด้าน B เทียบด้วยข้อความในชื่อบัญชีหรือรหัสบัญชีขึ้นต้น
+ */
+export const IntercompanySettings: React.FC = () => {
+  const [pairs, setPairs] = useState<IntercompanyPair[]>(loadIntercompanyPairs);
+
+  const update = (next: IntercompanyPair[]) => {
+    setPairs(next);
+    saveIntercompanyPairs(next);
+  };
+
+  const updatePair = (id: string, change: Partial<IntercompanyPair>) =>
+    update(pairs.map(pair => (pair.id === id ? { ...pair, ...change } : pair)));
+
+  const addPair = () =>
+    update([...pairs, { id: crypto.randomUUID(), name: 'คู่บัญชีใหม่', matchType: 'name', sideA: '', sideB: '' }]);
+
+  return (
+    <div className="p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-2">
+      <h4 className="text-sm font-semibold text-slate-700 flex items-center">
+        <ArrowLeftRight className="w-4 h-4 mr-1.5 text-indigo-500" /> คู่บัญชีระหว่างกันที่ตัดออก
+      </h4>
+      {pairs.map(pair => (
+        <div key={pair.id} className="grid grid-cols-[1fr_auto_1fr_1fr_auto] gap-2 items-center">
+          <input
+            value={pair.name}
+            onChange={(e) => updatePair(pair.id, { name: e.target.value })}
+            placeholder="ชื่อคู่บัญชี"
+            className={inputClass}
+          />
+          <select
+            value={pair.matchType}
+            onChange={(e) => updatePair(pair.id, { matchType: e.target.value as IntercompanyPair['matchType'] })}
+            className="text-xs border border-slate-300 rounded-md px-1.5 py-1 bg-white outline-none"
+          >
+            <option value="name">ชื่อบัญชีมี</option>
+            <option value="code">รหัสขึ้นต้นด้วย</option>
+          </select>
+          <input
+            value={pair.sideA}
+            onChange={(e) => updatePair(pair.id, { sideA: e.target.value })}
+            placeholder="ด้าน A เช่น ลูกหนี้บริษัทที่เกี่ยวข้องกัน"
+            className={inputClass}
+          />
+          <input
+            value={pair.sideB}
+            onChange={(e) => updatePair(pair.id, { sideB: e.target.value })}
+            placeholder="ด้าน B เช่น เจ้าหนี้บริษัทที่เกี่ยวข้องกัน"
+            className={inputClass}
+          />
+          <button onClick={() => update(pairs.filter(p => p.id !== pair.id))} className="p-1 text-slate-400 hover:text-red-500">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button onClick={addPair} className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800">
+        <Plus className="w-3.5 h-3.5 mr-1" /> เพิ่มคู่บัญชี
+      </button>
+      <p className="text-xs text-slate-400">
+        ระบบตัดยอดที่ตรงกันของด้าน A และด้าน B ที่อยู่คนละบริษัทในกลุ่ม และตัดเงินลงทุนในบริษัทย่อยกับส่วนของผู้ถือหุ้นของบริษัทย่อยให้อัตโนมัติ
+      </p>
+    </div>
+  );
+};
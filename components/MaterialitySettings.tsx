@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { MaterialityRule, MaterialitySettings as Settings } from '../types';
+import { Scale, Plus, X } from 'lucide-react';
+import { describeRule } from '../services/materiality';
+
+interface MaterialitySettingsProps {
+  settings: Settings;
+  departments: string[]; // หน่วยงานที่พบในผลวิเคราะห์ ใช้เลือกเพิ่มเกณฑ์เฉพาะหน่วยงาน
+  onChange: (settings: Settings) => void;
+}
+
+const RULE_FIELDS: { key: keyof MaterialityRule; label: string; unit: string }[] = [
+  { key: 'minAmount', label: 'ผลต่างขั้นต่ำ', unit: 'บาท' },
+  { key: 'minPercent', label: 'เปลี่ยนแปลงขั้นต่ำ', unit: '%' },
+  { key: 'percentOfRevenue', label: 'ของรายได้รวม', unit: '%' },
+  { key: 'percentOfAssets', label: 'ของสินทรัพย์รวม', unit: '%' },
+];
+
+// ช่องว่าง = ไม่ใช้เกณฑ์นั้น
+const RuleFields: React.FC<{ rule: MaterialityRule; onChange: (rule: MaterialityRule) => void }> = ({ rule, onChange }) => {
+  const handleChange = (key: keyof MaterialityRule, raw: string) => {
+    const { [key]: _previous, ...rest } = rule;
+    const value = Number(raw);
+    onChange(raw.trim() === '' || !Number.isFinite(value) ? rest : { ...rest, [key]: value });
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {RULE_FIELDS.map(field => (
+        <label key={field.key} className="text-xs text-slate-500">
+          {field.label} ({field.unit})
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={rule[field.key] ?? ''}
+            onChange={(e) => handleChange(field.key, e.target.value)}
+            placeholder="ไม่ใช้"
+            className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * ตั้งเกณฑ์ความมีสาระสำคัญของรายการผลต่าง: เกณฑ์ทั่วไป เกณฑ์เฉพาะหน่วยงาน และจำนวนรายการสูงสุด
+ */
+export const MaterialitySettings: React.FC<MaterialitySettingsProps> = ({ settings, departments, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const available = departments.filter(d => !(d in settings.departments));
+
+  const setDepartmentRule = (dept: string, rule: MaterialityRule | undefined) => {
+    const { [dept]: _previous, ...rest } = settings.departments;
+    onChange({ ...settings, departments: rule ? { ...rest, [dept]: rule } : rest });
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={describeRule(settings.default)}
+        className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-lg border ${isOpen ? 'bg-slate-800 text-white border-slate-800' : 'text-slate-600 border-slate-200 bg-white hover:bg-slate-50'}`}
+      >
+        <Scale className="w-3.5 h-3.5 mr-1.5" /> เกณฑ์ความมีสาระสำคัญ
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-2 mx-6 z-20 bg-white border border-slate-200 rounded-xl shadow-xl p-5 space-y-5 animate-fade-in">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-slate-700">เกณฑ์ทั่วไป</h4>
+              <label className="text-xs text-slate-500 flex items-center gap-2">
+                แสดงสูงสุด
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.maxItems}
+                  onChange={(e) => onChange({ ...settings, maxItems: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-16 px-2 py-1 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                รายการ
+              </label>
+            </div>
+            <RuleFields rule={settings.default} onChange={(rule) => onChange({ ...settings, default: rule })} />
+          </div>
+
+          {Object.entries(settings.departments).map(([dept, rule]) => (
+            <div key={dept} className="pt-4 border-t border-slate-100">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-slate-700">หน่วยงาน {dept}</h4>
+                <button onClick={() => setDepartmentRule(dept, undefined)} className="text-slate-400 hover:text-red-500">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <RuleFields rule={rule} onChange={(next) => setDepartmentRule(dept, next)} />
+            </div>
+          ))}
+
+          {available.length > 0 && (
+            <div className="pt-4 border-t border-slate-100 flex items-center gap-2 text-xs text-slate-500">
+              <Plus className="w-3.5 h-3.5" /> เพิ่มเกณฑ์เฉพาะหน่วยงาน
+              <select
+                value=""
+                onChange={(e) => e.target.value && setDepartmentRule(e.target.value, { ...settings.default })}
+                className="bg-white border border-slate-200 rounded-md px-2 py-1 text-sm text-slate-700"
+              >
+                <option value="">เลือกหน่วยงาน</option>
+                {available.map(d => <option key={d} value={d}>{d}</option>)}
+              </select>
+            </div>
+          )}
+
+          <p className="text-xs text-slate-400">
+            รายการต้องผ่านทุกเกณฑ์ที่กำหนด และเรียงตามผลต่างเทียบกับเกณฑ์ขั้นต่ำ เกณฑ์ที่เปลี่ยนจะใช้กับการวิเคราะห์ครั้งถัดไปด้วย
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Reconciliation, ReconciliationCheck } from '../types';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { RECONCILIATION_KIND_LABELS } from '../services/reconciliation';
+
+const formatAmount = (value: number) => value.toLocaleString('th-TH', { maximumFractionDigits: 0 });
+
+const confidenceColor = (confidence: number) =>
+  confidence >= 90 ? 'bg-emerald-100 text-emerald-700' : confidence >= 70 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700';
+
+const describeExpected = (check: ReconciliationCheck) =>
+  check.expected === null ? 'ไม่พบในไฟล์' : `ในไฟล์ ${formatAmount(check.expected)}`;
+
+// ป้ายเตือนข้างตัวเลขที่ไม่ตรงกับไฟล์
+export const MismatchBadge: React.FC<{ check?: ReconciliationCheck }> = ({ check }) =>
+  check?.status === 'mismatch' ? (
+    <span
+      title={`ตัวเลขไม่ตรงกับไฟล์ (${describeExpected(check)})`}
+      className="inline-flex items-center ml-1.5 px-1.5 py-0.5 rounded bg-red-50 text-red-600 text-[10px] font-semibold border border-red-100"
+    >
+      <ShieldAlert className="w-3 h-3 mr-0.5" /> ไม่ตรงกับไฟล์
+    </span>
+  ) : null;
+
+/**
+ * ผลตรวจตัวเลขที่ AI ให้มาเทียบกับไฟล์ พร้อมคะแนนความน่าเชื่อถือของผลวิเคราะห์
+ * แสดงเฉพาะรายการที่ไม่ตรง (ไฟล์ Excel มีผลตรวจครบทุกรายการ)
+ */
+export const ReconciliationSection: React.FC<{ reconciliation: Reconciliation }> = ({ reconciliation }) => {
+  const { checks, confidence } = reconciliation;
+  const mismatches = checks.filter(c => c.status === 'mismatch');
+  const unverified = checks.filter(c => c.status === 'unverified').length;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            {mismatches.length === 0
+              ? <ShieldCheck className="w-5 h-5 mr-2 text-emerald-600" />
+              : <ShieldAlert className="w-5 h-5 mr-2 text-red-500" />}
+            ตรวจสอบตัวเลขกับไฟล์ต้นฉบับ
+          </h2>
+          <p className="text-xs text-slate-400 mt-1">
+            ตรวจ {checks.length - unverified} จาก {checks.length} ตัวเลข: รายรับ/รายจ่ายของหน่วยงาน กำไร = รายรับ − รายจ่าย และจำนวนเงินของผลต่าง
+          </p>
+        </div>
+        {confidence !== null && (
+          <span className={`self-start md:self-auto px-3 py-1.5 rounded-full text-sm font-bold ${confidenceColor(confidence)}`}>
+            ความน่าเชื่อถือ {confidence}%
+          </span>
+        )}
+      </div>
+
+      {mismatches.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-slate-50/50 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                <th className="px-4 py-3 text-left">การตรวจ</th>
+                <th className="px-4 py-3 text-left">หน่วยงาน/รายการ</th>
+                <th className="px-4 py-3 text-right">ผลวิเคราะห์</th>
+                <th className="px-4 py-3 text-right">ข้อมูลในไฟล์</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {mismatches.map(check => (
+                <tr key={`${check.kind}-${check.subject}`}>
+                  <td className="px-4 py-2 text-slate-500">{RECONCILIATION_KIND_LABELS[check.kind]}</td>
+                  <td className="px-4 py-2 text-slate-800">{check.subject}</td>
+                  <td className="px-4 py-2 text-right font-mono text-red-600">{formatAmount(check.claimed)}</td>
+                  <td className="px-4 py-2 text-right font-mono text-slate-600">
+                    {check.expected === null ? <span className="text-slate-400">ไม่พบในไฟล์</span> : formatAmount(check.expected)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg p-3">
+          {unverified === checks.length
+            ? 'ไม่มีตารางตัวเลขในไฟล์ให้ตรวจเทียบ'
+            : 'ตัวเลขที่ตรวจได้ทุกรายการตรงกับข้อมูลในไฟล์'}
+        </p>
+      )}
+    </div>
+  );
+};
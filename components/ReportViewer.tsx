@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react';
+import { ReportSectionReview, ReviewStatus } from '../types';
+import { ChevronDown, ChevronRight, Pencil, GitCompare, CheckCircle2, ShieldCheck, UserCheck } from 'lucide-react';
+import {
+  REVIEW_STATUS_LABELS, advanceSection, diffLines, editSection, formatReviewTime, hasPendingEdit,
+  loadReviewerName, saveReviewerName
+} from '../services/reportReview';
+import { renderMarkdown } from '../services/markdown';
+
+interface ReportViewerProps {
+  sections: ReportSectionReview[];
+  onChange: (sections: ReportSectionReview[]) => void;
+  readOnly?: boolean; // ระหว่างที่ AI ยังเขียนรายงานไม่เสร็จ
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  draft: 'bg-amber-50 text-amber-700 border-amber-200',
+  reviewed: 'bg-blue-50 text-blue-700 border-blue-200',
+  approved: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+};
+
+// เนื้อหาจาก AI ผ่าน renderMarkdown (กรอง HTML แล้ว) ก่อนแสดงผล — รูปแบบตัวอักษรกำหนดใน .report-markdown (index.html)
+export const MarkdownRenderer: React.FC<{ content: string }> = ({ content }) => {
+  const html = useMemo(() => renderMarkdown(content), [content]);
+  return <div className="report-markdown text-slate-700 leading-relaxed" dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+// ความต่างระหว่างร่างจาก AI กับข้อความที่แก้ไข (เขียว = เพิ่ม, แดง = ลบ)
+const DiffView: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <div className="font-mono text-xs border border-slate-200 rounded-lg overflow-hidden">
+    {diffLines(before, after).map((line, idx) => (
+      <div
+        key={idx}
+        className={`px-3 py-0.5 whitespace-pre-wrap ${
+          line.type === 'added' ? 'bg-emerald-50 text-emerald-800' :
+          line.type === 'removed' ? 'bg-red-50 text-red-700 line-through' : 'text-slate-500'
+        }`}
+      >
+        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+      </div>
+    ))}
+  </div>
+);
+
+const ReviewSection: React.FC<{
+  section: ReportSectionReview;
+  reviewer: string;
+  readOnly: boolean;
+  defaultOpen?: boolean;
+  onChange: (section: ReportSectionReview) => void;
+}> = ({ section, reviewer, readOnly, defaultOpen = false, onChange }) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [draft, setDraft] = useState<string | null>(null); // null = ไม่ได้อยู่ในโหมดแก้ไข
+  const [showDiff, setShowDiff] = useState(false);
+  const edited = section.content !== section.aiContent;
+
+  const handleSave = () => {
+    if (draft !== null && draft !== section.content) onChange(editSection(section, draft));
+    setDraft(null);
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-xl overflow-hidden mb-4 bg-white shadow-sm transition-all hover:shadow-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 bg-slate-50 hover:bg-slate-100 transition-colors text-left"
+      >
+        <h3 className="font-bold text-slate-800 flex items-center text-lg">
+          {isOpen ? <ChevronDown className="w-5 h-5 mr-2 text-indigo-600" /> : <ChevronRight className="w-5 h-5 mr-2 text-slate-400" />}
+          {section.title}
+        </h3>
+        <div className="flex items-center gap-2 flex-shrink-0 ml-4">
+          {edited && <span className="text-xs text-slate-400">แก้ไขจากร่าง AI</span>}
+          <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full border ${STATUS_STYLES[section.status]}`}>
+            {REVIEW_STATUS_LABELS[section.status]}
+          </span>
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="p-6 bg-white animate-fade-in border-t border-slate-100 space-y-4">
+          {draft !== null ? (
+            <>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={Math.min(24, Math.max(8, draft.split('\n').length + 1))}
+                className="w-full p-3 border border-slate-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraft(null)} className="px-4 py-2 text-sm text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50">
+                  ยกเลิก
+                </button>
+                <button onClick={handleSave} className="px-4 py-2 text-sm text-white bg-indigo-600 rounded-lg hover:bg-indigo-700">
+                  บันทึก
+                </button>
+              </div>
+            </>
+          ) : showDiff ? (
+            <DiffView before={section.aiContent} after={section.content} />
+          ) : (
+            <MarkdownRenderer content={section.content} />
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t border-slate-100">
+            <div className="text-xs text-slate-500 space-y-0.5">
+              {section.reviewedBy && <p>ตรวจโดย {section.reviewedBy} • {formatReviewTime(section.reviewedAt)}</p>}
+              {section.approvedBy && (
+                <p>
+                  {hasPendingEdit(section) ? 'ฉบับก่อนแก้ไขอนุมัติโดย' : 'อนุมัติโดย'} {section.approvedBy} • {formatReviewTime(section.approvedAt)}
+                  {hasPendingEdit(section) && <span className="text-amber-600"> (ไฟล์ที่ส่งออกใช้ฉบับที่อนุมัติจนกว่าจะอนุมัติใหม่)</span>}
+                </p>
+              )}
+            </div>
+            {!readOnly && draft === null && (
+              <div className="flex gap-2">
+                {edited && (
+                  <button onClick={() => setShowDiff(!showDiff)} className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-lg border ${showDiff ? 'bg-slate-800 text-white border-slate-800' : 'text-slate-600 border-slate-200 hover:bg-slate-50'}`}>
+                    <GitCompare className="w-3.5 h-3.5 mr-1.5" /> เทียบกับร่าง AI
+                  </button>
+                )}
+                <button onClick={() => { setDraft(section.content); setShowDiff(false); }} className="flex items-center px-3 py-1.5 text-xs font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50">
+                  <Pencil className="w-3.5 h-3.5 mr-1.5" /> แก้ไข
+                </button>
+                {section.status !== 'approved' && (
+                  <button
+                    onClick={() => onChange(advanceSection(section, reviewer))}
+                    disabled={!reviewer}
+                    title={reviewer ? undefined : 'กรุณากรอกชื่อผู้ตรวจทานก่อน'}
+                    className="flex items-center px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {section.status === 'draft'
+                      ? <><CheckCircle2 className="w-3.5 h-3.5 mr-1.5" /> ตรวจแล้ว</>
+                      : <><ShieldCheck className="w-3.5 h-3.5 mr-1.5" /> อนุมัติ</>}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * รายงานฉบับเต็มแบบแบ่งส่วน พร้อมขั้นตอนตรวจทาน: ร่าง → ตรวจแล้ว → อนุมัติ
+ * การแก้ไขข้อความจะทำให้ส่วนนั้นกลับเป็นร่าง เพื่อให้ตรวจทานฉบับที่แก้ไขอีกครั้ง
+ */
+export const ReportViewer: React.FC<ReportViewerProps> = ({ sections, onChange, readOnly = false }) => {
+  const [reviewer, setReviewer] = useState(loadReviewerName);
+  const approvedCount = sections.filter(s => s.status === 'approved').length;
+
+  const handleReviewerChange = (name: string) => {
+    setReviewer(name);
+    saveReviewerName(name);
+  };
+
+  const handleSectionChange = (idx: number, section: ReportSectionReview) => {
+    onChange(sections.map((s, i) => (i === idx ? section : s)));
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-4">
+      {!readOnly && sections.length > 0 && (
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 bg-white border border-slate-200 rounded-xl">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <UserCheck className="w-4 h-4 text-indigo-600" /> ผู้ตรวจทาน
+            <input
+              value={reviewer}
+              onChange={(e) => handleReviewerChange(e.target.value)}
+              placeholder="ชื่อ-นามสกุล"
+              className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <span className="text-sm text-slate-500">อนุมัติแล้ว {approvedCount} / {sections.length} ส่วน</span>
+        </div>
+      )}
+      {sections.length > 0 ? (
+        sections.map((sec, idx) => (
+          <ReviewSection
+            key={idx}
+            section={sec}
+            reviewer={reviewer.trim()}
+            readOnly={readOnly}
+            defaultOpen={idx === 0 || idx === 1} // Open first two sections by default
+            onChange={(section) => handleSectionChange(idx, section)}
+          />
+        ))
+      ) : (
+        <div className="p-8 text-center text-slate-400">กำลังประมวลผลรูปแบบรายงาน...</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, FinancialRatio, Scenario, ScenarioDrivers, ScenarioOutcome } from '../types';
+import { FlaskConical, Save, RotateCcw, Trash2, Pencil } from 'lucide-react';
+import { ResolvedBenchmark } from '../services/ratioBenchmarks';
+import {
+  BASE_SCENARIO_NAME, EMPTY_DRIVERS, createScenario, describeDrivers, hasDriverChanges, simulateScenario
+} from '../services/scenarioEngine';
+
+interface ScenarioPanelProps {
+  data: AnalysisResult;
+  benchmark: ResolvedBenchmark;
+  onScenariosChange?: (scenarios: Scenario[]) => void; // ไม่มี = บันทึกสถานการณ์ไม่ได้
+}
+
+interface Column {
+  key: string;
+  name: string;
+  detail: string[];
+  outcome: ScenarioOutcome;
+  scenario?: Scenario;
+}
+
+const STATUS_DOT: Record<FinancialRatio['status'], string> = {
+  good: 'bg-emerald-500',
+  warning: 'bg-amber-500',
+  critical: 'bg-red-500',
+};
+
+const inputClass = 'w-full px-2 py-1 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const formatAmount = (value: number) => value.toLocaleString('th-TH', { maximumFractionDigits: 0 });
+
+const formatRatio = (ratio: FinancialRatio) =>
+  ratio.value === null ? 'N/A' : `${ratio.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}${ratio.unit === '%' ? '%' : ''}`;
+
+const toNumber = (raw: string) => {
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : 0;
+};
+
+// ผลต่างจากกรณีฐาน (แสดงเฉพาะเมื่อเปลี่ยน) เขียว = ดีขึ้น
+const Delta: React.FC<{ value: number | null; base: number | null; digits?: number; higherIsBetter?: boolean }> = ({
+  value, base, digits = 2, higherIsBetter = true
+}) => {
+  if (value === null || base === null) return null;
+  const delta = value - base;
+  if (Math.abs(delta) < 10 ** -digits) return null;
+  return (
+    <span className={`block text-[11px] ${delta > 0 === higherIsBetter ? 'text-emerald-600' : 'text-red-600'}`}>
+      {delta > 0 ? '+' : ''}{delta.toLocaleString(undefined, { maximumFractionDigits: digits })}
+    </span>
+  );
+};
+
+/**
+ * สถานการณ์จำลอง (What-if): ปรับสมมติฐานแล้วเห็นอัตราส่วนและกำไรของหน่วยงานใหม่ทันที
+ * สถานการณ์ที่บันทึกจะแสดงเทียบกับกรณีฐานเป็นคอลัมน์
+ */
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ data, benchmark, onScenariosChange }) => {
+  const scenarios = data.scenarios ?? [];
+  const [drivers, setDrivers] = useState<ScenarioDrivers>(EMPTY_DRIVERS);
+  const [name, setName] = useState('');
+
+  const base = useMemo(() => simulateScenario(data, EMPTY_DRIVERS, benchmark), [data, benchmark]);
+  const columns = useMemo((): Column[] => [
+    { key: 'base', name: BASE_SCENARIO_NAME, detail: [], outcome: base },
+    ...(hasDriverChanges(drivers)
+      ? [{ key: 'draft', name: 'กำลังปรับ', detail: describeDrivers(drivers), outcome: simulateScenario(data, drivers, benchmark) }]
+      : []),
+    ...scenarios.map(scenario => ({
+      key: scenario.id,
+      name: scenario.name,
+      detail: describeDrivers(scenario.drivers),
+      outcome: simulateScenario(data, scenario.drivers, benchmark),
+      scenario,
+    })),
+  ], [data, benchmark, drivers, scenarios, base]);
+
+  const setDepartmentChange = (field: 'revenueChange' | 'expenseChange', dept: string, raw: string) => {
+    setDrivers(prev => ({ ...prev, [field]: { ...prev[field], [dept]: toNumber(raw) } }));
+  };
+
+  const handleSave = () => {
+    if (!onScenariosChange || !name.trim() || !hasDriverChanges(drivers)) return;
+    onScenariosChange([...scenarios, createScenario(name, drivers)]);
+    setName('');
+    setDrivers(EMPTY_DRIVERS);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-100">
+      <div className="mb-6">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center">
+          <FlaskConical className="w-5 h-5 mr-2 text-indigo-600" />
+          สถานการณ์จำลอง (What-if)
+        </h2>
+        <p className="text-xs text-slate-400 mt-1">ปรับสมมติฐานเพื่อดูผลต่ออัตราส่วนทางการเงินและกำไรของแต่ละหน่วยงาน (คำนวณในเครื่อง ไม่กระทบผลวิเคราะห์จริง)</p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Drivers */}
+        <div className="space-y-4">
+          {data.departments.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500">
+                  <th className="py-1.5 font-medium">หน่วยงาน</th>
+                  <th className="py-1.5 font-medium">รายได้ (%)</th>
+                  <th className="py-1.5 font-medium">รายจ่าย (%)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.departments.map(d => (
+                  <tr key={d.name} className="border-t border-slate-100">
+                    <td className="py-1.5 pr-2 text-slate-700">{d.name}</td>
+                    {(['revenueChange', 'expenseChange'] as const).map(field => (
+                      <td key={field} className="py-1.5 pr-2">
+                        <input
+                          type="number"
+                          step="any"
+                          value={drivers[field][d.name] || ''}
+                          onChange={(e) => setDepartmentChange(field, d.name, e.target.value)}
+                          placeholder="0"
+                          className={inputClass}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            {([
+              ['newDebt', 'กู้ยืมใหม่ (บาท)'],
+              ['capex', 'ลงทุน (บาท)'],
+              ['receivableDays', 'วันเก็บหนี้ (±วัน)'],
+            ] as const).map(([field, label]) => (
+              <label key={field} className="text-xs text-slate-500">
+                {label}
+                <input
+                  type="number"
+                  step="any"
+                  value={drivers[field] || ''}
+                  onChange={(e) => setDrivers(prev => ({ ...prev, [field]: toNumber(e.target.value) }))}
+                  placeholder="0"
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="ชื่อสถานการณ์ เช่น กู้ 50 ล้าน"
+              disabled={!onScenariosChange}
+              className={`flex-grow ${inputClass} disabled:bg-slate-50`}
+            />
+            <button
+              onClick={handleSave}
+              disabled={!onScenariosChange || !name.trim() || !hasDriverChanges(drivers)}
+              className="flex items-center px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-3.5 h-3.5 mr-1.5" /> บันทึก
+            </button>
+            <button
+              onClick={() => setDrivers(EMPTY_DRIVERS)}
+              title="ล้างสมมติฐาน"
+              className="p-1.5 text-slate-500 border border-slate-200 rounded-lg hover:bg-slate-50"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Comparison */}
+        <div className="xl:col-span-2 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs font-semibold text-slate-500 border-b border-slate-100 align-top">
+                <th className="px-3 py-2 text-left"></th>
+                {columns.map(col => (
+                  <th key={col.key} className={`px-3 py-2 text-right ${col.key === 'draft' ? 'bg-indigo-50/60' : ''}`}>
+                    <div className="flex items-center justify-end gap-1">
+                      <span className="text-slate-700">{col.name}</span>
+                      {col.scenario && onScenariosChange && (
+                        <>
+                          <button onClick={() => setDrivers(col.scenario!.drivers)} title="แก้ไขสมมติฐานนี้" className="text-slate-400 hover:text-indigo-600">
+                            <Pencil className="w-3 h-3" />
+                          </button>
+                          <button onClick={() => onScenariosChange(scenarios.filter(s => s.id !== col.key))} title="ลบสถานการณ์" className="text-slate-400 hover:text-red-500">
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                    {col.detail.map(line => <div key={line} className="font-normal text-[11px] text-slate-400">{line}</div>)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {base.ratios.map((ratio, idx) => (
+                <tr key={ratio.key}>
+                  <td className="px-3 py-2 text-slate-700">{ratio.name}</td>
+                  {columns.map(col => {
+                    const value = col.outcome.ratios[idx];
+                    return (
+                      <td key={col.key} className={`px-3 py-2 text-right font-mono ${col.key === 'draft' ? 'bg-indigo-50/60' : ''}`}>
+                        <span className="inline-flex items-center">
+                          {value.value !== null && <span className={`w-2 h-2 rounded-full mr-1.5 ${STATUS_DOT[value.status]}`} />}
+                          {formatRatio(value)}
+                        </span>
+                        {col.key !== 'base' && <Delta value={value.value} base={ratio.value} higherIsBetter={ratio.benchmark?.higherIsBetter} />}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              {base.departments.map((dept, idx) => (
+                <tr key={dept.name}>
+                  <td className="px-3 py-2 text-slate-700">กำไร {dept.name}</td>
+                  {columns.map(col => (
+                    <td key={col.key} className={`px-3 py-2 text-right font-mono ${col.key === 'draft' ? 'bg-indigo-50/60' : ''}`}>
+                      {formatAmount(col.outcome.departments[idx].profit)}
+                      {col.key !== 'base' && <Delta value={col.outcome.departments[idx].profit} base={dept.profit} digits={0} />}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
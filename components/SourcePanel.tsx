@@ -0,0 +1,126 @@
+import React from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import { utils } from 'xlsx';
+import { SourceRef, SourceSheet } from '../types';
+
+interface SourcePanelProps {
+  title: string;
+  refs: SourceRef[];
+  sheets: SourceSheet[];
+  onClose: () => void;
+}
+
+const CONTEXT_ROWS = 2; // จำนวนแถวรอบ ๆ ที่แสดงเหนือ/ใต้แถวที่อ้างถึง
+
+const formatAmount = (value: number) => value.toLocaleString('th-TH', { maximumFractionDigits: 2 });
+
+const formatCell = (cell: string | number | null | undefined) =>
+  cell === null || cell === undefined ? '' : typeof cell === 'number' ? formatAmount(cell) : cell;
+
+// แถวที่จะแสดง: แถวที่อ้างถึงและแถวรอบ ๆ โดยรวมช่วงที่ติดกันเป็นช่วงเดียว
+const visibleRows = (rows: number[], total: number): (number | null)[] => {
+  const shown = new Set<number>();
+  rows.forEach(row => {
+    for (let r = Math.max(0, row - CONTEXT_ROWS); r <= Math.min(total - 1, row + CONTEXT_ROWS); r++) shown.add(r);
+  });
+  const sorted = Array.from(shown).sort((a, b) => a - b);
+  // null = ช่วงที่ถูกข้าม
+  return sorted.flatMap((row, idx) => (idx > 0 && row - sorted[idx - 1] > 1 ? [null, row] : [row]));
+};
+
+const SheetExcerpt: React.FC<{ sheet: SourceSheet; refs: SourceRef[] }> = ({ sheet, refs }) => {
+  const cells = new Set(refs.map(r => `${r.row}:${r.column}`));
+  const refRows = new Set(refs.map(r => r.row));
+  const rows = visibleRows(Array.from(refRows), sheet.rows.length);
+  const width = Math.max(1, ...rows.map(r => (r === null ? 0 : sheet.rows[r]?.length ?? 0)));
+
+  return (
+    <div className="overflow-x-auto border border-slate-200 rounded-lg">
+      <table className="text-xs font-mono">
+        <thead className="bg-slate-50 text-slate-400">
+          <tr>
+            <th className="px-2 py-1 border-r border-slate-200"></th>
+            {Array.from({ length: width }, (_, c) => (
+              <th key={c} className="px-2 py-1 font-medium">{utils.encode_col(c)}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, idx) => row === null ? (
+            <tr key={`gap-${idx}`}><td colSpan={width + 1} className="px-2 py-0.5 text-center text-slate-300">⋯</td></tr>
+          ) : (
+            <tr key={row} className={refRows.has(row) ? 'bg-amber-50' : ''}>
+              <td className="px-2 py-1 text-slate-400 border-r border-slate-200 text-right">{utils.encode_row(row)}</td>
+              {Array.from({ length: width }, (_, c) => (
+                <td
+                  key={c}
+                  className={`px-2 py-1 whitespace-nowrap ${cells.has(`${row}:${c}`) ? 'bg-amber-200 font-bold text-slate-900 ring-1 ring-amber-400' : 'text-slate-600'}`}
+                >
+                  {formatCell(sheet.rows[row]?.[c])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+/**
+ * แผงด้านขวาแสดงแถวต้นฉบับของตัวเลขที่เลือก จัดกลุ่มตามไฟล์/Sheet และไฮไลต์เซลล์ที่ใช้คำนวณ
+ * ถ้าไม่มีแถวต้นฉบับ (เช่นเปิดจากประวัติเก่า) แสดงเฉพาะรายการและตำแหน่งเซลล์
+ */
+export const SourcePanel: React.FC<SourcePanelProps> = ({ title, refs, sheets, onClose }) => {
+  const groups = new Map<string, SourceRef[]>();
+  refs.forEach(ref => {
+    const key = `${ref.file ?? ''}|${ref.sheet}`;
+    groups.set(key, [...(groups.get(key) ?? []), ref]);
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex justify-end" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-2xl h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="sticky top-0 bg-white flex justify-between items-center p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">ที่มาของตัวเลข</h2>
+            <p className="text-xs text-slate-400 mt-1">{title}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {refs.length === 0 && (
+            <p className="text-sm text-slate-400">ไม่พบตำแหน่งของตัวเลขนี้ในไฟล์ (อาจเป็นตัวเลขที่ AI อ่านจาก PDF หรือคำนวณจากหลายรายการ)</p>
+          )}
+          {Array.from(groups.values()).map(group => {
+            const { file, sheet: sheetName } = group[0];
+            const sheet = sheets.find(s => s.name === sheetName && (!file || s.file === file));
+            return (
+              <div key={`${file}|${sheetName}`}>
+                <h3 className="text-sm font-semibold text-slate-700 flex items-center mb-2">
+                  <FileSpreadsheet className="w-4 h-4 mr-1.5 text-emerald-600" />
+                  {file ? `${file} › ` : ''}{sheetName}
+                </h3>
+                {sheet && <SheetExcerpt sheet={sheet} refs={group} />}
+                <ul className="mt-2 space-y-1 text-xs text-slate-600">
+                  {group.map(ref => (
+                    <li key={`${ref.row}:${ref.column}`} className="flex justify-between gap-4">
+                      <span>
+                        <span className="font-mono text-indigo-600 mr-2">{utils.encode_cell({ r: ref.row, c: ref.column })}</span>
+                        {ref.label} ({ref.period})
+                      </span>
+                      <span className="font-mono">{formatAmount(ref.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { UploadedFile } from "../types";
+import { ANALYSIS_SCHEMAS, SchemaName } from "../services/analysisSchema";
+import { createProvider, parseProviderConfig } from "../services/providers";
+import { PROXY_ENDPOINT } from "../services/providers/proxyProvider";
+import { createRateLimiter } from "./rateLimiter";
+
+// ค่าตั้งต้นของ server อ่านจาก Environment Variable ที่ไม่มี prefix VITE_ จึงไม่ถูก bundle ไปที่เบราว์เซอร์
+const PORT = Number(process.env.PORT) || 8787;
+// รับการเชื่อมต่อจากเครื่องนี้เท่านั้นเป็นค่าเริ่มต้น (ใช้ 0.0.0.0 เมื่ออยู่หลัง reverse proxy บนเครื่องอื่น)
+const HOST = process.env.HOST || '127.0.0.1';
+const MAX_UPLOAD_MB = Number(process.env.MAX_UPLOAD_MB) || 20;
+const MAX_FILES = 10;
+// ความยาว prompt สูงสุด (ตัวอักษร) ไม่ให้ใช้ server เป็นทางผ่านส่งข้อความยาวไปยัง AI ด้วย API Key ของระบบ
+const MAX_PROMPT_CHARS = Number(process.env.MAX_PROMPT_CHARS) || 200_000;
+const RATE_LIMIT = Number(process.env.RATE_LIMIT) || 30;
+const RATE_WINDOW_MS = (Number(process.env.RATE_WINDOW_MINUTES) || 60) * 60_000;
+// เชื่อ X-Forwarded-For เฉพาะเมื่ออยู่หลัง reverse proxy ที่เขียนทับ header นี้เอง (ผู้ใช้ตั้ง header เองได้)
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+const providerConfig = parseProviderConfig(
+  {
+    provider: process.env.LLM_PROVIDER,
+    model: process.env.LLM_MODEL,
+    apiKey: process.env.API_KEY,
+    baseUrl: process.env.LLM_BASE_URL,
+  },
+  'gemini'
+);
+if (providerConfig.provider === 'proxy') {
+  throw new Error('LLM_PROVIDER ของ server ต้องไม่ใช่ "proxy" (จะเรียกตัวเองวนซ้ำ)');
+}
+const provider = createProvider(providerConfig);
+const checkRateLimit = createRateLimiter({ limit: RATE_LIMIT, windowMs: RATE_WINDOW_MS });
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// ระบุผู้ใช้จาก IP ของการเชื่อมต่อ (หลัง reverse proxy ใช้ X-Forwarded-For เมื่อตั้ง TRUST_PROXY=true)
+const clientKey = (req: IncomingMessage): string => {
+  if (TRUST_PROXY) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// อ่าน body พร้อมตัดการเชื่อมต่อทันทีเมื่อเกินขนาดที่กำหนด
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length']) > maxBytes) {
+      reject(new HttpError(413, `ไฟล์มีขนาดเกิน ${MAX_UPLOAD_MB} MB`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, `ไฟล์มีขนาดเกิน ${MAX_UPLOAD_MB} MB`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const parseRequest = (body: string): { prompt: string; files: UploadedFile[]; schema: SchemaName } => {
+  let payload: { prompt?: unknown; files?: unknown; schema?: unknown };
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'รูปแบบคำขอไม่ถูกต้อง (ต้องเป็น JSON)');
+  }
+
+  const { prompt, files, schema } = payload;
+  if (typeof prompt !== 'string' || !Array.isArray(files)) {
+    throw new HttpError(400, 'คำขอต้องมี prompt และ files');
+  }
+  if (prompt.length > MAX_PROMPT_CHARS) {
+    throw new HttpError(413, `prompt ยาวเกิน ${MAX_PROMPT_CHARS.toLocaleString()} ตัวอักษร`);
+  }
+  // รับเฉพาะชื่อ Schema ที่ server รู้จัก ไม่รับ Schema จากผู้ใช้โดยตรง
+  if (typeof schema !== 'string' || !(schema in ANALYSIS_SCHEMAS)) {
+    throw new HttpError(400, `schema ต้องเป็นหนึ่งใน ${Object.keys(ANALYSIS_SCHEMAS).join(', ')}`);
+  }
+  // การถาม-ตอบส่งผลวิเคราะห์ใน prompt แทนไฟล์ จึงไม่บังคับแนบไฟล์
+  const minFiles = schema === 'chat' ? 0 : 1;
+  if (files.length < minFiles || files.length > MAX_FILES) {
+    throw new HttpError(400, `ต้องส่งไฟล์ ${minFiles}-${MAX_FILES} ไฟล์`);
+  }
+  const valid = files.every((f: Partial<UploadedFile>) =>
+    typeof f?.name === 'string' && typeof f.data === 'string' && typeof f.mimeType === 'string'
+  );
+  if (!valid) {
+    throw new HttpError(400, 'ข้อมูลไฟล์ไม่ครบ (ต้องมี name, data, mimeType)');
+  }
+  return { prompt, files: files as UploadedFile[], schema: schema as SchemaName };
+};
+
+const handleAnalyze = async (req: IncomingMessage, res: ServerResponse) => {
+  const limit = checkRateLimit(clientKey(req));
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+    sendJson(res, 429, { error: `เรียกใช้งานบ่อยเกินไป กรุณาลองใหม่ในอีก ${Math.ceil(retryAfter / 60)} นาที` }, {
+      'Retry-After': String(retryAfter),
+    });
+    return;
+  }
+
+  const { prompt, files, schema } = parseRequest(await readBody(req, MAX_UPLOAD_MB * 1024 * 1024));
+
+  // ผู้ใช้กดยกเลิก (ปิดการเชื่อมต่อ) ให้ยกเลิกคำขอไปยัง AI ด้วย
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const text = await provider.generateJson({ prompt, files, schema, signal: controller.signal });
+    sendJson(res, 200, { text });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error("Provider Error:", error);
+    throw new HttpError(502, error instanceof Error ? error.message : String(error));
+  }
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.method === 'POST' && req.url === PROXY_ENDPOINT) {
+      await handleAnalyze(req, res);
+    } else if (req.method === 'GET' && req.url === '/api/health') {
+      sendJson(res, 200, { status: 'ok', provider: provider.name });
+    } else {
+      sendJson(res, 404, { error: 'Not Found' });
+    }
+  } catch (error) {
+    if (res.headersSent) return;
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+    } else {
+      console.error("Server Error:", error);
+      sendJson(res, 500, { error: 'เกิดข้อผิดพลาดภายใน server' });
+    }
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`SmartAcc API server (${provider.name}) listening on http://${HOST}:${PORT}`);
+});
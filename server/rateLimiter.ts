@@ -0,0 +1,32 @@
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+/**
+ * จำกัดจำนวนคำขอต่อผู้ใช้แบบ Fixed Window (เก็บในหน่วยความจำของ process)
+ * เพียงพอสำหรับ server เดี่ยว หากรันหลาย instance ต้องย้ายไปเก็บที่ Redis หรือที่เก็บกลาง
+ */
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+  const windows = new Map<string, Window>();
+
+  return (key: string, now = Date.now()): RateLimitResult => {
+    // ล้างหน้าต่างที่หมดอายุแล้ว ไม่ให้ Map โตไปเรื่อยๆ
+    windows.forEach((w, k) => {
+      if (w.resetAt <= now) windows.delete(k);
+    });
+
+    const current = windows.get(key) ?? { count: 0, resetAt: now + windowMs };
+    if (current.count >= limit) {
+      return { allowed: false, retryAfterMs: current.resetAt - now };
+    }
+    current.count += 1;
+    windows.set(key, current);
+    return { allowed: true, retryAfterMs: 0 };
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { LineItem } from '../types';
+import { applyAccountMapping, DEFAULT_MAPPING_RULES } from './accountMapping';
+
+const categoryOf = (label: string, statement?: LineItem['statement']) =>
+  applyAccountMapping([{ label, period: '2567', amount: 100, statement }], DEFAULT_MAPPING_RULES)[0].category;
+
+describe('applyAccountMapping', () => {
+  it.each([
+    ['ค่าใช้จ่ายค้างจ่าย', 'currentLiability'],
+    ['ค่าใช้จ่ายจ่ายล่วงหน้า', 'currentAsset'],
+    ['รายได้รับล่วงหน้า', 'currentLiability'],
+    ['ภาษีเงินได้ค้างจ่าย', 'currentLiability'],
+    ['Accrued expenses', 'currentLiability'],
+    ['Income tax payable', 'currentLiability'],
+  ])('บัญชีในงบแสดงฐานะการเงิน "%s" เป็น %s', (label, category) => {
+    expect(categoryOf(label, 'balanceSheet')).toBe(category);
+    expect(categoryOf(label)).toBe(category);
+  });
+
+  it.each([
+    ['ค่าใช้จ่ายในการบริหาร', 'opex'],
+    ['รายได้จากการขาย', 'revenue'],
+    ['ภาษีเงินได้', 'tax'],
+  ])('บัญชีในงบกำไรขาดทุน "%s" เป็น %s', (label, category) => {
+    expect(categoryOf(label, 'incomeStatement')).toBe(category);
+  });
+
+  it('ไม่ใช้กฎของงบกำไรขาดทุนกับรายการในงบแสดงฐานะการเงิน', () => {
+    expect(categoryOf('ค่าใช้จ่ายอื่น', 'balanceSheet')).toBeUndefined();
+    expect(categoryOf('ค่าใช้จ่ายอื่น', 'incomeStatement')).toBe('opex');
+  });
+
+  it('ไม่ใช้กฎของงบแสดงฐานะการเงินกับรายการในงบกำไรขาดทุน', () => {
+    expect(categoryOf('เงินสดรับจากลูกค้า', 'incomeStatement')).toBeUndefined();
+  });
+});
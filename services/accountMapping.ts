@@ -0,0 +1,172 @@
+import { AccountCategory, AccountMappingRule, LineItem, StatementType } from "../types";
+import { normalizeLabel } from "./spreadsheetParser";
+
+const STORAGE_KEY = 'smartacc.accountMapping';
+
+export const CATEGORY_LABELS: Record<AccountCategory, string> = {
+  currentAsset: 'สินทรัพย์หมุนเวียน',
+  nonCurrentAsset: 'สินทรัพย์ไม่หมุนเวียน',
+  currentLiability: 'หนี้สินหมุนเวียน',
+  nonCurrentLiability: 'หนี้สินไม่หมุนเวียน',
+  equity: 'ส่วนของผู้ถือหุ้น',
+  revenue: 'รายได้จากการดำเนินงาน',
+  otherIncome: 'รายได้อื่น',
+  cogs: 'ต้นทุนขาย/ต้นทุนบริการ',
+  opex: 'ค่าใช้จ่ายในการดำเนินงาน',
+  financeCost: 'ต้นทุนทางการเงิน',
+  tax: 'ภาษีเงินได้',
+  subtotal: 'ยอดรวม (ไม่นำมารวมซ้ำ)',
+};
+
+export const REVENUE_CATEGORIES: AccountCategory[] = ['revenue', 'otherIncome'];
+export const EXPENSE_CATEGORIES: AccountCategory[] = ['cogs', 'opex', 'financeCost', 'tax'];
+
+// งบที่หมวดบัญชีอยู่ กฎของหมวดนั้นใช้ได้เฉพาะรายการในงบเดียวกัน (หรือรายการที่ไม่ทราบงบ)
+const CATEGORY_STATEMENT: Partial<Record<AccountCategory, StatementType>> = {
+  currentAsset: 'balanceSheet',
+  nonCurrentAsset: 'balanceSheet',
+  currentLiability: 'balanceSheet',
+  nonCurrentLiability: 'balanceSheet',
+  equity: 'balanceSheet',
+  revenue: 'incomeStatement',
+  otherIncome: 'incomeStatement',
+  cogs: 'incomeStatement',
+  opex: 'incomeStatement',
+  financeCost: 'incomeStatement',
+  tax: 'incomeStatement',
+};
+
+const rule = (
+  id: string,
+  pattern: string,
+  category: AccountCategory,
+  standardName?: string,
+  matchType: AccountMappingRule['matchType'] = 'name'
+): AccountMappingRule => ({ id, matchType, pattern, category, standardName });
+
+// ผังบัญชีเริ่มต้นตามชื่อรายการในงบการเงิน TFRS (ไทย/อังกฤษ) — ตรวจตามลำดับ กฎแรกที่ตรงจะถูกใช้
+export const DEFAULT_MAPPING_RULES: AccountMappingRule[] = [
+  rule('default-subtotal-th', 'รวม', 'subtotal'),
+  rule('default-subtotal-en', 'total', 'subtotal'),
+  rule('default-cash-th', 'เงินสด', 'currentAsset', 'เงินสดและรายการเทียบเท่าเงินสด'),
+  rule('default-cash-en', 'cash', 'currentAsset', 'เงินสดและรายการเทียบเท่าเงินสด'),
+  rule('default-ar-th', 'ลูกหนี้การค้า', 'currentAsset', 'ลูกหนี้การค้า'),
+  rule('default-ar-en', 'trade receivable', 'currentAsset', 'ลูกหนี้การค้า'),
+  rule('default-ar-short', 'ar -', 'currentAsset', 'ลูกหนี้การค้า'),
+  rule('default-ar-net', 'accounts receivable', 'currentAsset', 'ลูกหนี้การค้า'),
+  rule('default-inventory-th', 'สินค้าคงเหลือ', 'currentAsset', 'สินค้าคงเหลือ'),
+  rule('default-inventory-en', 'inventor', 'currentAsset', 'สินค้าคงเหลือ'),
+  rule('default-ppe-th', 'ที่ดิน อาคาร', 'nonCurrentAsset', 'ที่ดิน อาคารและอุปกรณ์'),
+  rule('default-ppe-en', 'property, plant', 'nonCurrentAsset', 'ที่ดิน อาคารและอุปกรณ์'),
+  rule('default-intangible-th', 'สินทรัพย์ไม่มีตัวตน', 'nonCurrentAsset', 'สินทรัพย์ไม่มีตัวตน'),
+  rule('default-intangible-en', 'intangible', 'nonCurrentAsset', 'สินทรัพย์ไม่มีตัวตน'),
+  rule('default-ap-th', 'เจ้าหนี้การค้า', 'currentLiability', 'เจ้าหนี้การค้า'),
+  rule('default-ap-en', 'trade payable', 'currentLiability', 'เจ้าหนี้การค้า'),
+  rule('default-ap-short', 'ap -', 'currentLiability', 'เจ้าหนี้การค้า'),
+  rule('default-ap-net', 'accounts payable', 'currentLiability', 'เจ้าหนี้การค้า'),
+  rule('default-ltloan-th', 'เงินกู้ยืมระยะยาว', 'nonCurrentLiability', 'เงินกู้ยืมระยะยาว'),
+  rule('default-ltloan-en', 'long-term borrowing', 'nonCurrentLiability', 'เงินกู้ยืมระยะยาว'),
+  rule('default-ltloan-en2', 'long-term loan', 'nonCurrentLiability', 'เงินกู้ยืมระยะยาว'),
+  rule('default-stloan-th', 'เงินกู้ยืมระยะสั้น', 'currentLiability', 'เงินกู้ยืมระยะสั้น'),
+  rule('default-stloan-en', 'short-term borrowing', 'currentLiability', 'เงินกู้ยืมระยะสั้น'),
+  rule('default-stloan-en2', 'short-term loan', 'currentLiability', 'เงินกู้ยืมระยะสั้น'),
+  // บัญชีค้างจ่าย/ค้างรับ/ล่วงหน้าในงบแสดงฐานะการเงิน ต้องมาก่อนกฎทั่วไป "ค่าใช้จ่าย" "รายได้" "ภาษีเงินได้"
+  rule('default-accrued-income-th', 'ค้างรับ', 'currentAsset'),
+  rule('default-accrued-income-en', 'accrued income', 'currentAsset'),
+  rule('default-accrued-th', 'ค้างจ่าย', 'currentLiability'),
+  rule('default-accrued-en', 'accrued', 'currentLiability'),
+  rule('default-prepaid-th', 'จ่ายล่วงหน้า', 'currentAsset'),
+  rule('default-prepaid-en', 'prepaid', 'currentAsset'),
+  rule('default-unearned-th', 'รับล่วงหน้า', 'currentLiability'),
+  rule('default-unearned-en', 'unearned', 'currentLiability'),
+  rule('default-deferred-revenue-en', 'deferred revenue', 'currentLiability'),
+  rule('default-payable-en', 'payable', 'currentLiability'),
+  rule('default-capital-th', 'ทุนจดทะเบียน', 'equity', 'ทุนเรือนหุ้น'),
+  rule('default-capital-th2', 'ทุนที่ออก', 'equity', 'ทุนเรือนหุ้น'),
+  rule('default-capital-en', 'share capital', 'equity', 'ทุนเรือนหุ้น'),
+  rule('default-retained-th', 'กำไรสะสม', 'equity', 'กำไรสะสม'),
+  rule('default-retained-en', 'retained earning', 'equity', 'กำไรสะสม'),
+  rule('default-cogs-th', 'ต้นทุนขาย', 'cogs', 'ต้นทุนขาย'),
+  rule('default-cogs-th2', 'ต้นทุนการให้บริการ', 'cogs', 'ต้นทุนการให้บริการ'),
+  rule('default-cogs-en', 'cost of', 'cogs', 'ต้นทุนขาย'),
+  rule('default-cogs-short', 'cogs', 'cogs', 'ต้นทุนขาย'),
+  rule('default-finance-th', 'ต้นทุนทางการเงิน', 'financeCost', 'ต้นทุนทางการเงิน'),
+  rule('default-interest-th', 'ดอกเบี้ยจ่าย', 'financeCost', 'ต้นทุนทางการเงิน'),
+  rule('default-finance-en', 'finance cost', 'financeCost', 'ต้นทุนทางการเงิน'),
+  rule('default-interest-en', 'interest expense', 'financeCost', 'ต้นทุนทางการเงิน'),
+  rule('default-tax-th', 'ภาษีเงินได้', 'tax', 'ภาษีเงินได้'),
+  rule('default-tax-en', 'income tax', 'tax', 'ภาษีเงินได้'),
+  rule('default-selling-th', 'ค่าใช้จ่ายในการขาย', 'opex', 'ค่าใช้จ่ายในการขาย'),
+  rule('default-admin-th', 'ค่าใช้จ่ายในการบริหาร', 'opex', 'ค่าใช้จ่ายในการบริหาร'),
+  rule('default-opex-en', 'expense', 'opex'),
+  rule('default-opex-th', 'ค่าใช้จ่าย', 'opex'),
+  rule('default-otherincome-th', 'รายได้อื่น', 'otherIncome', 'รายได้อื่น'),
+  rule('default-otherincome-en', 'other income', 'otherIncome', 'รายได้อื่น'),
+  rule('default-revenue-th', 'รายได้', 'revenue'),
+  rule('default-revenue-th2', 'ยอดขาย', 'revenue', 'รายได้จากการขาย'),
+  rule('default-revenue-en', 'revenue', 'revenue'),
+  rule('default-sales-en', 'sales', 'revenue', 'รายได้จากการขาย'),
+];
+
+// กฎที่ผู้ใช้บันทึกไว้ (localStorage) — ใช้ก่อนกฎเริ่มต้นเสมอ
+export const loadUserRules = (): AccountMappingRule[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as AccountMappingRule[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserRules = (rules: AccountMappingRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+const matches = (item: LineItem, r: AccountMappingRule): boolean => {
+  const scope = CATEGORY_STATEMENT[r.category];
+  const statement = item.statement === 'balanceSheet' || item.statement === 'incomeStatement' ? item.statement : undefined;
+  if (scope && statement && scope !== statement) return false;
+  if (r.matchType === 'code') {
+    return !!item.code && item.code.replace(/[.\-]/g, '').startsWith(r.pattern.replace(/[.\-]/g, ''));
+  }
+  return normalizeLabel(item.label).includes(normalizeLabel(r.pattern));
+};
+
+export const findRule = (item: LineItem, rules: AccountMappingRule[]): AccountMappingRule | undefined =>
+  rules.find(r => matches(item, r));
+
+// ใส่หมวดบัญชีและชื่อบัญชีมาตรฐานให้ทุกรายการ (รายการที่ไม่ตรงกฎใดจะไม่มี category)
+// รายการที่มีหมวดอยู่แล้ว (งบที่สร้างจาก TB/GL) ใช้หมวดเดิม และรับชื่อมาตรฐานเฉพาะจากกฎของหมวดเดียวกัน
+// รายการในงบกระแสเงินสดไม่ใช่ยอดคงเหลือของบัญชี จึงไม่นำมา map
+// กฎของหมวดในงบกำไรขาดทุนไม่ใช้กับรายการในงบแสดงฐานะการเงิน และกลับกัน
+export const applyAccountMapping = (
+  items: LineItem[],
+  rules: AccountMappingRule[] = [...loadUserRules(), ...DEFAULT_MAPPING_RULES]
+): LineItem[] =>
+  items.map(item => {
+    if (item.statement === 'cashFlow') return item;
+    const matched = findRule(item, rules);
+    const category = item.category ?? matched?.category;
+    return { ...item, category, account: matched?.category === category ? matched?.standardName : undefined };
+  });
+
+export const findUnmappedItems = (items: LineItem[]): LineItem[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = normalizeLabel(item.label);
+    if (item.category || item.statement === 'cashFlow' || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// ยอดรวมตามหมวดบัญชีแยกงวด สำหรับส่งให้ AI ใช้เป็นตัวเลขอ้างอิงเดียวกันทุกครั้ง
+export const summarizeByCategory = (items: LineItem[]): Record<string, Partial<Record<AccountCategory, number>>> => {
+  const summary: Record<string, Partial<Record<AccountCategory, number>>> = {};
+  items.forEach(item => {
+    if (!item.category || item.category === 'subtotal') return;
+    const period = (summary[item.period] ??= {});
+    period[item.category] = (period[item.category] ?? 0) + item.amount;
+  });
+  return summary;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { coerceToSchema, JsonSchema, REPORT_SCHEMA, validateAgainstSchema } from './analysisSchema';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    amount: { type: 'number' },
+    ratio: { type: ['number', 'null'] },
+    trend: { type: 'string', enum: ['increase', 'decrease'] },
+    note: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['amount', 'ratio', 'trend', 'tags'],
+};
+
+describe('coerceToSchema', () => {
+  it.each([
+    ['1,234', 1_234],
+    ['(500)', -500],
+    ['12.5%', 12.5],
+  ])('แปลงตัวเลขที่ส่งมาเป็นข้อความ "%s"', (raw, expected) => {
+    expect(coerceToSchema({ amount: raw, ratio: 1, trend: 'increase', tags: [] }, schema)).toMatchObject({ amount: expected });
+  });
+
+  it('แก้ค่าว่าง enum ตัวพิมพ์ Array ที่หายไป และตัดช่องที่ไม่อยู่ใน Schema', () => {
+    expect(coerceToSchema({ amount: 1, ratio: 'N/A', trend: ' Increase', note: null, extra: 'x' }, schema)).toEqual({
+      amount: 1,
+      ratio: null,
+      trend: 'increase',
+      tags: [],
+    });
+    expect(coerceToSchema({ amount: 1, trend: 'decrease', note: 42, tags: [7] }, schema)).toEqual({
+      amount: 1,
+      ratio: null,
+      trend: 'decrease',
+      note: '42',
+      tags: ['7'],
+    });
+  });
+
+  it('ส่วนที่แก้ไม่ได้คงค่าเดิมไว้', () => {
+    expect(coerceToSchema({ amount: 'มาก', ratio: null, trend: 'flat', tags: [] }, schema)).toMatchObject({ amount: 'มาก', trend: 'flat' });
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('ข้อมูลที่แก้แล้วผ่านการตรวจ', () => {
+    expect(validateAgainstSchema(coerceToSchema({ amount: '1,000', trend: 'Decrease' }, schema), schema)).toEqual([]);
+  });
+
+  it('รายงานช่องที่ขาด ชนิดที่ผิด และค่านอก enum พร้อมตำแหน่ง', () => {
+    expect(validateAgainstSchema({ amount: 'มาก', ratio: null, trend: 'flat', tags: ['a', 1] }, schema)).toEqual([
+      '$.amount: ต้องเป็น number แต่ได้ string',
+      '$.trend: ต้องเป็นหนึ่งใน increase, decrease แต่ได้ "flat"',
+      '$.tags[1]: ต้องเป็น string แต่ได้ number',
+    ]);
+    expect(validateAgainstSchema({}, REPORT_SCHEMA)).toContain('$.overallAnalysis: ไม่มีข้อมูล');
+  });
+});
@@ -0,0 +1,205 @@
+import { AnalysisResult, ChatCitation, FinancialFigures, RatioKey } from "../types";
+import { FIGURE_LABELS, RATIO_DEFINITIONS } from "./ratioEngine";
+
+// JSON Schema (ชุดย่อยที่ Gemini, OpenAI และ Ollama รองรับร่วมกัน)
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean' | ('number' | 'null')[];
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+// การเรียก AI แบ่งเป็น 2 ขั้น: ดึงตัวเลข (figures) แล้วจึงเขียนรายงาน (report)
+// และคำถามเพิ่มเติมหลังวิเคราะห์เสร็จ (chat)
+export type SchemaName = 'figures' | 'report' | 'chat';
+
+// ขั้นที่ 1: ตัวเลขจากงบ ก่อนนำไปคำนวณอัตราส่วนในเครื่อง
+export interface RawFigures extends Pick<AnalysisResult, 'departments' | 'topHighItems' | 'topLowItems'> {
+  figures?: Partial<FinancialFigures>;
+  ratioComments?: { key: RatioKey; description: string }[];
+  figureSources?: { key: keyof FinancialFigures; source: string }[];
+}
+
+// ขั้นที่ 2: บทวิเคราะห์และคำอธิบายผลต่าง
+export interface RawReport extends Pick<AnalysisResult, 'overallAnalysis' | 'formalReport' | 'significantChanges'> {
+  varianceComments?: { item: string; relatedDepartment?: string; reason: string }[];
+}
+
+// คำตอบคำถามเพิ่มเติม พร้อมรายการที่ใช้อ้างอิง
+export interface RawChatAnswer {
+  answer: string;
+  citations: ChatCitation[];
+}
+
+const string = (description?: string): JsonSchema => ({ type: 'string', description });
+const number = (description?: string): JsonSchema => ({ type: 'number', description });
+const nullableNumber: JsonSchema = { type: ['number', 'null'] };
+
+const object = (
+  properties: Record<string, JsonSchema>,
+  { description, optional = [] }: { description?: string; optional?: string[] } = {}
+): JsonSchema => ({
+  type: 'object',
+  description,
+  properties,
+  required: Object.keys(properties).filter(key => !optional.includes(key)),
+});
+
+const array = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+export const FIGURES_SCHEMA: JsonSchema = object({
+  figures: object(
+    Object.fromEntries(Object.keys(FIGURE_LABELS).map(key => [key, nullableNumber])),
+    { description: "ตัวเลขตามที่ปรากฏในไฟล์ (งวดล่าสุด) ห้ามคำนวณเอง ไม่พบให้ใส่ null" }
+  ),
+  figureSources: array(object({
+    key: { type: 'string', enum: Object.keys(FIGURE_LABELS) },
+    source: string("ชื่อ Sheet หรือหน้าของไฟล์ที่พบตัวเลข"),
+  })),
+  ratioComments: array(object({
+    key: { type: 'string', enum: RATIO_DEFINITIONS.map(d => d.key) },
+    description: string("คำอธิบายความหมายสั้นๆ ภาษาชาวบ้าน"),
+  })),
+  departments: array(object({
+    name: string(),
+    revenue: number(),
+    expense: number(),
+    profit: number(),
+    liquidityComment: string(),
+  })),
+  topHighItems: array(string()),
+  topLowItems: array(string()),
+}, { optional: ['figureSources', 'topHighItems', 'topLowItems'] });
+
+export const REPORT_SCHEMA: JsonSchema = object({
+  overallAnalysis: string("บทสรุปสั้นๆ 2-3 บรรทัด สำหรับแสดงบน Dashboard Card"),
+  formalReport: string("รายงานฉบับเต็ม format Markdown ที่สวยงาม อ่านง่าย"),
+  significantChanges: array(object({
+    item: string(),
+    relatedDepartment: string(),
+    amount: number(),
+    percentage: string(),
+    trend: { type: 'string', enum: ['increase', 'decrease'] },
+    reason: string(),
+  }, { optional: ['relatedDepartment'] })),
+  varianceComments: array(object({
+    item: string(),
+    relatedDepartment: string(),
+    reason: string(),
+  }, { optional: ['relatedDepartment'] })),
+}, { optional: ['varianceComments'] });
+
+export const CHAT_SCHEMA: JsonSchema = object({
+  answer: string("คำตอบในรูปแบบ Markdown ภาษาเดียวกับคำถาม"),
+  citations: array(object({
+    type: { type: 'string', enum: ['change', 'lineItem'] },
+    ref: string("ชื่อรายการตามที่ปรากฏในข้อมูลอ้างอิง"),
+  })),
+});
+
+export const ANALYSIS_SCHEMAS: Record<SchemaName, JsonSchema> = {
+  figures: FIGURES_SCHEMA,
+  report: REPORT_SCHEMA,
+  chat: CHAT_SCHEMA,
+};
+
+/**
+ * ผลลัพธ์จาก AI ไม่ผ่านการตรวจ Schema แม้ลองใหม่ครบจำนวนครั้งแล้ว
+ * เก็บรายการปัญหาไว้แสดงในหน้าข้อผิดพลาด
+ */
+export class AnalysisValidationError extends Error {
+  constructor(public issues: string[], public attempts: number) {
+    super(`ข้อมูลจาก AI ไม่ตรงตามรูปแบบที่กำหนด (ลอง ${attempts} ครั้ง)`);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+const allowedTypes = (schema: JsonSchema): string[] =>
+  Array.isArray(schema.type) ? schema.type : [schema.type];
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * ตรวจข้อมูลกับ JSON Schema แล้วคืนรายการข้อผิดพลาด (ว่าง = ผ่าน)
+ * ใช้ตรวจผลจากทุก Provider ด้วยเกณฑ์เดียวกัน
+ */
+export const validateAgainstSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  const allowed = allowedTypes(schema);
+  const actual = typeOf(value);
+  if (!allowed.includes(actual)) {
+    return [`${path}: ต้องเป็น ${allowed.join(' | ')} แต่ได้ ${actual}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path}: ต้องเป็นหนึ่งใน ${schema.enum.join(', ')} แต่ได้ "${String(value)}"`];
+  }
+  if (actual === 'array' && schema.items) {
+    return (value as unknown[]).flatMap((item, idx) => validateAgainstSchema(item, schema.items!, `${path}[${idx}]`));
+  }
+  if (actual === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+    return Object.entries(schema.properties).flatMap(([key, child]) => {
+      if (record[key] === undefined) {
+        return schema.required?.includes(key) ? [`${path}.${key}: ไม่มีข้อมูล`] : [];
+      }
+      return validateAgainstSchema(record[key], child, `${path}.${key}`);
+    });
+  }
+  return [];
+};
+
+const EMPTY_VALUES = ['', '-', 'null', 'n/a', 'na', 'none'];
+
+// "1,234", "(500)", "12.5%" -> ตัวเลข; คืน undefined ถ้าแปลงไม่ได้
+const toNumber = (value: string): number | undefined => {
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed);
+  const digits = trimmed.replace(/[(),%\s]/g, '');
+  const n = Number(digits);
+  if (!digits || !Number.isFinite(n)) return undefined;
+  return negative ? -n : n;
+};
+
+/**
+ * แก้ไขข้อมูลที่ผิดรูปแบบเล็กน้อยให้ตรง Schema ก่อนตรวจ
+ * - ตัวเลขที่ส่งมาเป็นข้อความ ("1,234", "(500)") และค่าว่าง ("N/A") ในช่องที่เป็น null ได้
+ * - ค่า enum ที่ตัวพิมพ์ไม่ตรง ("Increase" -> "increase")
+ * - ช่องที่เป็น null ได้แต่ไม่มีข้อมูล -> null
+ * - Array ที่หายไปหรือเป็น null -> [] และ null ในช่องที่ไม่บังคับ -> ตัดทิ้ง
+ * - ช่องที่ไม่อยู่ใน Schema -> ตัดทิ้ง
+ * ส่วนที่แก้ไม่ได้จะคงค่าเดิมไว้ให้ validateAgainstSchema รายงาน
+ */
+export const coerceToSchema = (value: unknown, schema: JsonSchema): unknown => {
+  const allowed = allowedTypes(schema);
+
+  if (value === undefined && allowed.includes('null')) return null;
+  if (allowed.includes('array')) {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) && schema.items ? value.map(item => coerceToSchema(item, schema.items!)) : value;
+  }
+  if (allowed.includes('object')) {
+    if (typeOf(value) !== 'object' || !schema.properties) return value;
+    const record = value as Record<string, unknown>;
+    const coerced: Record<string, unknown> = {};
+    Object.entries(schema.properties).forEach(([key, child]) => {
+      // null ในช่องที่ไม่บังคับ ถือว่าไม่มีข้อมูล
+      if (record[key] === null && !schema.required?.includes(key) && !allowedTypes(child).includes('null')) return;
+      const next = coerceToSchema(record[key], child);
+      if (next !== undefined) coerced[key] = next;
+    });
+    return coerced;
+  }
+  if (allowed.includes('number') && typeof value === 'string') {
+    if (allowed.includes('null') && EMPTY_VALUES.includes(value.trim().toLowerCase())) return null;
+    return toNumber(value) ?? value;
+  }
+  if (allowed.includes('string') && typeof value === 'number') {
+    return String(value);
+  }
+  if (schema.enum && typeof value === 'string') {
+    return schema.enum.find(option => option.toLowerCase() === value.trim().toLowerCase()) ?? value;
+  }
+  return value;
+};
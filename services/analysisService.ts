@@ -0,0 +1,447 @@
+import { AccountCategory, AnalysisInput, AnalysisResult, AnalysisStage, BudgetComparison, CashFlowAnalysis, ChatCitation, ChatMessage, ConsolidationResult, FinancialFigures, FinancialRatio, ForecastResult, LineItem, MaterialitySettings, SignificantChange, UploadedFile } from "../types";
+import { computeRatios, normalizeFigures, RATIO_DEFINITIONS } from "./ratioEngine";
+import { BenchmarkSettings, resolveBenchmark } from "./ratioBenchmarks";
+import { analyzeCashFlow } from "./cashFlowEngine";
+import { compareBudget } from "./budgetEngine";
+import { attachSources } from "./sourceRefs";
+import { reconcileAnalysis } from "./reconciliation";
+import { consolidatedFigures } from "./consolidationEngine";
+import { buildForecast, FORECAST_METHOD_LABELS, FORECAST_METRIC_LABELS, TOTAL_SERIES } from "./forecastEngine";
+import { applyMateriality, DEFAULT_MATERIALITY, describeRule, selectForReview } from "./materiality";
+import { AlignedLineItem, alignLineItems, computeVariances, orderPeriods, summarizePeriods } from "./varianceEngine";
+import { normalizeLabel } from "./spreadsheetParser";
+import { CATEGORY_LABELS, summarizeByCategory } from "./accountMapping";
+import {
+  AnalysisValidationError,
+  ANALYSIS_SCHEMAS,
+  coerceToSchema,
+  RawChatAnswer,
+  RawFigures,
+  RawReport,
+  SchemaName,
+  validateAgainstSchema,
+} from "./analysisSchema";
+import { createProvider, LlmProvider } from "./providers";
+
+// จำนวนครั้งสูงสุดที่เรียก AI เมื่อผลลัพธ์ไม่ผ่านการตรวจ Schema
+const MAX_ATTEMPTS = 3;
+// ขนาดบริบทของการถาม-ตอบ: จำนวนรายการในไฟล์ และจำนวนข้อความก่อนหน้าที่ส่งให้ AI
+const CHAT_MAX_LINE_ITEMS = 400;
+const CHAT_HISTORY_MESSAGES = 6;
+
+export const ANALYSIS_STAGES: { key: AnalysisStage; label: string }[] = [
+  { key: 'parse', label: 'อ่านและแปลงไฟล์' },
+  { key: 'figures', label: 'ดึงตัวเลขจากงบการเงิน' },
+  { key: 'ratios', label: 'คำนวณอัตราส่วนทางการเงิน' },
+  { key: 'variances', label: 'คำนวณผลต่างระหว่างงวด' },
+  { key: 'report', label: 'เขียนรายงานผู้บริหาร' },
+];
+
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  onStage?: (stage: AnalysisStage) => void; // เรียกเมื่อเริ่มแต่ละขั้น
+  onPartial?: (result: AnalysisResult) => void; // ผลบางส่วน (ตัวเลขและอัตราส่วน) ก่อนรายงานเสร็จ
+  benchmark?: BenchmarkSettings; // เกณฑ์ตัดสินสถานะของอัตราส่วน (ค่าเริ่มต้น: ชุดเกณฑ์ทั่วไป)
+  materiality?: MaterialitySettings; // เกณฑ์คัดรายการผลต่างที่มีสาระสำคัญ
+}
+
+// แปลงข้อความจาก AI เป็นข้อมูลตาม Schema หรือคืนรายการปัญหาที่พบ
+const parseResponse = <T>(text: string, schema: SchemaName): { value?: T; issues: string[] } => {
+  // ลบ Markdown Code Block ที่อาจติดมา
+  const cleanText = text.trim().replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanText);
+  } catch (error) {
+    return { issues: [`JSON ไม่สมบูรณ์: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const coerced = coerceToSchema(parsed, ANALYSIS_SCHEMAS[schema]);
+  const issues = validateAgainstSchema(coerced, ANALYSIS_SCHEMAS[schema]);
+  return issues.length > 0 ? { issues } : { value: coerced as T, issues };
+};
+
+// แนบปัญหาจากครั้งก่อนไว้ท้าย Prompt เพื่อให้ AI แก้ไขในครั้งถัดไป
+const describeIssues = (issues: string[]): string => [
+  '**ผลลัพธ์ครั้งก่อนไม่ผ่านการตรวจสอบ** กรุณาส่ง JSON ใหม่ทั้งหมดให้ตรงตาม Schema โดยแก้ไขปัญหาต่อไปนี้:',
+  ...issues.slice(0, 20).map(issue => `- ${issue}`),
+].join('\n');
+
+// เรียก AI แล้วตรวจผล หากไม่ผ่านให้ลองใหม่พร้อมแจ้งปัญหา (สูงสุด MAX_ATTEMPTS ครั้ง)
+const requestJson = async <T>(
+  provider: LlmProvider,
+  schema: SchemaName,
+  prompt: string,
+  files: UploadedFile[],
+  signal?: AbortSignal
+): Promise<T> => {
+  let issues: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    signal?.throwIfAborted();
+    const text = await provider.generateJson({
+      prompt: issues.length > 0 ? `${prompt}\n${describeIssues(issues)}` : prompt,
+      files,
+      schema,
+      signal,
+    });
+    const result = parseResponse<T>(text, schema);
+    if (result.value) return result.value;
+    issues = result.issues;
+  }
+  throw new AnalysisValidationError(issues, MAX_ATTEMPTS);
+};
+
+// อัตราส่วนที่ระบบคำนวณแล้ว ให้ AI ใช้เขียนรายงาน (AI ห้ามคำนวณใหม่)
+// ค่ากลางอุตสาหกรรมเป็นค่าตัวอย่าง (ไม่มีแหล่งข้อมูล) จึงบอก AI ไม่ให้อ้างเป็นข้อเท็จจริง
+const describeRatios = (ratios: FinancialRatio[]): string => [
+  '**อัตราส่วนทางการเงินที่ระบบคำนวณแล้ว:**',
+  ...(ratios.some(r => r.benchmark?.median !== undefined)
+    ? ['(ค่ากลางอุตสาหกรรมเป็นค่าตัวอย่างโดยประมาณ ไม่ใช่สถิติที่ตรวจสอบแล้ว หากกล่าวถึงให้ระบุว่าเป็นค่าประมาณ ห้ามอ้างว่าเป็นค่ามัธยฐานของ SET)']
+    : []),
+  ...ratios.map(r => {
+    const median = r.benchmark?.median === undefined ? '' : `, ค่ากลางอุตสาหกรรมโดยประมาณ ${r.benchmark.median} ${r.unit}`;
+    return `- ${r.name}: ${r.value === null ? 'คำนวณไม่ได้' : `${r.value} ${r.unit}`} (${r.status}${median})`;
+  }),
+].join('\n');
+
+type ComputedChange = SignificantChange & Required<Pick<SignificantChange, 'basis'>>;
+
+const hasBasis = (change: SignificantChange): change is ComputedChange => change.basis !== undefined;
+
+// ตารางผลต่างที่คำนวณแล้ว ส่งให้ AI อธิบายสาเหตุ (AI ห้ามแก้ตัวเลข) — ใช้เฉพาะรายการที่มีตัวเลขของทั้งสองงวด
+const describeVariances = (changes: SignificantChange[]): string => {
+  const computed = changes.filter(hasBasis);
+  if (computed.length === 0) return '';
+  const { fromPeriod, toPeriod } = computed[0].basis;
+  const rows = computed.map(c =>
+    `| ${c.item} | ${c.basis.fromAmount.toLocaleString()} | ${c.basis.toAmount.toLocaleString()} | ${c.amount.toLocaleString()} | ${c.percentage} |`
+  );
+  return [
+    `**ผลต่างที่ระบบคำนวณแล้ว (${fromPeriod} → ${toPeriod}):**`,
+    `| รายการ | ${fromPeriod} | ${toPeriod} | ผลต่าง | % |`,
+    '|---|---|---|---|---|',
+    ...rows,
+    'ให้อธิบายสาเหตุและระบุหน่วยงานของทุกรายการในตารางนี้ใน varianceComments โดยใช้ชื่อรายการตามตาราง',
+  ].join('\n');
+};
+
+// กระแสเงินสดที่ระบบคำนวณแล้ว ให้ AI วิเคราะห์เงินสดจากการดำเนินงานเทียบกับกำไร
+const describeCashFlow = (cashFlow?: CashFlowAnalysis): string => {
+  if (!cashFlow) return '';
+  const method = cashFlow.method === 'direct' ? 'จากงบกระแสเงินสด' : `คำนวณทางอ้อมจากงบดุล ${cashFlow.fromPeriod} → ${cashFlow.period}`;
+  const format = (value: number | null, unit = '') => (value === null ? 'คำนวณไม่ได้' : `${value.toLocaleString()}${unit}`);
+  return [
+    `**กระแสเงินสดที่ระบบคำนวณแล้ว (${method}):**`,
+    `- กิจกรรมดำเนินงาน: ${format(cashFlow.operating)} / ลงทุน: ${format(cashFlow.investing)} / จัดหาเงิน: ${format(cashFlow.financing)}`,
+    `- กำไรสุทธิ: ${format(cashFlow.netIncome)}, กระแสเงินสดอิสระ: ${format(cashFlow.freeCashFlow)}`,
+    `- Cash Conversion: ${format(cashFlow.cashConversion, ' เท่า')}, Operating Cash Flow Ratio: ${format(cashFlow.operatingCashFlowRatio, ' เท่า')}`,
+    ...cashFlow.notes.map(note => `- หมายเหตุ: ${note}`),
+  ].join('\n');
+};
+
+const describeBudget = (budget?: BudgetComparison): string => {
+  if (!budget) return '';
+  const format = (value: number, percent: number | null) =>
+    `${value >= 0 ? '+' : ''}${value.toLocaleString()}${percent === null ? '' : ` (${percent >= 0 ? '+' : ''}${percent}%)`}`;
+  return [
+    `**งบประมาณเทียบผลจริงที่ระบบคำนวณแล้ว (งบประมาณ ${budget.budgetPeriod} / ผลจริง ${budget.actualPeriod}, ผลต่าง = จริง − งบ):**`,
+    ...budget.departments.map(d =>
+      `- ${d.name}: รายได้ ${format(d.revenue.variance, d.revenue.variancePercent)}, รายจ่าย ${format(d.expense.variance, d.expense.variancePercent)}, กำไร ${format(d.profit.variance, d.profit.variancePercent)} (${d.profit.favorable ? 'ดีกว่างบ' : 'ต่ำกว่างบ'})`
+    ),
+    ...budget.notes.map(note => `- หมายเหตุ: ${note}`),
+  ].join('\n');
+};
+
+// งบการเงินรวมที่คำนวณแล้ว: AI ใช้ชื่อบริษัทเป็นหน่วยงาน และใช้ตัวเลขหลังตัดรายการระหว่างกันสำหรับภาพรวมของกลุ่ม
+const describeConsolidation = (consolidation?: ConsolidationResult): string => {
+  if (!consolidation) return '';
+  const { period, entities, eliminations } = consolidation;
+  return [
+    `**งบการเงินรวมที่ระบบคำนวณแล้ว (งวด ${period}, ตัดรายการระหว่างกันแล้ว):**`,
+    `- รายได้ ${consolidation.revenue.toLocaleString()}, ค่าใช้จ่าย ${consolidation.expense.toLocaleString()}, กำไรสุทธิ ${consolidation.profit.toLocaleString()} (ส่วนของบริษัทใหญ่ ${consolidation.profitToParent.toLocaleString()}, ส่วนได้เสียที่ไม่มีอำนาจควบคุม ${consolidation.nciProfit.toLocaleString()})`,
+    ...(consolidation.nciEquity !== null ? [`- ส่วนได้เสียที่ไม่มีอำนาจควบคุมในส่วนของผู้ถือหุ้น: ${consolidation.nciEquity.toLocaleString()}`] : []),
+    ...(consolidation.goodwill !== null ? [`- ค่าความนิยมจากการตัดเงินลงทุน: ${consolidation.goodwill.toLocaleString()}`] : []),
+    ...entities.map(e =>
+      `- บริษัท ${e.name}${e.parent ? ' (บริษัทใหญ่)' : ` (ถือหุ้น ${e.ownership}%)`}: รายได้ ${e.revenue.toLocaleString()}, ค่าใช้จ่าย ${e.expense.toLocaleString()}, กำไร ${e.profit.toLocaleString()} (ก่อนตัดรายการระหว่างกัน)`
+    ),
+    ...eliminations.filter(e => e.period === period && e.eliminated > 0).map(e => `- ตัดรายการระหว่างกัน ${e.pair}: ${e.eliminated.toLocaleString()}`),
+    ...consolidation.notes.map(note => `- หมายเหตุ: ${note}`),
+    'ไฟล์แต่ละไฟล์คือหนึ่งบริษัท (หัวข้อ "## บริษัท: ชื่อ") ให้ใช้ชื่อบริษัทตามรายการด้านบนเป็นหน่วยงานใน departments และวิเคราะห์ภาพรวมจากตัวเลขงบการเงินรวม',
+  ].join('\n');
+};
+
+// ค่าคาดการณ์ที่ให้ AI ใช้เขียนส่วน "แนวโน้มในอนาคต" (ไม่รวมรายจ่ายของหน่วยงานเพื่อให้ prompt สั้น)
+const describeForecast = (forecast?: ForecastResult): string => {
+  if (!forecast) return '**ค่าคาดการณ์:** ข้อมูลย้อนหลังไม่ถึง 3 งวด ระบบจึงไม่ได้คาดการณ์ ให้ระบุในรายงานว่าไม่มีตัวเลขคาดการณ์';
+  return [
+    `**ค่าคาดการณ์ที่ระบบคำนวณแล้ว (วิธี${FORECAST_METHOD_LABELS[forecast.method]}, ช่วงความเชื่อมั่น 95%):**`,
+    ...forecast.series
+      .filter(s => s.department === TOTAL_SERIES || s.metric !== 'expense')
+      .map(s => `- ${FORECAST_METRIC_LABELS[s.metric]} ${s.department}: ล่าสุด ${s.history[s.history.length - 1].value.toLocaleString()} → ${
+        s.forecast.map(p => `${p.period}: ${Math.round(p.value).toLocaleString()} (${Math.round(p.lower).toLocaleString()}–${Math.round(p.upper).toLocaleString()})`).join(', ')
+      }`),
+    ...forecast.notes.map(note => `- หมายเหตุ: ${note}`),
+  ].join('\n');
+};
+
+// เกณฑ์ความมีสาระสำคัญ ใช้เมื่อ AI ต้องหารายการผลต่างเอง (ไฟล์มีงวดเดียวหรือระบบจับคู่งวดไม่ได้)
+const describeMateriality = (settings: MaterialitySettings): string => [
+  `**เกณฑ์ความมีสาระสำคัญ:** ${describeRule(settings.default)} (ไม่เกิน ${settings.maxItems} รายการ)`,
+  ...Object.entries(settings.departments).map(([dept, rule]) => `- หน่วยงาน ${dept}: ${describeRule(rule)}`),
+].join('\n');
+
+// ยอดรวมตามผังบัญชีมาตรฐาน ให้ AI ใช้จัดกลุ่มรายการแบบเดียวกันทุกครั้ง
+const describeCategories = (lineItems: LineItem[], periods: string[]): string => {
+  const summary = summarizeByCategory(lineItems);
+  const categories = (Object.keys(CATEGORY_LABELS) as AccountCategory[])
+    .filter(c => periods.some(p => summary[p]?.[c] !== undefined));
+  if (categories.length === 0) return '';
+  return [
+    '**ยอดรวมตามผังบัญชีมาตรฐาน (จัดหมวดโดยระบบแล้ว ให้ใช้หมวดนี้ในการวิเคราะห์):**',
+    `| หมวดบัญชี | ${periods.join(' | ')} |`,
+    `|---|${periods.map(() => '---').join('|')}|`,
+    ...categories.map(c => `| ${CATEGORY_LABELS[c]} | ${periods.map(p => (summary[p]?.[c] ?? 0).toLocaleString()).join(' | ')} |`),
+  ].join('\n');
+};
+
+const ROLE = `
+    คุณคือ CFO และผู้เชี่ยวชาญด้านการวิเคราะห์งบการเงิน (Financial Analyst) ระดับสูง
+    หน้าที่ของคุณคือการวิเคราะห์ไฟล์ข้อมูลการเงินที่ได้รับ (Excel/CSV/PDF) เพื่อสร้างรายงานเชิงลึกที่อ่านง่ายและสวยงาม
+`;
+
+const FIGURES_PROMPT = `${ROLE}
+    **คำสั่ง: ดึงตัวเลขจากงบ (Financial Figures)**
+    *   ดึงตัวเลขงวดล่าสุดตามที่ปรากฏในไฟล์: สินทรัพย์หมุนเวียน, หนี้สินหมุนเวียน, สินทรัพย์รวม, หนี้สินรวม, ส่วนของผู้ถือหุ้น, รายได้รวม, กำไรสุทธิ
+    *   **ห้ามคำนวณหรือประมาณค่าเอง** หากไม่พบตัวเลขใดในไฟล์ให้ใส่ null
+    *   ข้อมูล Excel แบ่งเป็นส่วนตามหัวข้อ "### Sheet: ชื่อ Sheet (ประเภทงบ)" ให้ระบุใน figureSources ว่าตัวเลขแต่ละตัวมาจาก Sheet ใด
+    *   ระบบจะคำนวณอัตราส่วนเองจากตัวเลขเหล่านี้ (${RATIO_DEFINITIONS.map(d => `${d.name} = ${d.formula}`).join('; ')})
+    *   ให้เขียนคำอธิบายสั้นๆ ที่เข้าใจง่ายของแต่ละอัตราส่วนใน ratioComments
+    *   สรุปรายได้ รายจ่าย กำไร แยกตามหน่วยงาน (Department) ใน departments (เช่น "การไฟฟ้า", "BusA") หากไม่พบให้ใช้ "General"
+
+    **รูปแบบข้อมูล JSON Output:**
+`;
+
+const REPORT_PROMPT = `${ROLE}
+    **คำสั่งการวิเคราะห์:**
+
+    1.  **Significant Variance (รายการผิดปกติ):**
+        *   ค้นหารายการที่เพิ่ม/ลดอย่างมีนัยสำคัญตามเกณฑ์ความมีสาระสำคัญด้านล่าง (หากมีตารางผลต่างที่ระบบคำนวณแล้ว ให้ใช้ตัวเลขจากตารางนั้นเท่านั้น)
+        *   **ต้องระบุหน่วยงาน (Department)** ให้ชัดเจนที่สุดเท่าที่จะหาได้จากไฟล์ (เช่น "การไฟฟ้า", "BusA") หากไม่พบให้ระบุ "General"
+
+    2.  **Formal Executive Report (บทรายงานผู้บริหาร):**
+        *   ใช้อัตราส่วนที่ระบบคำนวณแล้วด้านล่างเท่านั้น ห้ามคำนวณใหม่
+        *   เขียนในรูปแบบ **Markdown** ที่สวยงาม (ใช้ Header #, Bullet points, Bold text)
+        *   ใช้ภาษาไทยที่เป็นทางการแต่ **"อ่านง่าย เข้าใจง่าย"** (Professional yet Accessible)
+        *   **โครงสร้างรายงาน:**
+            *   ## 1. บทสรุปผู้บริหาร (Executive Summary): สรุปประเด็นสำคัญที่สุด 3-4 ข้อ
+            *   ## 2. ผลการดำเนินงาน (Performance): วิเคราะห์รายได้และกำไร แยกตามหน่วยงาน (ถ้ามี) และเทียบกับงบประมาณ (ถ้ามีข้อมูลงบประมาณ) งบการเงินรวมให้แยกตามบริษัทในกลุ่ม และระบุกำไรส่วนของบริษัทใหญ่และส่วนได้เสียที่ไม่มีอำนาจควบคุม
+            *   ## 3. สุขภาพทางการเงิน (Financial Health): วิเคราะห์สภาพคล่อง หนี้สิน และเงินสดจากการดำเนินงานเทียบกับกำไร (ถ้ามีข้อมูลกระแสเงินสด)
+            *   ## 4. แนวโน้มในอนาคต (Future Outlook): ใช้ค่าคาดการณ์ที่ระบบคำนวณแล้วด้านล่างเท่านั้น ระบุตัวเลข ช่วงความเชื่อมั่น และวิธีที่ใช้ ห้ามคาดการณ์ตัวเลขเอง
+            *   ## 5. ข้อเสนอแนะเชิงกลยุทธ์ (Strategic Recommendations): สิ่งที่ควรทำต่อไป
+
+    **รูปแบบข้อมูล JSON Output:**
+`;
+
+// ข้อผิดพลาดของการวิเคราะห์: ผู้ใช้ยกเลิกหรือผลไม่ผ่าน Schema ส่งต่อตามเดิม นอกนั้นแปลงเป็นข้อความภาษาไทย
+const toAnalysisError = (error: unknown, signal?: AbortSignal): unknown => {
+  if (signal?.aborted) return error;
+  console.error("Analysis Error:", error);
+  if (error instanceof AnalysisValidationError) return error;
+  return new Error("เกิดข้อผิดพลาดในการวิเคราะห์ข้อมูล: " + (error instanceof Error ? error.message : String(error)));
+};
+
+// ผลต่างที่คำนวณในเครื่องทั้งหมด และรายการที่ส่งให้ AI อธิบาย (ใช้ทั้งตอนคำนวณครั้งแรกและตอนเขียนรายงานใหม่)
+const localVariances = (aligned: AlignedLineItem[], periodOrder: string[], materiality: MaterialitySettings, figures: FinancialFigures) => {
+  const computed = computeVariances(aligned, periodOrder);
+  return { computed, review: selectForReview(computed, materiality, figures) };
+};
+
+/**
+ * ขั้นที่ 2: เขียนรายงานผู้บริหารจากผลบางส่วน (AI) — เรียกซ้ำได้เมื่อขั้นนี้ล้มเหลว โดยไม่ต้องดึงตัวเลขใหม่
+ */
+export const writeReport = async (
+  { files, lineItems, consolidation }: AnalysisInput,
+  partial: AnalysisResult,
+  { signal, onStage, materiality = DEFAULT_MATERIALITY }: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  try {
+    const periodOrder = orderPeriods(lineItems);
+    const { ratios, cashFlow, budget, forecast, figures } = partial;
+    const { computed: computedChanges, review: reviewChanges } = localVariances(alignLineItems(lineItems), periodOrder, materiality, figures);
+
+    onStage?.('report');
+    const { varianceComments, ...report } = await requestJson<RawReport>(
+      createProvider(), 'report', [REPORT_PROMPT, describeConsolidation(consolidation), describeRatios(ratios), describeCashFlow(cashFlow), describeBudget(budget), describeForecast(forecast), describeCategories(lineItems, periodOrder), describeMateriality(materiality), describeVariances(reviewChanges)].join('\n'), files, signal
+    );
+
+    // ใช้ตัวเลขผลต่างที่คำนวณเอง เติมเฉพาะคำอธิบายจาก AI
+    let varianceCandidates = report.significantChanges;
+    if (computedChanges.length > 0) {
+      const comments = new Map((varianceComments || []).map(c => [normalizeLabel(c.item), c]));
+      varianceCandidates = computedChanges.map(change => {
+        const comment = comments.get(normalizeLabel(change.item));
+        return { ...change, reason: comment?.reason || '', relatedDepartment: comment?.relatedDepartment };
+      });
+    }
+
+    // คัดอีกครั้งหลังรู้หน่วยงานของแต่ละรายการ เพื่อใช้เกณฑ์เฉพาะหน่วยงาน
+    const result = attachSources({
+      ...partial,
+      ...report,
+      significantChanges: applyMateriality(varianceCandidates, materiality, figures),
+      varianceCandidates,
+    }, lineItems);
+    // ตรวจตัวเลขของ AI กับไฟล์อีกครั้งหลังได้รายงาน (ผลต่างที่ AI หาเองมาพร้อมรายงาน)
+    return { ...result, reconciliation: reconcileAnalysis(result, lineItems) };
+  } catch (error) {
+    throw toAnalysisError(error, signal);
+  }
+};
+
+/**
+ * วิเคราะห์งบการเงินเป็นขั้นตอน: ดึงตัวเลข (AI) → อัตราส่วนและผลต่าง (คำนวณในเครื่อง) → รายงาน (AI)
+ * ส่งผลบางส่วนผ่าน onPartial ทันทีที่คำนวณอัตราส่วนเสร็จ เพื่อแสดง Dashboard ก่อนรายงานเสร็จ
+ */
+export const analyzeFinancialData = async (
+  input: AnalysisInput,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const { files, lineItems, budgetItems = [], consolidation } = input;
+  const { signal, onStage, onPartial, benchmark, materiality = DEFAULT_MATERIALITY } = options;
+  let partial: AnalysisResult;
+  try {
+    const provider = createProvider();
+    const periodOrder = orderPeriods(lineItems);
+
+    onStage?.('figures');
+    const { figures: rawFigures, ratioComments, figureSources, ...extracted } = await requestJson<RawFigures>(
+      provider, 'figures', [FIGURES_PROMPT, describeConsolidation(consolidation), describeCategories(lineItems, periodOrder)].join('\n'), files, signal
+    );
+
+    onStage?.('ratios');
+    // งบการเงินรวม: ใช้ยอดตามหมวดบัญชีหลังตัดรายการระหว่างกันแทนตัวเลขที่ AI อ่านจากไฟล์ของแต่ละบริษัท
+    const figures = consolidation
+      ? consolidatedFigures(lineItems, consolidation.period, normalizeFigures(rawFigures))
+      : normalizeFigures(rawFigures);
+    const descriptions = Object.fromEntries((ratioComments || []).map(c => [c.key, c.description]));
+    const sources = Object.fromEntries((figureSources || []).map(s => [s.key, s.source]));
+    const ratios = computeRatios(figures, descriptions, sources, resolveBenchmark(benchmark));
+
+    // คำนวณผลต่างระหว่างงวดในเครื่อง (ถ้ามีข้อมูลมากกว่า 1 งวด)
+    onStage?.('variances');
+    const aligned = alignLineItems(lineItems);
+    const { review: reviewChanges } = localVariances(aligned, periodOrder, materiality, figures);
+    const periods = periodOrder.length >= 2 ? summarizePeriods(aligned, periodOrder) : [];
+    const cashFlow = analyzeCashFlow(aligned, periodOrder, figures);
+    const departmentNames = (extracted.departments || []).map(d => d.name);
+    const budget = compareBudget(lineItems, budgetItems, departmentNames);
+    const forecast = buildForecast(lineItems, periodOrder, periods, departmentNames);
+
+    const linked = attachSources<AnalysisResult>({
+      overallAnalysis: '',
+      formalReport: '',
+      ...extracted,
+      significantChanges: applyMateriality(reviewChanges, materiality, figures),
+      periods,
+      figures,
+      ratios,
+      cashFlow,
+      budget,
+      forecast,
+      consolidation,
+    }, lineItems);
+    partial = { ...linked, reconciliation: reconcileAnalysis(linked, lineItems) };
+  } catch (error) {
+    throw toAnalysisError(error, signal);
+  }
+  onPartial?.(partial);
+  return writeReport(input, partial, options);
+};
+
+// ผลวิเคราะห์และข้อมูลจากไฟล์ที่ใช้เป็นบริบทของการถาม-ตอบ (ไม่ส่งไฟล์ต้นฉบับซ้ำ)
+const describeAnalysis = (result: AnalysisResult, lineItems: LineItem[]): string => [
+  `**บทสรุปจากการวิเคราะห์:** ${result.overallAnalysis}`,
+  describeRatios(result.ratios),
+  '**ผลการดำเนินงานตามหน่วยงาน:**',
+  ...result.departments.map(d => `- ${d.name}: รายรับ ${d.revenue.toLocaleString()}, รายจ่าย ${d.expense.toLocaleString()}, กำไร ${d.profit.toLocaleString()}`),
+  '**รายการผลต่างที่มีนัยสำคัญ (อ้างอิงด้วย type "change" และชื่อรายการ):**',
+  '| รายการ | หน่วยงาน | ผลต่าง | % | สาเหตุ |',
+  '|---|---|---|---|---|',
+  ...result.significantChanges.map(c =>
+    `| ${c.item} | ${c.relatedDepartment || '-'} | ${c.amount.toLocaleString()} | ${c.percentage} | ${c.reason || '-'} |`
+  ),
+  ...(lineItems.length > 0
+    ? [
+        '**รายการจากไฟล์ที่อัปโหลด (อ้างอิงด้วย type "lineItem" และชื่อรายการ):**',
+        '| รายการ | งวด | จำนวนเงิน | Sheet |',
+        '|---|---|---|---|',
+        ...lineItems.slice(0, CHAT_MAX_LINE_ITEMS).map(i => `| ${i.label} | ${i.period} | ${i.amount.toLocaleString()} | ${i.sheet || '-'} |`),
+      ]
+    : []),
+].join('\n');
+
+const describeHistory = (history: ChatMessage[]): string => {
+  const recent = history.slice(-CHAT_HISTORY_MESSAGES);
+  if (recent.length === 0) return '';
+  return [
+    '**บทสนทนาก่อนหน้า:**',
+    ...recent.map(m => `${m.role === 'user' ? 'ผู้ใช้' : 'ผู้ช่วย'}: ${m.content}`),
+  ].join('\n');
+};
+
+// เก็บเฉพาะแหล่งอ้างอิงที่มีอยู่จริงในข้อมูล (ตัดรายการที่ AI แต่งขึ้นและรายการซ้ำ)
+const resolveCitations = (citations: ChatCitation[], result: AnalysisResult, lineItems: LineItem[]): ChatCitation[] => {
+  const known: Record<ChatCitation['type'], Map<string, string>> = {
+    change: new Map(result.significantChanges.map(c => [normalizeLabel(c.item), c.item])),
+    lineItem: new Map(lineItems.map(i => [normalizeLabel(i.label), i.label])),
+  };
+  const seen = new Set<string>();
+  return citations.flatMap(citation => {
+    const ref = known[citation.type].get(normalizeLabel(citation.ref));
+    const key = `${citation.type}:${ref}`;
+    if (!ref || seen.has(key)) return [];
+    seen.add(key);
+    return [{ type: citation.type, ref }];
+  });
+};
+
+const CHAT_PROMPT = `${ROLE}
+    **คำสั่ง: ตอบคำถามเพิ่มเติมเกี่ยวกับผลการวิเคราะห์**
+    *   ตอบด้วยภาษาเดียวกับคำถาม (ไทยหรืออังกฤษ) กระชับ ตรงประเด็น ใช้ Markdown ได้
+    *   ใช้เฉพาะข้อมูลด้านล่าง ห้ามแต่งตัวเลขขึ้นเอง หากข้อมูลไม่พอให้บอกตรงๆ
+    *   ระบุรายการที่ใช้ตอบใน citations โดยใช้ชื่อรายการตามที่ปรากฏในตารางเท่านั้น
+`;
+
+/**
+ * ตอบคำถามเพิ่มเติมจากผลวิเคราะห์ปัจจุบันและรายการในไฟล์ที่อัปโหลด
+ * คืนข้อความของผู้ช่วยพร้อมแหล่งอ้างอิงที่ตรวจแล้วว่ามีอยู่จริง
+ */
+export const answerFollowUp = async (
+  question: string,
+  { result, lineItems = [], history = [] }: { result: AnalysisResult; lineItems?: LineItem[]; history?: ChatMessage[] },
+  signal?: AbortSignal
+): Promise<ChatMessage> => {
+  try {
+    const prompt = [
+      CHAT_PROMPT,
+      describeAnalysis(result, lineItems),
+      describeHistory(history),
+      `**คำถาม:** ${question}`,
+      '**รูปแบบข้อมูล JSON Output:**',
+    ].join('\n');
+    const { answer, citations } = await requestJson<RawChatAnswer>(createProvider(), 'chat', prompt, [], signal);
+    return {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: answer,
+      citations: resolveCitations(citations, result, lineItems),
+      createdAt: Date.now(),
+    };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Chat Error:", error);
+    if (error instanceof AnalysisValidationError) throw error;
+    throw new Error("เกิดข้อผิดพลาดในการตอบคำถาม: " + (error instanceof Error ? error.message : String(error)));
+  }
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { LineItem } from '../types';
+import { compareBudget, ELIMINATION_ENTITY, GENERAL_DEPARTMENT, lineItemDepartment, lineItemKind } from './budgetEngine';
+
+const line = (label: string, amount: number, sheet: string, period = '2567', extra: Partial<LineItem> = {}): LineItem => ({
+  label, period, amount, sheet, ...extra,
+});
+
+const actual = [
+  line('รายได้จากการขาย', 1_100, 'BusA'),
+  line('ค่าน้ำมัน', 450, 'BusA'),
+  line('รายได้จากการขาย', 450, 'BusB'),
+  line('ค่าซ่อมบำรุง', 80, 'BusB'),
+  line('รายได้จากการขาย', 900, 'BusA', '2566'),
+];
+
+const budget = [
+  line('รายได้จากการขาย', 1_000, 'BusA'),
+  line('ค่าน้ำมัน', 400, 'BusA'),
+  line('รายได้จากการขาย', 600, 'BusB'),
+  line('ค่าจ้างเหมา', 50, 'BusB'),
+];
+
+describe('lineItemKind', () => {
+  it('แยกรายได้/รายจ่ายตามหมวดบัญชีหรือชื่อรายการ และไม่นับยอดรวม กำไรสุทธิ หรือรายการในงบดุล', () => {
+    expect(lineItemKind(line('ค่าน้ำมัน', 1, 'BusA'))).toBe('expense');
+    expect(lineItemKind(line('รายได้ค่าบริการ', 1, 'BusA'))).toBe('revenue');
+    expect(lineItemKind(line('รวมรายได้', 1, 'BusA'))).toBeNull();
+    expect(lineItemKind(line('กำไรสุทธิ', 1, 'BusA'))).toBeNull();
+    expect(lineItemKind(line('ค่าใช้จ่ายค้างจ่าย', 1, 'BusA', '2567', { statement: 'balanceSheet' }))).toBeNull();
+  });
+});
+
+describe('lineItemDepartment', () => {
+  it('ใช้บริษัท/คอลัมน์หน่วยงานก่อนชื่อ Sheet และ Sheet ที่เป็นชื่องบคือภาพรวม', () => {
+    const known = new Map([['busa', 'BusA']]);
+    expect(lineItemDepartment(line('x', 1, 'busa'), known)).toBe('BusA');
+    expect(lineItemDepartment(line('x', 1, 'BusA', '2567', { department: 'ฝ่ายขาย' }), known)).toBe('ฝ่ายขาย');
+    expect(lineItemDepartment(line('x', 1, 'งบกำไรขาดทุน'), known)).toBe(GENERAL_DEPARTMENT);
+  });
+});
+
+describe('compareBudget', () => {
+  it('เทียบงวดล่าสุดแยกตามหน่วยงาน และตัดสินว่าผลต่างเป็นผลดีหรือไม่', () => {
+    const result = compareBudget(actual, budget)!;
+    expect(result).toMatchObject({ budgetPeriod: '2567', actualPeriod: '2567' });
+    const busA = result.departments.find(d => d.name === 'BusA')!;
+    expect(busA.revenue).toMatchObject({ budget: 1_000, actual: 1_100, variance: 100, variancePercent: 10, favorable: true });
+    expect(busA.expense).toMatchObject({ variance: 50, favorable: false });
+    expect(busA.profit).toMatchObject({ budget: 600, actual: 650, favorable: true });
+    expect(result.items[0]).toMatchObject({ item: 'รายได้จากการขาย', department: 'BusB', variance: -150, favorable: false });
+    expect(result.notes).toEqual([
+      'มี 1 รายการที่ไม่มีในงบประมาณ (งบประมาณ = 0)',
+      'มี 1 รายการในงบประมาณที่ไม่พบในผลจริงงวด 2567',
+    ]);
+  });
+
+  it('ไม่มีงวดเดียวกัน: ใช้งวดล่าสุดของงบประมาณและแจ้งไว้', () => {
+    const result = compareBudget(actual, budget.map(i => ({ ...i, period: '2566' })))!;
+    expect(result.budgetPeriod).toBe('2566');
+    expect(result.notes).toContain('เทียบงบประมาณงวด 2566 กับผลจริงงวด 2567');
+  });
+
+  it('ไม่นำรายการตัดบัญชีระหว่างกันมาเป็นหน่วยงาน', () => {
+    const elimination = line('รายได้จากการขาย', -100, 'BusA', '2567', { entity: ELIMINATION_ENTITY });
+    const result = compareBudget([...actual, elimination], budget)!;
+    expect(result.departments.map(d => d.name)).not.toContain(ELIMINATION_ENTITY);
+  });
+
+  it('ไม่มีรายการที่เทียบได้: ไม่มีผลเทียบงบประมาณ', () => {
+    expect(compareBudget(actual, [])).toBeUndefined();
+  });
+});
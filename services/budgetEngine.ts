@@ -0,0 +1,136 @@
+import { BudgetComparison, BudgetFigure, BudgetLine, DepartmentBudget, LineItem } from "../types";
+import { EXPENSE_CATEGORIES, REVENUE_CATEGORIES } from "./accountMapping";
+import { orderPeriods } from "./varianceEngine";
+import { classifyStatement, normalizeLabel } from "./spreadsheetParser";
+
+const REVENUE_PATTERN = /รายได้|รายรับ|ยอดขาย|revenue|sales|income/i;
+// รายการที่ยังไม่อยู่ในผังบัญชี: งบประมาณรายจ่ายมักตั้งชื่อว่า "ค่า..." (เช่น ค่าน้ำมัน ค่าซ่อมบำรุง)
+const EXPENSE_PATTERN = /^ค่า|ค่าใช้จ่าย|ต้นทุน|รายจ่าย|expense|cost/i;
+const TOTAL_PATTERN = /รวม|total/i;
+const NET_PATTERN = /สุทธิ|net/i;
+
+// ชื่อเดียวกับที่ AI ใช้เมื่อไม่พบหน่วยงาน
+export const GENERAL_DEPARTMENT = 'General';
+
+// บริษัทของรายการตัดบัญชีในงบการเงินรวม: ไม่ใช่หน่วยงาน จึงไม่นำมาเทียบงบประมาณหรือคาดการณ์รายหน่วยงาน
+export const ELIMINATION_ENTITY = 'ตัดรายการระหว่างกัน';
+
+type Kind = BudgetLine['kind'];
+
+// รายการที่นำมาเทียบงบประมาณ/คาดการณ์: เฉพาะรายได้/รายจ่าย ไม่รวมบรรทัดยอดรวมหรือกำไรสุทธิ (กันนับซ้ำ)
+export const lineItemKind = (item: LineItem): Kind | null => {
+  if (item.statement === 'balanceSheet' || item.statement === 'cashFlow') return null;
+  if (item.category) {
+    if (REVENUE_CATEGORIES.includes(item.category)) return 'revenue';
+    if (EXPENSE_CATEGORIES.includes(item.category)) return 'expense';
+    return null;
+  }
+  const label = normalizeLabel(item.label);
+  if (TOTAL_PATTERN.test(label) || NET_PATTERN.test(label)) return null;
+  if (REVENUE_PATTERN.test(label)) return 'revenue';
+  if (EXPENSE_PATTERN.test(label)) return 'expense';
+  return null;
+};
+
+// ชื่อหน่วยงานจากผลวิเคราะห์ (ค้นด้วยชื่อที่ normalize แล้ว) ใช้สะกดชื่อให้ตรงกัน
+export const departmentLookup = (names: string[]): Map<string, string> =>
+  new Map(names.map(name => [normalizeLabel(name), name]));
+
+/**
+ * หน่วยงานของรายการมาจากบริษัทในกลุ่ม (งบการเงินรวม) คอลัมน์หน่วยงาน (ถ้าผู้ใช้ระบุ) หรือชื่อ Sheet (เช่น Sheet "BusA")
+ * Sheet ที่ตั้งชื่อเป็นงบการเงิน (เช่น "งบกำไรขาดทุน") ถือเป็นภาพรวมของกิจการ
+ */
+export const lineItemDepartment = (item: LineItem, known: Map<string, string>): string => {
+  const named = item.entity ?? item.department;
+  if (named) return known.get(normalizeLabel(named)) ?? named;
+  if (!item.sheet || classifyStatement(item.sheet) !== 'other') return GENERAL_DEPARTMENT;
+  return known.get(normalizeLabel(item.sheet)) ?? item.sheet.trim();
+};
+
+const budgetFigure = (budget: number, actual: number, higherIsBetter: boolean): BudgetFigure => {
+  const variance = actual - budget;
+  return {
+    budget,
+    actual,
+    variance,
+    variancePercent: budget === 0 ? null : Number(((variance / Math.abs(budget)) * 100).toFixed(1)),
+    favorable: higherIsBetter ? variance >= 0 : variance <= 0,
+  };
+};
+
+interface Totals {
+  department: string;
+  item: string;
+  kind: Kind;
+  budget: number;
+  actual: number;
+  inBudget: boolean;
+  inActual: boolean;
+}
+
+/**
+ * เทียบงบประมาณกับผลจริงของงวดล่าสุด แยกตามหน่วยงานและรายการบัญชี
+ * ใช้งวดเดียวกันในไฟล์งบประมาณถ้ามี ไม่เช่นนั้นใช้งวดล่าสุดของไฟล์งบประมาณ
+ * departmentNames คือชื่อหน่วยงานจากผลวิเคราะห์ ใช้สะกดชื่อให้ตรงกัน
+ */
+export const compareBudget = (
+  actualItems: LineItem[],
+  budgetItems: LineItem[],
+  departmentNames: string[] = []
+): BudgetComparison | undefined => {
+  const actualPeriods = orderPeriods(actualItems);
+  const budgetPeriods = orderPeriods(budgetItems);
+  if (actualPeriods.length === 0 || budgetPeriods.length === 0) return undefined;
+
+  const actualPeriod = actualPeriods[actualPeriods.length - 1];
+  const budgetPeriod = budgetPeriods.includes(actualPeriod) ? actualPeriod : budgetPeriods[budgetPeriods.length - 1];
+  const known = departmentLookup(departmentNames);
+
+  const byKey = new Map<string, Totals>();
+  const add = (item: LineItem, side: 'budget' | 'actual') => {
+    const kind = lineItemKind(item);
+    const label = normalizeLabel(item.account ?? item.label);
+    if (!kind || !label || item.entity === ELIMINATION_ENTITY) return;
+    const department = lineItemDepartment(item, known);
+    const key = `${department}|${kind}|${label}`;
+    const totals = byKey.get(key) ?? {
+      department, item: item.account ?? item.label, kind, budget: 0, actual: 0, inBudget: false, inActual: false,
+    };
+    // รายได้/รายจ่ายบางไฟล์บันทึกเป็นค่าลบ (เช่น งบทดลอง) จึงเทียบด้วยค่าสัมบูรณ์
+    totals[side] += Math.abs(item.amount);
+    if (side === 'budget') totals.inBudget = true;
+    else totals.inActual = true;
+    byKey.set(key, totals);
+  };
+  budgetItems.filter(i => i.period === budgetPeriod).forEach(i => add(i, 'budget'));
+  actualItems.filter(i => i.period === actualPeriod).forEach(i => add(i, 'actual'));
+
+  const rows = Array.from(byKey.values());
+  if (!rows.some(r => r.inBudget) || !rows.some(r => r.inActual)) return undefined;
+
+  const items: BudgetLine[] = rows
+    .map(r => ({ item: r.item, department: r.department, kind: r.kind, ...budgetFigure(r.budget, r.actual, r.kind === 'revenue') }))
+    .sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance));
+
+  const departments: DepartmentBudget[] = Array.from(new Set(rows.map(r => r.department))).map(name => {
+    const sum = (kind: Kind, side: 'budget' | 'actual') =>
+      rows.filter(r => r.department === name && r.kind === kind).reduce((total, r) => total + r[side], 0);
+    const revenue = budgetFigure(sum('revenue', 'budget'), sum('revenue', 'actual'), true);
+    const expense = budgetFigure(sum('expense', 'budget'), sum('expense', 'actual'), false);
+    return {
+      name,
+      revenue,
+      expense,
+      profit: budgetFigure(revenue.budget - expense.budget, revenue.actual - expense.actual, true),
+    };
+  });
+
+  const notes: string[] = [];
+  const unbudgeted = rows.filter(r => !r.inBudget).length;
+  const unused = rows.filter(r => !r.inActual).length;
+  if (unbudgeted > 0) notes.push(`มี ${unbudgeted} รายการที่ไม่มีในงบประมาณ (งบประมาณ = 0)`);
+  if (unused > 0) notes.push(`มี ${unused} รายการในงบประมาณที่ไม่พบในผลจริงงวด ${actualPeriod}`);
+  if (budgetPeriod !== actualPeriod) notes.push(`เทียบงบประมาณงวด ${budgetPeriod} กับผลจริงงวด ${actualPeriod}`);
+
+  return { budgetPeriod, actualPeriod, departments, items, notes };
+};
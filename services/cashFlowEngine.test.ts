@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { AccountCategory, FinancialFigures, LineItem } from '../types';
+import { analyzeCashFlow } from './cashFlowEngine';
+import { normalizeFigures } from './ratioEngine';
+import { alignLineItems } from './varianceEngine';
+
+const balance = (label: string, category: AccountCategory, from: number, to: number): LineItem[] => [
+  { label, period: '2566', amount: from, category, statement: 'balanceSheet' },
+  { label, period: '2567', amount: to, category, statement: 'balanceSheet' },
+];
+
+describe('analyzeCashFlow', () => {
+  it('ใช้บรรทัดเงินสดสุทธิจากงบกระแสเงินสดในไฟล์ก่อน', () => {
+    const aligned = alignLineItems([
+      { label: 'เงินสดสุทธิได้มาจากกิจกรรมดำเนินงาน', period: '2567', amount: 500, statement: 'cashFlow' },
+      { label: 'ซื้อที่ดิน อาคารและอุปกรณ์', period: '2567', amount: -150, statement: 'cashFlow' },
+      { label: 'เงินสดสุทธิใช้ไปในกิจกรรมลงทุน', period: '2567', amount: -200, statement: 'cashFlow' },
+    ]);
+    const result = analyzeCashFlow(aligned, ['2567'], normalizeFigures({ netIncome: 400, currentLiabilities: 250 }))!;
+    expect(result).toMatchObject({
+      method: 'direct',
+      operating: 500,
+      investing: -200,
+      financing: 0,
+      netChange: 300,
+      capex: 150,
+      freeCashFlow: 350,
+      cashConversion: 1.25,
+      operatingCashFlowRatio: 2,
+    });
+    expect(result.notes).toEqual(['ไม่พบเงินสดสุทธิจากกิจกรรมจัดหาเงิน ใช้ 0']);
+  });
+
+  it('คำนวณทางอ้อมจากงบดุล 2 งวด และกระทบยอดกับเงินสดในงบดุลได้', () => {
+    const aligned = alignLineItems([
+      ...balance('เงินสด', 'currentAsset', 100, 180),
+      ...balance('ลูกหนี้การค้า', 'currentAsset', 200, 250),
+      ...balance('ที่ดิน อาคารและอุปกรณ์', 'nonCurrentAsset', 500, 540),
+      ...balance('เจ้าหนี้การค้า', 'currentLiability', 150, 170),
+      ...balance('เงินกู้ยืมระยะยาว', 'nonCurrentLiability', 300, 280),
+      ...balance('ทุนจดทะเบียน', 'equity', 200, 200),
+      ...balance('กำไรสะสม', 'equity', 150, 320),
+      { label: 'ค่าเสื่อมราคา', period: '2567', amount: 60, category: 'opex', statement: 'incomeStatement' },
+    ]);
+    const figures: FinancialFigures = normalizeFigures({ netIncome: 170, currentLiabilities: 170 });
+    const result = analyzeCashFlow(aligned, ['2566', '2567'], figures)!;
+    expect(result).toMatchObject({
+      method: 'indirect',
+      fromPeriod: '2566',
+      operating: 200,
+      investing: -100,
+      financing: -20,
+      netChange: 80,
+      capex: 100,
+      freeCashFlow: 100,
+    });
+    expect(result.notes).toEqual([]);
+  });
+
+  it('ไม่มีงบกระแสเงินสดและมีงบดุลงวดเดียว: วิเคราะห์ไม่ได้', () => {
+    const aligned = alignLineItems([{ label: 'เงินสด', period: '2567', amount: 100, category: 'currentAsset', statement: 'balanceSheet' }]);
+    expect(analyzeCashFlow(aligned, ['2567'], normalizeFigures())).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+import { AccountCategory, CashFlowAnalysis, CashFlowStep, FinancialFigures } from "../types";
+import { AlignedLineItem } from "./varianceEngine";
+import { EXPENSE_CATEGORIES, REVENUE_CATEGORIES } from "./accountMapping";
+
+const OPERATING_PATTERN = /ดำเนินงาน|operating/i;
+const INVESTING_PATTERN = /ลงทุน|investing/i;
+const FINANCING_PATTERN = /จัดหาเงิน|financing/i;
+const NET_PATTERN = /สุทธิ|net/i;
+const CAPEX_PATTERN = /ซื้อ.*(ที่ดิน|อาคาร|อุปกรณ์|สินทรัพย์)|purchase.*(property|plant|equipment|fixed asset)|capital expenditure/i;
+const DEPRECIATION_PATTERN = /ค่าเสื่อมราคา|ค่าตัดจำหน่าย|depreciation|amortization|amortisation/i;
+const CASH_PATTERN = /เงินสด|cash/i;
+const BORROWING_PATTERN = /เงินกู้|หุ้นกู้|borrowing|loan|debenture/i;
+
+const ratio = (numerator: number, denominator: number | null): number | null =>
+  denominator === null || denominator === 0 ? null : Number((numerator / denominator).toFixed(2));
+
+const amountIn = (items: AlignedLineItem[], period: string): number =>
+  items.reduce((sum, a) => sum + (a.values[period] ?? 0), 0);
+
+const byCategory = (aligned: AlignedLineItem[], categories: AccountCategory[]) =>
+  aligned.filter(a => a.category && categories.includes(a.category));
+
+// บรรทัดเงินสดสุทธิของแต่ละกิจกรรมในงบกระแสเงินสด ("เงินสดสุทธิได้มาจากกิจกรรมดำเนินงาน")
+const findNetLine = (items: AlignedLineItem[], pattern: RegExp, period: string): number | undefined =>
+  items.find(a => pattern.test(a.label) && NET_PATTERN.test(a.label) && a.values[period] !== undefined)?.values[period];
+
+const withRatios = (
+  base: Omit<CashFlowAnalysis, 'freeCashFlow' | 'cashConversion' | 'operatingCashFlowRatio'>,
+  figures: FinancialFigures
+): CashFlowAnalysis => ({
+  ...base,
+  freeCashFlow: base.capex === null ? null : base.operating - base.capex,
+  cashConversion: base.netIncome === null ? null : ratio(base.operating, base.netIncome),
+  operatingCashFlowRatio: ratio(base.operating, figures.currentLiabilities),
+});
+
+const summarySteps = (operating: number, investing: number, financing: number): CashFlowStep[] => [
+  { label: 'กิจกรรมลงทุน', amount: investing },
+  { label: 'กิจกรรมจัดหาเงิน', amount: financing },
+  { label: 'เงินสดเพิ่ม (ลด) สุทธิ', amount: operating + investing + financing, total: true },
+];
+
+// งบกระแสเงินสดจากไฟล์: ใช้บรรทัดเงินสดสุทธิของแต่ละกิจกรรมตามที่รายงาน
+const directCashFlow = (aligned: AlignedLineItem[], period: string, figures: FinancialFigures): CashFlowAnalysis | undefined => {
+  const items = aligned.filter(a => a.statement === 'cashFlow');
+  const operating = findNetLine(items, OPERATING_PATTERN, period);
+  if (operating === undefined) return undefined;
+
+  const notes: string[] = [];
+  const investing = findNetLine(items, INVESTING_PATTERN, period) ?? 0;
+  const financing = findNetLine(items, FINANCING_PATTERN, period) ?? 0;
+  if (findNetLine(items, INVESTING_PATTERN, period) === undefined) notes.push('ไม่พบเงินสดสุทธิจากกิจกรรมลงทุน ใช้ 0');
+  if (findNetLine(items, FINANCING_PATTERN, period) === undefined) notes.push('ไม่พบเงินสดสุทธิจากกิจกรรมจัดหาเงิน ใช้ 0');
+
+  const capexItems = items.filter(a => CAPEX_PATTERN.test(a.label) && a.values[period] !== undefined);
+  if (capexItems.length === 0) notes.push('ไม่พบรายการซื้อสินทรัพย์ถาวร จึงคำนวณกระแสเงินสดอิสระไม่ได้');
+
+  return withRatios({
+    method: 'direct',
+    period,
+    netIncome: figures.netIncome,
+    operating,
+    investing,
+    financing,
+    netChange: operating + investing + financing,
+    capex: capexItems.length > 0 ? Math.abs(amountIn(capexItems, period)) : null,
+    steps: [{ label: 'กิจกรรมดำเนินงาน', amount: operating }, ...summarySteps(operating, investing, financing)],
+    notes,
+  }, figures);
+};
+
+/**
+ * กระแสเงินสดทางอ้อมจากงบดุล 2 งวดและงบกำไรขาดทุน
+ * ดำเนินงาน = กำไรสุทธิ + ค่าเสื่อมราคา − เพิ่มขึ้นของสินทรัพย์หมุนเวียน (ไม่รวมเงินสด) + เพิ่มขึ้นของหนี้สินหมุนเวียน (ไม่รวมเงินกู้)
+ * ลงทุน = −(เพิ่มขึ้นของสินทรัพย์ไม่หมุนเวียน + ค่าเสื่อมราคา)
+ * จัดหาเงิน = เพิ่มขึ้นของเงินกู้ + เพิ่มขึ้นของส่วนของผู้ถือหุ้นที่ไม่ได้มาจากกำไร
+ */
+const indirectCashFlow = (
+  aligned: AlignedLineItem[],
+  fromPeriod: string,
+  period: string,
+  figures: FinancialFigures
+): CashFlowAnalysis | undefined => {
+  const balance = aligned.filter(a => a.statement !== 'cashFlow' && a.category !== 'subtotal');
+  const hasBothPeriods = (items: AlignedLineItem[]) => items.some(a => a.values[fromPeriod] !== undefined && a.values[period] !== undefined);
+  const change = (items: AlignedLineItem[]) => amountIn(items, period) - amountIn(items, fromPeriod);
+
+  const currentAssets = byCategory(balance, ['currentAsset']);
+  const cash = currentAssets.filter(a => CASH_PATTERN.test(a.label));
+  const otherCurrentAssets = currentAssets.filter(a => !cash.includes(a));
+  const currentLiabilities = byCategory(balance, ['currentLiability']);
+  const borrowings = byCategory(balance, ['currentLiability', 'nonCurrentLiability']).filter(a => BORROWING_PATTERN.test(a.label));
+  const operatingLiabilities = currentLiabilities.filter(a => !borrowings.includes(a));
+  const nonCurrentAssets = byCategory(balance, ['nonCurrentAsset']);
+  const otherNonCurrentLiabilities = byCategory(balance, ['nonCurrentLiability']).filter(a => !borrowings.includes(a));
+  const equity = byCategory(balance, ['equity']);
+  if (!hasBothPeriods([...currentAssets, ...currentLiabilities, ...equity])) return undefined;
+
+  const notes: string[] = [];
+  const profitAndLoss = (categories: AccountCategory[]) => Math.abs(amountIn(byCategory(balance, categories), period));
+  let netIncome = figures.netIncome;
+  if (netIncome === null) {
+    netIncome = profitAndLoss(REVENUE_CATEGORIES) - profitAndLoss(EXPENSE_CATEGORIES);
+    notes.push('กำไรสุทธิคำนวณจากรายได้หักค่าใช้จ่ายตามผังบัญชี');
+  }
+
+  const depreciationItems = aligned.filter(a => a.statement !== 'cashFlow' && DEPRECIATION_PATTERN.test(a.label) && a.values[period] !== undefined);
+  const depreciation = Math.abs(amountIn(depreciationItems, period));
+  if (depreciationItems.length === 0) notes.push('ไม่พบค่าเสื่อมราคาในไฟล์ กระแสเงินสดจากการดำเนินงานและรายจ่ายลงทุนอาจต่ำกว่าความจริง');
+
+  const workingCapital = -change(otherCurrentAssets) + change(operatingLiabilities) + change(otherNonCurrentLiabilities);
+  const operating = netIncome + depreciation + workingCapital;
+  const capex = change(nonCurrentAssets) + depreciation;
+  const investing = -capex;
+  const financing = change(borrowings) + (change(equity) - netIncome);
+  const netChange = operating + investing + financing;
+
+  // ผลต่างกับเงินสดในงบดุล มาจากรายการที่ไม่ได้จัดหมวด หรือกำไรสุทธิที่ไม่ตรงกับกำไรสะสม
+  const cashChange = change(cash);
+  if (cash.length > 0 && Math.abs(cashChange - netChange) > Math.max(1, Math.abs(cashChange) * 0.01)) {
+    notes.push(`เงินสดเพิ่ม (ลด) สุทธิที่คำนวณได้ต่างจากยอดเงินสดในงบดุล ${(cashChange - netChange).toLocaleString()} บาท`);
+  }
+
+  return withRatios({
+    method: 'indirect',
+    period,
+    fromPeriod,
+    netIncome,
+    operating,
+    investing,
+    financing,
+    netChange,
+    capex: Math.max(0, capex),
+    steps: [
+      { label: 'กำไรสุทธิ', amount: netIncome },
+      { label: 'ค่าเสื่อมราคา', amount: depreciation },
+      { label: 'เงินทุนหมุนเวียน', amount: workingCapital },
+      { label: 'กิจกรรมดำเนินงาน', amount: operating, total: true },
+      ...summarySteps(operating, investing, financing),
+    ],
+    notes,
+  }, figures);
+};
+
+/**
+ * วิเคราะห์กระแสเงินสดของงวดล่าสุด ใช้งบกระแสเงินสดในไฟล์ก่อน
+ * ถ้าไม่มี คำนวณทางอ้อมจากงบดุล 2 งวดล่าสุดและงบกำไรขาดทุน (ต้องจัดหมวดบัญชีแล้ว)
+ */
+export const analyzeCashFlow = (
+  aligned: AlignedLineItem[],
+  periods: string[],
+  figures: FinancialFigures
+): CashFlowAnalysis | undefined => {
+  if (periods.length === 0) return undefined;
+  const period = periods[periods.length - 1];
+  return directCashFlow(aligned, period, figures)
+    ?? (periods.length >= 2 ? indirectCashFlow(aligned, periods[periods.length - 2], period, figures) : undefined);
+};
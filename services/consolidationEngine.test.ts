@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { AccountCategory, GroupEntity, LineItem } from '../types';
+import { consolidate, DEFAULT_INTERCOMPANY_PAIRS } from './consolidationEngine';
+
+const PERIOD = '2567';
+
+const line = (entity: string, label: string, amount: number, category: AccountCategory): LineItem => ({
+  label,
+  period: PERIOD,
+  amount,
+  category,
+  entity,
+  statement: ['revenue', 'otherIncome', 'cogs', 'opex', 'financeCost', 'tax'].includes(category) ? 'incomeStatement' : 'balanceSheet',
+});
+
+const parent = [
+  line('P', 'เงินสด', 300, 'currentAsset'),
+  line('P', 'ลูกหนี้บริษัทที่เกี่ยวข้องกัน', 50, 'currentAsset'),
+  line('P', 'เงินลงทุนในบริษัทย่อย', 150, 'nonCurrentAsset'),
+  line('P', 'ทุนจดทะเบียน', 500, 'equity'),
+  line('P', 'รายได้จากบริษัทที่เกี่ยวข้องกัน', 100, 'revenue'),
+];
+
+const subsidiary = [
+  line('S', 'เงินสด', 240, 'currentAsset'),
+  line('S', 'เจ้าหนี้บริษัทที่เกี่ยวข้องกัน', 40, 'currentLiability'),
+  line('S', 'ทุนจดทะเบียน', 100, 'equity'),
+  line('S', 'กำไรสะสม', 100, 'equity'),
+  line('S', 'รายได้จากการขาย', 300, 'revenue'),
+  line('S', 'ค่าใช้จ่ายให้บริษัทที่เกี่ยวข้องกัน', 100, 'opex'),
+];
+
+const entities: GroupEntity[] = [
+  { name: 'P', ownership: 100, parent: true },
+  { name: 'S', ownership: 60, parent: false },
+];
+
+const totalOf = (items: LineItem[], categories: AccountCategory[]) =>
+  items.filter(i => i.category && categories.includes(i.category)).reduce((sum, i) => sum + i.amount, 0);
+
+const run = (items: LineItem[]) => consolidate(items, entities, DEFAULT_INTERCOMPANY_PAIRS)!;
+
+describe('consolidate', () => {
+  it('ตัดคู่บัญชีระหว่างกันเฉพาะยอดที่ตรงกัน และแจ้งยอดที่เหลือ', () => {
+    const { result } = run([...parent, ...subsidiary]);
+    expect(result.eliminations.map(({ pair, eliminated, unmatched }) => ({ pair, eliminated, unmatched }))).toEqual([
+      { pair: DEFAULT_INTERCOMPANY_PAIRS[0].name, eliminated: 40, unmatched: 10 },
+      { pair: DEFAULT_INTERCOMPANY_PAIRS[2].name, eliminated: 100, unmatched: 0 },
+    ]);
+    expect(result.notes.filter(note => note.startsWith(DEFAULT_INTERCOMPANY_PAIRS[0].name))).toHaveLength(1);
+    expect(result).toMatchObject({ revenue: 300, expense: 0, profit: 300 });
+  });
+
+  it('ตัดเงินลงทุนกับส่วนของผู้ถือหุ้นของบริษัทย่อย ได้ค่าความนิยมและ NCI และงบรวมสมดุล', () => {
+    const { items, result } = run([...parent, ...subsidiary]);
+    expect(result.goodwill).toBe(30);
+    expect(result.nciEquity).toBe(80);
+    expect(result.nciProfit).toBe(80);
+    expect(result.profitToParent).toBe(220);
+
+    const balanceSheet = items.filter(i => i.statement === 'balanceSheet');
+    const assets = totalOf(balanceSheet, ['currentAsset', 'nonCurrentAsset']);
+    const liabilitiesAndEquity = totalOf(balanceSheet, ['currentLiability', 'nonCurrentLiability', 'equity']);
+    expect(assets).toBe(580);
+    expect(liabilitiesAndEquity).toBe(580);
+  });
+
+  it('ไม่ตัดยอดที่ทั้งสองด้านอยู่ในบริษัทเดียวกัน (บริษัทที่เกี่ยวข้องนอกกลุ่ม)', () => {
+    const { items, result } = run([
+      line('P', 'ลูกหนี้บริษัทที่เกี่ยวข้องกัน', 30, 'currentAsset'),
+      line('P', 'เจ้าหนี้บริษัทที่เกี่ยวข้องกัน', 20, 'currentLiability'),
+      line('S', 'เงินสด', 10, 'currentAsset'),
+    ]);
+    expect(result.eliminations).toEqual([
+      { pair: DEFAULT_INTERCOMPANY_PAIRS[0].name, period: PERIOD, sideA: 30, sideB: 20, eliminated: 0, unmatched: 50 },
+    ]);
+    expect(items).toHaveLength(3);
+    expect(result.notes[0]).toContain('ด้าน A 30 บาท ด้าน B 20 บาท');
+  });
+
+  it('จับคู่ข้ามบริษัทได้เฉพาะส่วนที่อยู่คนละบริษัท', () => {
+    const { result } = run([
+      line('P', 'ลูกหนี้บริษัทที่เกี่ยวข้องกัน', 30, 'currentAsset'),
+      line('P', 'เจ้าหนี้บริษัทที่เกี่ยวข้องกัน', 20, 'currentLiability'),
+      line('S', 'เจ้าหนี้บริษัทที่เกี่ยวข้องกัน', 5, 'currentLiability'),
+    ]);
+    expect(result.eliminations[0]).toMatchObject({ sideA: 30, sideB: 25, eliminated: 5, unmatched: 45 });
+  });
+
+  it('ไม่นับรายการที่ไม่ได้เป็นของบริษัทในกลุ่ม', () => {
+    const { result } = run([
+      line('P', 'ลูกหนี้บริษัทที่เกี่ยวข้องกัน', 30, 'currentAsset'),
+      line('X', 'เจ้าหนี้บริษัทที่เกี่ยวข้องกัน', 30, 'currentLiability'),
+      line('S', 'เงินสด', 10, 'currentAsset'),
+    ]);
+    expect(result.eliminations[0]).toMatchObject({ sideA: 30, sideB: 0, eliminated: 0 });
+  });
+});
@@ -0,0 +1,236 @@
+import {
+  AccountCategory, ConsolidationResult, EntitySummary, FinancialFigures, GroupEntity, IntercompanyElimination, IntercompanyPair, LineItem
+} from "../types";
+import { EXPENSE_CATEGORIES, REVENUE_CATEGORIES, summarizeByCategory } from "./accountMapping";
+import { ELIMINATION_ENTITY, lineItemKind } from "./budgetEngine";
+import { normalizeLabel } from "./spreadsheetParser";
+import { orderPeriods } from "./varianceEngine";
+
+const STORAGE_KEY = 'smartacc.intercompanyPairs';
+const DIFFERENCE_TOLERANCE = 1; // บาท
+
+export const NCI_LABEL = 'ส่วนได้เสียที่ไม่มีอำนาจควบคุม';
+const GOODWILL_LABEL = 'ค่าความนิยม';
+const BARGAIN_LABEL = 'ผลต่างจากการตัดเงินลงทุนในบริษัทย่อย';
+const INVESTMENT_PATTERN = /เงินลงทุนในบริษัทย่อย|investments? in subsidiar/i;
+
+export const DEFAULT_INTERCOMPANY_PAIRS: IntercompanyPair[] = [
+  { id: 'default-receivable', name: 'ลูกหนี้ ↔ เจ้าหนี้บริษัทที่เกี่ยวข้องกัน', matchType: 'name', sideA: 'ลูกหนี้บริษัทที่เกี่ยวข้องกัน', sideB: 'เจ้าหนี้บริษัทที่เกี่ยวข้องกัน' },
+  { id: 'default-loan', name: 'เงินให้กู้ยืม ↔ เงินกู้ยืมระหว่างกัน', matchType: 'name', sideA: 'เงินให้กู้ยืมแก่บริษัทที่เกี่ยวข้องกัน', sideB: 'เงินกู้ยืมจากบริษัทที่เกี่ยวข้องกัน' },
+  { id: 'default-service', name: 'รายได้ ↔ ค่าใช้จ่ายระหว่างกัน', matchType: 'name', sideA: 'รายได้จากบริษัทที่เกี่ยวข้องกัน', sideB: 'ค่าใช้จ่ายให้บริษัทที่เกี่ยวข้องกัน' },
+];
+
+// คู่บัญชีที่ผู้ใช้บันทึกไว้ (ยังไม่เคยบันทึก = ใช้คู่เริ่มต้น)
+export const loadIntercompanyPairs = (): IntercompanyPair[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as IntercompanyPair[]) : DEFAULT_INTERCOMPANY_PAIRS;
+  } catch {
+    return DEFAULT_INTERCOMPANY_PAIRS;
+  }
+};
+
+export const saveIntercompanyPairs = (pairs: IntercompanyPair[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(pairs));
+};
+
+// เทียบแบบเดียวกับกฎผังบัญชี: รหัสขึ้นต้นด้วย หรือชื่อบัญชีมีข้อความนี้
+const matchesSide = (item: LineItem, matchType: IntercompanyPair['matchType'], pattern: string): boolean => {
+  if (!pattern.trim()) return false;
+  if (matchType === 'code') {
+    return !!item.code && item.code.replace(/[.\-]/g, '').startsWith(pattern.replace(/[.\-]/g, ''));
+  }
+  return normalizeLabel(item.label).includes(normalizeLabel(pattern));
+};
+
+// รายการที่นำมาตัดได้: ไม่ใช่บรรทัดยอดรวมหรืองบกระแสเงินสด
+const isEliminable = (item: LineItem) => item.statement !== 'cashFlow' && item.category !== 'subtotal';
+
+const total = (items: LineItem[]) => items.reduce((sum, i) => sum + i.amount, 0);
+
+// รายการกลับด้านของรายการเดิม (คีย์ของรายการเดิม เพื่อให้หักกันเมื่อรวมข้ามบริษัท)
+const reverse = (items: LineItem[], ratio: number): LineItem[] =>
+  items.map(({ label, period, amount, code, statement, category, account }) => ({
+    label, period, amount: -amount * ratio, code, statement, category, account, sheet: ELIMINATION_ENTITY, entity: ELIMINATION_ENTITY,
+  }));
+
+const adjustment = (label: string, period: string, amount: number, category: AccountCategory): LineItem => ({
+  label, period, amount, category, statement: 'balanceSheet', sheet: ELIMINATION_ENTITY, entity: ELIMINATION_ENTITY,
+});
+
+// ไฟล์อาจแสดงค่าใช้จ่ายเป็นค่าบวกหรือลบ จึงรวมค่าสัมบูรณ์ รายการตัดบัญชีหักออกเสมอ
+const kindTotal = (items: LineItem[], kind: 'revenue' | 'expense') =>
+  items
+    .filter(i => lineItemKind(i) === kind)
+    .reduce((sum, i) => sum + (i.entity === ELIMINATION_ENTITY ? -Math.abs(i.amount) : Math.abs(i.amount)), 0);
+
+const equityItems = (items: LineItem[]) => items.filter(i => i.category === 'equity' && i.statement !== 'cashFlow');
+
+const formatAmount = (value: number) => value.toLocaleString('th-TH', { maximumFractionDigits: 0 });
+
+const totalsByEntity = (items: LineItem[]) =>
+  items.reduce((totals, i) => totals.set(i.entity!, (totals.get(i.entity!) ?? 0) + i.amount), new Map<string, number>());
+
+/**
+ * ตัดคู่บัญชีระหว่างกันของงวดหนึ่ง: ด้าน A ของบริษัทหนึ่งตัดได้กับด้าน B ของบริษัทอื่นในกลุ่มเท่านั้น
+ * (ทั้งสองด้านในบริษัทเดียวกัน = ยอดกับบริษัทที่เกี่ยวข้องนอกกลุ่ม) ตัดสัดส่วนเดียวกันทุกรายการในด้านนั้น
+ * ยอดที่ไม่มีคู่ไม่ตัด และแจ้งให้กระทบยอดระหว่างบริษัท
+ */
+const eliminatePair = (pair: IntercompanyPair, items: LineItem[], members: Set<string>, period: string) => {
+  const inPeriod = items.filter(i => i.period === period && isEliminable(i) && !!i.entity && members.has(i.entity));
+  const sideA = inPeriod.filter(i => matchesSide(i, pair.matchType, pair.sideA));
+  const sideB = inPeriod.filter(i => matchesSide(i, pair.matchType, pair.sideB) && !sideA.includes(i));
+  if (sideA.length === 0 && sideB.length === 0) return null;
+
+  const totalA = Math.abs(total(sideA));
+  const totalB = Math.abs(total(sideB));
+  // ยอดที่จับคู่ข้ามบริษัทได้มากที่สุด: ด้าน A ของบริษัทหนึ่งจับคู่ได้เฉพาะด้าน B ของบริษัทอื่น
+  const byEntityA = totalsByEntity(sideA);
+  const byEntityB = totalsByEntity(sideB);
+  const crossEntity = Math.min(
+    ...Array.from(members).map(name => totalA + totalB - Math.abs(byEntityA.get(name) ?? 0) - Math.abs(byEntityB.get(name) ?? 0))
+  );
+  const eliminated = Math.max(0, Math.min(totalA, totalB, crossEntity));
+  const elimination: IntercompanyElimination = {
+    pair: pair.name, period, sideA: totalA, sideB: totalB, eliminated, unmatched: totalA + totalB - 2 * eliminated,
+  };
+  const adjustments = eliminated === 0 ? [] : [...reverse(sideA, eliminated / totalA), ...reverse(sideB, eliminated / totalB)];
+  return { elimination, adjustments };
+};
+
+/**
+ * ตัดเงินลงทุนในบริษัทย่อย (ในไฟล์ของบริษัทใหญ่) กับส่วนของผู้ถือหุ้นของบริษัทย่อย ณ วันสิ้นงวด
+ * ส่วนของบริษัทย่อยที่ไม่ได้ถือ = ส่วนได้เสียที่ไม่มีอำนาจควบคุม, เงินลงทุนที่เกินส่วนที่ถือ = ค่าความนิยม
+ */
+const eliminateInvestment = (items: LineItem[], parent: GroupEntity, subsidiaries: GroupEntity[], period: string) => {
+  const inPeriod = items.filter(i => i.period === period && isEliminable(i));
+  const investment = inPeriod.filter(i => i.entity === parent.name && INVESTMENT_PATTERN.test(i.label));
+  const equities = subsidiaries
+    .map(entity => ({ entity, items: equityItems(inPeriod.filter(i => i.entity === entity.name)) }))
+    .filter(e => e.items.length > 0);
+  const nciEquity = equities.reduce((sum, e) => sum + total(e.items) * (1 - e.entity.ownership / 100), 0);
+  if (investment.length === 0 || equities.length === 0) return { adjustments: [], goodwill: null };
+
+  const parentShare = equities.reduce((sum, e) => sum + total(e.items) * (e.entity.ownership / 100), 0);
+  const goodwill = total(investment) - parentShare;
+  const adjustments = [
+    ...reverse(investment, 1),
+    ...equities.flatMap(e => reverse(e.items, 1)),
+    ...(nciEquity !== 0 ? [adjustment(NCI_LABEL, period, nciEquity, 'equity')] : []),
+    goodwill >= 0
+      ? adjustment(GOODWILL_LABEL, period, goodwill, 'nonCurrentAsset')
+      : adjustment(BARGAIN_LABEL, period, -goodwill, 'equity'),
+  ];
+  return { adjustments, goodwill };
+};
+
+const summarizeEntity = (entity: GroupEntity, items: LineItem[], period: string): EntitySummary => {
+  const own = items.filter(i => i.entity === entity.name && i.period === period);
+  const revenue = kindTotal(own, 'revenue');
+  const expense = kindTotal(own, 'expense');
+  const equity = equityItems(own).length > 0 ? total(equityItems(own)) : null;
+  const nciShare = entity.parent ? 0 : 1 - entity.ownership / 100;
+  return {
+    ...entity,
+    revenue,
+    expense,
+    profit: revenue - expense,
+    equity,
+    nciProfit: (revenue - expense) * nciShare,
+    nciEquity: equity === null ? null : equity * nciShare,
+  };
+};
+
+/**
+ * รวมรายการของทุกบริษัทในกลุ่มเป็นงบการเงินรวม (คำนวณทุกงวดเพื่อให้ผลต่างระหว่างงวดเทียบงบรวมกับงบรวม)
+ * คืนรายการทั้งหมดพร้อมรายการตัดบัญชี (entity = ELIMINATION_ENTITY) และสรุปงวดล่าสุดแยกรายบริษัท
+ * items ต้องจัดหมวดบัญชีแล้ว (ใช้หมวดส่วนของผู้ถือหุ้นหาส่วนได้เสียที่ไม่มีอำนาจควบคุม)
+ */
+export const consolidate = (
+  items: LineItem[],
+  entities: GroupEntity[],
+  pairs: IntercompanyPair[] = loadIntercompanyPairs()
+): { items: LineItem[]; result: ConsolidationResult } | undefined => {
+  const periods = orderPeriods(items);
+  if (entities.length < 2 || periods.length === 0) return undefined;
+  const parent = entities.find(e => e.parent) ?? entities[0];
+  const subsidiaries = entities.filter(e => e !== parent);
+  const latest = periods[periods.length - 1];
+  const members = new Set(entities.map(e => e.name));
+
+  const eliminations: IntercompanyElimination[] = [];
+  const adjustments: LineItem[] = [];
+  let goodwill: number | null = null;
+  periods.forEach(period => {
+    pairs.forEach(pair => {
+      const eliminated = eliminatePair(pair, items, members, period);
+      if (!eliminated) return;
+      eliminations.push(eliminated.elimination);
+      adjustments.push(...eliminated.adjustments);
+    });
+    const investment = eliminateInvestment(items, parent, subsidiaries, period);
+    adjustments.push(...investment.adjustments);
+    if (period === latest) goodwill = investment.goodwill;
+  });
+
+  const summaries = entities.map(entity => summarizeEntity({ ...entity, parent: entity === parent }, items, latest));
+  const consolidated = [...items, ...adjustments];
+  const latestItems = consolidated.filter(i => i.period === latest);
+  const revenue = kindTotal(latestItems, 'revenue');
+  const expense = kindTotal(latestItems, 'expense');
+  const nciProfit = summaries.reduce((sum, e) => sum + e.nciProfit, 0);
+  const nciEquities = summaries.filter(e => e.nciEquity !== null);
+
+  const notes = [
+    ...eliminations
+      .filter(e => e.period === latest && e.unmatched > DIFFERENCE_TOLERANCE)
+      .map(e => `${e.pair}: ตัดออก ${formatAmount(e.eliminated)} บาท ยอดที่ไม่มีคู่ในบริษัทอื่นของกลุ่ม ด้าน A ${formatAmount(e.sideA - e.eliminated)} บาท ด้าน B ${formatAmount(e.sideB - e.eliminated)} บาท (ยอดไม่ตรงกันหรือเป็นบริษัทที่เกี่ยวข้องนอกกลุ่ม) ควรกระทบยอดระหว่างบริษัท`),
+    ...(goodwill === null && subsidiaries.some(e => summaries.find(s => s.name === e.name)?.equity !== null)
+      ? [`ไม่พบบัญชีเงินลงทุนในบริษัทย่อยในไฟล์ของ ${parent.name} จึงยังไม่ได้ตัดเงินลงทุนกับส่วนของผู้ถือหุ้นของบริษัทย่อย`]
+      : []),
+    ...(goodwill !== null && goodwill < 0
+      ? [`เงินลงทุนในบริษัทย่อยต่ำกว่าส่วนที่ถือในส่วนของผู้ถือหุ้น ${formatAmount(-goodwill)} บาท (แสดงในส่วนของผู้ถือหุ้น)`]
+      : []),
+    ...(goodwill !== null ? ['ตัดเงินลงทุนด้วยส่วนของผู้ถือหุ้น ณ วันสิ้นงวด (ไม่แยกก่อน/หลังวันที่ซื้อกิจการ)'] : []),
+  ];
+
+  return {
+    items: consolidated,
+    result: {
+      period: latest,
+      entities: summaries,
+      eliminations,
+      revenue,
+      expense,
+      profit: revenue - expense,
+      nciProfit,
+      profitToParent: revenue - expense - nciProfit,
+      nciEquity: nciEquities.length > 0 ? nciEquities.reduce((sum, e) => sum + e.nciEquity!, 0) : null,
+      goodwill,
+      notes,
+    },
+  };
+};
+
+const categoryTotal = (summary: Partial<Record<AccountCategory, number>>, categories: AccountCategory[]) =>
+  categories.some(c => summary[c] !== undefined) ? categories.reduce((sum, c) => sum + (summary[c] ?? 0), 0) : null;
+
+/**
+ * ตัวเลขงบการเงินรวมจากยอดรวมตามหมวดบัญชีหลังตัดรายการระหว่างกัน
+ * หมวดที่ไม่มีรายการ (เช่น ไฟล์ไม่มีงบแสดงฐานะการเงิน) ใช้ตัวเลขที่ AI ดึงมา
+ */
+export const consolidatedFigures = (items: LineItem[], period: string, extracted: FinancialFigures): FinancialFigures => {
+  const summary = summarizeByCategory(items)[period] ?? {};
+  const revenue = categoryTotal(summary, REVENUE_CATEGORIES);
+  const expense = categoryTotal(summary, EXPENSE_CATEGORIES);
+  const netIncome = revenue !== null && expense !== null ? Math.abs(revenue) - Math.abs(expense) : null;
+  return {
+    currentAssets: categoryTotal(summary, ['currentAsset']) ?? extracted.currentAssets,
+    currentLiabilities: categoryTotal(summary, ['currentLiability']) ?? extracted.currentLiabilities,
+    totalAssets: categoryTotal(summary, ['currentAsset', 'nonCurrentAsset']) ?? extracted.totalAssets,
+    totalDebt: categoryTotal(summary, ['currentLiability', 'nonCurrentLiability']) ?? extracted.totalDebt,
+    equity: categoryTotal(summary, ['equity']) ?? extracted.equity,
+    revenue: revenue === null ? extracted.revenue : Math.abs(revenue),
+    netIncome: netIncome ?? extracted.netIncome,
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { LineItem, PeriodSummary } from '../types';
+import { applicableMethod, buildForecast, projectSeries, TOTAL_SERIES } from './forecastEngine';
+
+const history = (values: number[]) => values.map((value, i) => ({ period: String(2560 + i), value }));
+const FUTURE = ['ถัดไป 1', 'ถัดไป 2', 'ถัดไป 3'];
+
+const summaries = (periods: string[], revenue: number[], expense: number[]): PeriodSummary[] =>
+  periods.map((period, i) => ({ period, revenue: revenue[i], expense: expense[i], profit: revenue[i] - expense[i] }));
+
+describe('projectSeries', () => {
+  it('แนวโน้มเชิงเส้นที่ตรงทุกจุดมีช่วงความเชื่อมั่นเป็นศูนย์', () => {
+    expect(projectSeries(history([100, 200, 300]), 'revenue', 'linear', null, FUTURE)).toEqual([
+      { period: 'ถัดไป 1', value: 400, lower: 400, upper: 400 },
+      { period: 'ถัดไป 2', value: 500, lower: 500, upper: 500 },
+      { period: 'ถัดไป 3', value: 600, lower: 600, upper: 600 },
+    ]);
+  });
+
+  it('รายได้/รายจ่ายไม่ติดลบ แต่กำไรติดลบได้', () => {
+    expect(projectSeries(history([300, 200, 100]), 'revenue', 'linear', null, FUTURE).map(p => p.value)).toEqual([0, 0, 0]);
+    expect(projectSeries(history([300, 200, 100]), 'profit', 'linear', null, FUTURE).map(p => p.value)).toEqual([0, -100, -200]);
+  });
+
+  it('ค่าเฉลี่ยเคลื่อนที่ใช้ 3 งวดล่าสุด และช่วงกว้างขึ้นเมื่อคาดการณ์ไกลขึ้น', () => {
+    const points = projectSeries(history([100, 180, 260, 300, 340]), 'expense', 'movingAverage', null, FUTURE);
+    expect(points.map(p => p.value)).toEqual([300, 300, 300]);
+    expect(points[2].upper - points[2].lower).toBeGreaterThan(points[0].upper - points[0].lower);
+  });
+
+  it('ข้อมูลไม่ครบ 2 รอบฤดูกาลใช้แนวโน้มเชิงเส้นแทน', () => {
+    expect(applicableMethod('seasonal', 6, 4)).toBe('linear');
+    expect(applicableMethod('seasonal', 8, 4)).toBe('seasonal');
+    expect(applicableMethod('seasonal', 24, null)).toBe('linear');
+  });
+});
+
+describe('buildForecast', () => {
+  it('ข้อมูลน้อยกว่า 3 งวดไม่คาดการณ์', () => {
+    const periods = ['2566', '2567'];
+    expect(buildForecast([], periods, summaries(periods, [1, 2], [1, 1]))).toBeUndefined();
+  });
+
+  it('งวดรายปี: แนวโน้มเชิงเส้น และเลื่อนปีในชื่องวด', () => {
+    const periods = ['2565', '2566', '2567'];
+    const result = buildForecast([], periods, summaries(periods, [100, 110, 120], [80, 85, 90]))!;
+    expect(result).toMatchObject({ method: 'linear', seasonLength: null, periods: ['2568', '2569', '2570'] });
+    const profit = result.series.find(s => s.department === TOTAL_SERIES && s.metric === 'profit')!;
+    expect(profit.forecast[0].value).toBeCloseTo(35);
+    expect(result.notes).toContain('งวดข้อมูลไม่ใช่รายเดือนหรือรายไตรมาสที่ต่อเนื่องกัน จึงไม่ได้ปรับตามฤดูกาล');
+  });
+
+  it('งวดรายไตรมาสครบ 2 รอบ: ปรับตามฤดูกาล และคาดการณ์แยกหน่วยงานที่มีข้อมูลครบทุกงวด', () => {
+    const periods = ['Q1 2566', 'Q2 2566', 'Q3 2566', 'Q4 2566', 'Q1 2567', 'Q2 2567', 'Q3 2567', 'Q4 2567'];
+    const revenue = [100, 120, 90, 150, 110, 130, 100, 160];
+    const items: LineItem[] = periods.flatMap((period, i) => [
+      { label: 'รายได้จากการขาย', period, amount: revenue[i], sheet: 'BusA' },
+      ...(i > 0 ? [{ label: 'รายได้จากการขาย', period, amount: 10, sheet: 'BusB' }] : []),
+    ]);
+    const result = buildForecast(items, periods, summaries(periods, revenue, revenue.map(() => 50)))!;
+    expect(result).toMatchObject({ method: 'seasonal', seasonLength: 4, periods: ['Q4 2567 (+1)', 'Q4 2567 (+2)', 'Q4 2567 (+3)'] });
+    const total = result.series.find(s => s.department === TOTAL_SERIES && s.metric === 'revenue')!;
+    // ไตรมาส 3 ต่ำกว่าไตรมาส 2 ตามฤดูกาลเดิม แม้แนวโน้มรวมเพิ่มขึ้น
+    expect(total.forecast[2].value).toBeLessThan(total.forecast[1].value);
+    expect(result.series.some(s => s.department === 'BusA')).toBe(true);
+    expect(result.series.some(s => s.department === 'BusB')).toBe(false);
+    expect(result.notes).toContain('หน่วยงาน BusB มีข้อมูลไม่ครบทุกงวด จึงไม่ได้คาดการณ์');
+  });
+});
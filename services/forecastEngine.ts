@@ -0,0 +1,220 @@
+import { ForecastMethod, ForecastMetric, ForecastPoint, ForecastResult, ForecastSeries, LineItem, PeriodSummary } from "../types";
+import { departmentLookup, ELIMINATION_ENTITY, lineItemDepartment, lineItemKind } from "./budgetEngine";
+import { periodSortKey } from "./spreadsheetParser";
+
+export const FORECAST_HORIZON = 3; // จำนวนงวดที่คาดการณ์
+const MIN_HISTORY = 3;
+const MOVING_AVERAGE_WINDOW = 3;
+export const TOTAL_SERIES = 'ทั้งองค์กร';
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  linear: 'แนวโน้มเชิงเส้น (Linear Trend)',
+  movingAverage: 'ค่าเฉลี่ยเคลื่อนที่ (Moving Average)',
+  seasonal: 'ตามฤดูกาล (Seasonal)',
+};
+
+export const FORECAST_METRIC_LABELS: Record<ForecastMetric, string> = {
+  revenue: 'รายได้',
+  expense: 'รายจ่าย',
+  profit: 'กำไร',
+};
+
+const YEAR_PATTERN = /(20\d{2}|25\d{2})/;
+const QUARTER_PATTERN = /\bQ([1-4])\b|ไตรมาส(?:ที่)?\s*([1-4])/i;
+
+// ค่า t สองด้าน 95% ตาม degrees of freedom 1–10 (มากกว่านั้นใช้ค่าปกติ 1.96)
+const T_95 = [12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26, 2.23];
+const tValue = (df: number) => (df >= 1 && df <= T_95.length ? T_95[df - 1] : 1.96);
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const standardError = (residuals: number[], df: number) =>
+  df > 0 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / df) : 0;
+
+const linearFit = (values: number[]) => {
+  const meanT = (values.length - 1) / 2;
+  const meanY = mean(values);
+  let sxx = 0;
+  let sxy = 0;
+  values.forEach((y, t) => {
+    sxx += (t - meanT) ** 2;
+    sxy += (t - meanT) * (y - meanY);
+  });
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  return { at: (t: number) => meanY + slope * (t - meanT), meanT, sxx };
+};
+
+type Projection = Omit<ForecastPoint, 'period'>;
+
+const band = (value: number, margin: number): Projection => ({ value, lower: value - margin, upper: value + margin });
+
+// ช่วงพยากรณ์ของการถดถอยเชิงเส้น: กว้างขึ้นเมื่อห่างจากกึ่งกลางของข้อมูล
+const predictionMargin = (fit: ReturnType<typeof linearFit>, n: number, t: number, s: number, df: number) =>
+  tValue(df) * s * Math.sqrt(1 + 1 / n + (fit.sxx === 0 ? 0 : (t - fit.meanT) ** 2 / fit.sxx));
+
+const projectLinear = (values: number[], horizon: number): Projection[] => {
+  const n = values.length;
+  const fit = linearFit(values);
+  const s = standardError(values.map((y, t) => y - fit.at(t)), n - 2);
+  return Array.from({ length: horizon }, (_, h) => band(fit.at(n + h), predictionMargin(fit, n, n + h, s, n - 2)));
+};
+
+// ค่าเฉลี่ยของ k งวดล่าสุด ช่วงความเชื่อมั่นจากความคลาดเคลื่อนเมื่อพยากรณ์ล่วงหน้า 1 งวดในอดีต
+const projectMovingAverage = (values: number[], horizon: number): Projection[] => {
+  const k = Math.min(MOVING_AVERAGE_WINDOW, values.length - 1);
+  const value = mean(values.slice(-k));
+  const errors = values.slice(k).map((y, i) => y - mean(values.slice(i, i + k)));
+  const s = standardError(errors, errors.length);
+  return Array.from({ length: horizon }, (_, h) => band(value, tValue(errors.length) * s * Math.sqrt(h + 1)));
+};
+
+const seasonalIndices = (values: number[], fit: ReturnType<typeof linearFit>, season: number): number[] => {
+  const raw = Array.from({ length: season }, (_, p) =>
+    mean(values.map((y, t) => ({ y, t })).filter(v => v.t % season === p).map(v => v.y - fit.at(v.t)))
+  );
+  const offset = mean(raw);
+  return raw.map(i => i - offset);
+};
+
+// แนวโน้มเชิงเส้นบวกดัชนีฤดูกาลแบบบวก (ต้องมีข้อมูลอย่างน้อย 2 รอบ)
+// ประมาณแนวโน้มกับดัชนีสลับกันหลายรอบ เพื่อไม่ให้งวดที่สูงตามฤดูกาลท้ายข้อมูลดึงความชันของแนวโน้ม
+const projectSeasonal = (values: number[], horizon: number, season: number): Projection[] => {
+  const n = values.length;
+  let fit = linearFit(values);
+  let indices = seasonalIndices(values, fit, season);
+  for (let i = 0; i < 5; i++) {
+    fit = linearFit(values.map((y, t) => y - indices[t % season]));
+    indices = seasonalIndices(values, fit, season);
+  }
+  const df = n - 2 - (season - 1);
+  const s = standardError(values.map((y, t) => y - fit.at(t) - indices[t % season]), Math.max(df, 1));
+  return Array.from({ length: horizon }, (_, h) => {
+    const t = n + h;
+    return band(fit.at(t) + indices[t % season], predictionMargin(fit, n, t, s, Math.max(df, 1)));
+  });
+};
+
+// วิธีที่ใช้ได้จริงกับข้อมูลชุดนี้ (ข้อมูลไม่ครบ 2 รอบฤดูกาลจะใช้แนวโน้มเชิงเส้นแทน)
+export const applicableMethod = (method: ForecastMethod, historyLength: number, seasonLength: number | null): ForecastMethod =>
+  method === 'seasonal' && (!seasonLength || historyLength < seasonLength * 2) ? 'linear' : method;
+
+/**
+ * คาดการณ์ค่าของงวดถัดไปจากข้อมูลย้อนหลัง
+ * รายได้/รายจ่ายติดลบไม่ได้ จึงตัดค่าคาดการณ์และขอบล่างที่ 0 (กำไรติดลบได้)
+ */
+export const projectSeries = (
+  history: ForecastSeries['history'],
+  metric: ForecastMetric,
+  method: ForecastMethod,
+  seasonLength: number | null,
+  periods: string[]
+): ForecastPoint[] => {
+  const values = history.map(h => h.value);
+  const applied = applicableMethod(method, values.length, seasonLength);
+  const projections =
+    applied === 'seasonal' ? projectSeasonal(values, periods.length, seasonLength!) :
+    applied === 'movingAverage' ? projectMovingAverage(values, periods.length) :
+    projectLinear(values, periods.length);
+  const floor = metric === 'profit' ? -Infinity : 0;
+  return projections.map((p, i) => ({
+    period: periods[i],
+    value: Math.max(floor, p.value),
+    lower: Math.max(floor, p.lower),
+    upper: Math.max(floor, p.upper),
+  }));
+};
+
+// ลำดับเวลาของงวด (เดือน) รวมถึงงวดรายไตรมาส เช่น "Q2 2567"
+const periodIndex = (period: string): number | null => {
+  const key = periodSortKey(period);
+  if (key === null) return null;
+  const quarter = period.match(QUARTER_PATTERN);
+  return quarter ? key + (Number(quarter[1] ?? quarter[2]) - 1) * 3 : key;
+};
+
+// ระยะห่างระหว่างงวด (เดือน) เมื่อทุกงวดห่างเท่ากัน
+const periodStep = (periods: string[]): number | null => {
+  const keys = periods.map(periodIndex);
+  if (keys.some(k => k === null)) return null;
+  const steps = keys.slice(1).map((k, i) => (k as number) - (keys[i] as number));
+  return steps.length > 0 && steps.every(s => s === steps[0] && s > 0) ? steps[0] : null;
+};
+
+// ชื่องวดถัดไป: งวดรายปีเลื่อนปีในชื่อเดิม งวดอื่นใช้ชื่องวดล่าสุดต่อด้วยลำดับ
+const futurePeriods = (periods: string[], step: number | null): string[] => {
+  const last = periods[periods.length - 1];
+  const year = last.match(YEAR_PATTERN);
+  return Array.from({ length: FORECAST_HORIZON }, (_, i) =>
+    step === 12 && year ? last.replace(YEAR_PATTERN, String(Number(year[1]) + i + 1)) : `${last} (+${i + 1})`
+  );
+};
+
+const buildSeries = (
+  department: string,
+  metric: ForecastMetric,
+  history: ForecastSeries['history'],
+  method: ForecastMethod,
+  seasonLength: number | null,
+  periods: string[]
+): ForecastSeries => ({ department, metric, history, forecast: projectSeries(history, metric, method, seasonLength, periods) });
+
+/**
+ * คาดการณ์รายได้ รายจ่าย และกำไร ทั้งองค์กรและแยกตามหน่วยงาน (หน่วยงานมาจากชื่อ Sheet แบบเดียวกับงบประมาณ)
+ * ใช้วิธีตามฤดูกาลเมื่อเป็นงวดรายเดือน/ไตรมาสที่มีข้อมูลครบ 2 รอบ ไม่เช่นนั้นใช้แนวโน้มเชิงเส้น
+ */
+export const buildForecast = (
+  lineItems: LineItem[],
+  periodOrder: string[],
+  summaries: PeriodSummary[],
+  departmentNames: string[] = []
+): ForecastResult | undefined => {
+  if (periodOrder.length < MIN_HISTORY) return undefined;
+
+  const step = periodStep(periodOrder);
+  const seasonLength = step === 1 ? 12 : step === 3 ? 4 : null;
+  const method: ForecastMethod = seasonLength && periodOrder.length >= seasonLength * 2 ? 'seasonal' : 'linear';
+  const periods = futurePeriods(periodOrder, step);
+  const metrics: ForecastMetric[] = ['revenue', 'expense', 'profit'];
+
+  const series = metrics.map(metric =>
+    buildSeries(TOTAL_SERIES, metric, summaries.map(s => ({ period: s.period, value: s[metric] })), method, seasonLength, periods)
+  );
+
+  // ยอดรายได้/รายจ่ายของแต่ละหน่วยงานต่องวด (รายการตัดบัญชีของงบการเงินรวมไม่ใช่หน่วยงาน)
+  const known = departmentLookup(departmentNames);
+  const totals = new Map<string, Record<string, { revenue: number; expense: number }>>();
+  lineItems.forEach(item => {
+    const kind = lineItemKind(item);
+    if (!kind || item.entity === ELIMINATION_ENTITY) return;
+    const department = lineItemDepartment(item, known);
+    const byPeriod = totals.get(department) ?? {};
+    const entry = byPeriod[item.period] ?? { revenue: 0, expense: 0 };
+    entry[kind] += Math.abs(item.amount);
+    byPeriod[item.period] = entry;
+    totals.set(department, byPeriod);
+  });
+
+  const notes: string[] = [];
+  // หน่วยงานเดียวคือภาพรวมขององค์กร ไม่ต้องแสดงซ้ำ
+  if (totals.size > 1) {
+    totals.forEach((byPeriod, department) => {
+      if (periodOrder.some(p => !byPeriod[p])) {
+        notes.push(`หน่วยงาน ${department} มีข้อมูลไม่ครบทุกงวด จึงไม่ได้คาดการณ์`);
+        return;
+      }
+      metrics.forEach(metric => {
+        const history = periodOrder.map(period => {
+          const { revenue, expense } = byPeriod[period];
+          return { period, value: metric === 'revenue' ? revenue : metric === 'expense' ? expense : revenue - expense };
+        });
+        series.push(buildSeries(department, metric, history, method, seasonLength, periods));
+      });
+    });
+  }
+
+  if (!seasonLength) notes.push('งวดข้อมูลไม่ใช่รายเดือนหรือรายไตรมาสที่ต่อเนื่องกัน จึงไม่ได้ปรับตามฤดูกาล');
+  else if (method !== 'seasonal') notes.push(`ข้อมูลไม่ครบ 2 รอบฤดูกาล (${seasonLength * 2} งวด) จึงใช้แนวโน้มเชิงเส้น`);
+  if (periodOrder.length < 6) notes.push(`ข้อมูลย้อนหลังมีเพียง ${periodOrder.length} งวด ช่วงความเชื่อมั่นจึงกว้าง`);
+
+  return { method, seasonLength, periods, series, notes };
+};
@@ -0,0 +1,104 @@
+import { AnalysisInput, AnalysisResult, SavedAnalysis } from "../types";
+import type { AnalysisOptions } from "./analysisService";
+
+const DB_NAME = 'smartacc';
+const DB_VERSION = 1;
+const STORE = 'analyses';
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('hash', 'hash', { unique: false });
+      store.createIndex('createdAt', 'createdAt', { unique: false });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// เปิด transaction แล้วแปลง IDBRequest เป็น Promise
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+};
+
+const withoutFile = (items: AnalysisInput['lineItems']) => JSON.stringify(items.map(({ file, ...item }) => item));
+
+/**
+ * Hash ของไฟล์ที่อัปโหลด (เนื้อหา + งวด) ไม่ขึ้นกับชื่อไฟล์
+ * ไฟล์เดิมที่อัปโหลดซ้ำจะได้ hash เดิม จึงเปิดผลเก่าได้โดยไม่ต้องเรียก AI
+ * รวมรายการที่อ่านได้หลังจัดหมวดบัญชี/จัดคอลัมน์ และเกณฑ์ที่ใช้วิเคราะห์ (แก้ผังบัญชีหรือเปลี่ยนเกณฑ์ = วิเคราะห์ใหม่)
+ * ไฟล์งบประมาณไม่ได้ส่งให้ AI จึงใช้รายการที่อ่านได้แทนเนื้อหาไฟล์
+ * งบการเงินรวมรวมผลการตัดรายการไว้ด้วย (เปลี่ยนสัดส่วนการถือหุ้นหรือคู่บัญชีระหว่างกัน = วิเคราะห์ใหม่)
+ */
+export const hashAnalysisInput = async (
+  { files, lineItems, budgetItems, consolidation }: AnalysisInput,
+  { benchmark, materiality }: Pick<AnalysisOptions, 'benchmark' | 'materiality'> = {}
+): Promise<string> => {
+  const content = [
+    ...files.map(f => `${f.period ?? ''}|${f.mimeType}|${f.data}`),
+    `items|${withoutFile(lineItems)}`,
+    ...(budgetItems?.length ? [`budget|${withoutFile(budgetItems)}`] : []),
+    ...(consolidation ? [`consolidation|${JSON.stringify(consolidation)}`] : []),
+    `options|${JSON.stringify({ benchmark, materiality })}`,
+  ].join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const listAnalyses = async (): Promise<SavedAnalysis[]> => {
+  const all = await withStore<SavedAnalysis[]>('readonly', store => store.getAll());
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const findAnalysisByHash = async (hash: string): Promise<SavedAnalysis | undefined> => {
+  const matches = await withStore<SavedAnalysis[]>('readonly', store => store.index('hash').getAll(hash));
+  return matches.sort((a, b) => b.createdAt - a.createdAt)[0];
+};
+
+export const saveAnalysis = async (
+  input: AnalysisInput,
+  hash: string,
+  result: AnalysisResult
+): Promise<SavedAnalysis> => {
+  const fileNames = input.files.map(f => f.name);
+  const record: SavedAnalysis = {
+    id: crypto.randomUUID(),
+    name: fileNames.join(', '),
+    fileNames,
+    hash,
+    createdAt: Date.now(),
+    result,
+    lineItems: input.lineItems,
+    sourceSheets: input.sourceSheets,
+  };
+  await withStore('readwrite', store => store.put(record));
+  return record;
+};
+
+export const updateAnalysis = async (record: SavedAnalysis): Promise<void> => {
+  await withStore('readwrite', store => store.put(record));
+};
+
+export const renameAnalysis = async (record: SavedAnalysis, name: string): Promise<void> => {
+  await updateAnalysis({ ...record, name });
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { applyColumnMapping, detectHeaderRow, suggestMapping } from './importTemplates';
+
+type Row = (string | number | null)[];
+
+const statement: Row[] = [
+  ['งบกำไรขาดทุน', null, null],
+  ['รายการ', 2567, 2566],
+  ['รายได้จากการขาย', 1_000, 800],
+  ['ต้นทุนขาย', 600, 500],
+];
+
+describe('detectHeaderRow', () => {
+  it('นับช่องปีเป็นหัวตาราง แม้อ่านเป็นตัวเลขได้', () => {
+    expect(detectHeaderRow(statement)).toBe(1);
+    expect(detectHeaderRow([['รายการ', '2567', '2566'], ['รายได้จากการขาย', 1_000, 800]])).toBe(0);
+  });
+
+  it('ไม่นับแถวหัวเรื่องที่มีข้อความช่องเดียว', () => {
+    expect(detectHeaderRow([['งบการเงิน ปี 2567'], ['รายการ', 'ปีนี้', 'ปีก่อน'], ['เงินสด', 1, 2]])).toBe(1);
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('แยกงวดตามหัวคอลัมน์ปี ไม่รวมสองปีเข้าด้วยกัน', () => {
+    const mapping = suggestMapping(statement, []);
+    expect(mapping.columns).toEqual(['account', 'amount', 'amount']);
+    const items = applyColumnMapping(statement, mapping, 'งวดปัจจุบัน');
+    expect(items.map(({ label, period, amount }) => ({ label, period, amount }))).toEqual([
+      { label: 'รายได้จากการขาย', period: '2567', amount: 1_000 },
+      { label: 'รายได้จากการขาย', period: '2566', amount: 800 },
+      { label: 'ต้นทุนขาย', period: '2567', amount: 600 },
+      { label: 'ต้นทุนขาย', period: '2566', amount: 500 },
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+import { ColumnMapping, ColumnRole, ImportTemplate, LineItem } from "../types";
+import { normalizeLabel, parseAmount, periodSortKey } from "./spreadsheetParser";
+
+type Cell = string | number | null | undefined;
+type SheetRows = (string | number | null)[][];
+
+const STORAGE_KEY = 'smartacc.importTemplates';
+const HEADER_SEARCH_ROWS = 15;
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  account: 'ชื่อบัญชี',
+  code: 'รหัสบัญชี',
+  department: 'หน่วยงาน',
+  period: 'งวด',
+  amount: 'จำนวนเงิน',
+  ignore: 'ไม่ใช้',
+};
+
+const ROLE_PATTERNS: [ColumnRole, RegExp][] = [
+  ['ignore', /หมายเหตุ|note|remark|comment/i],
+  ['department', /แผนก|หน่วยงาน|ฝ่าย|ศูนย์ต้นทุน|department|dept|cost\s*cent/i],
+  ['code', /รหัส|code|account\s*no/i],
+  ['period', /^(งวด|period|เดือน|month)$/i],
+  ['account', /ชื่อบัญชี|รายการ|account|description|item/i],
+];
+
+// บรรทัดยอดรวม (ไม่นำเข้า เพราะจะนับซ้ำกับรายการย่อย)
+const SUBTOTAL_PATTERN = /^(รวม|ยอดรวม|total|subtotal|grand total)/i;
+
+const text = (cell: Cell) => (cell === null || cell === undefined ? '' : String(cell).trim());
+
+const isText = (cell: Cell) => text(cell) !== '' && parseAmount(cell) === null;
+
+// ช่องหัวตาราง: ข้อความ หรือชื่องวด ("2567", "ธ.ค. 2566") ซึ่ง parseAmount อ่านเป็นตัวเลขได้
+const isHeaderCell = (cell: Cell) => isText(cell) || periodSortKey(text(cell)) !== null;
+
+// --- แม่แบบที่บันทึกไว้ (localStorage) ---
+
+export const loadImportTemplates = (): ImportTemplate[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as ImportTemplate[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+// แม่แบบของหัวตารางเดียวกันมีได้แบบเดียว บันทึกใหม่จะแทนที่ของเดิม
+export const saveImportTemplate = (template: ImportTemplate) => {
+  const others = loadImportTemplates().filter(t => t.signature !== template.signature);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([template, ...others]));
+};
+
+/**
+ * ลายเซ็นของหัวตาราง: ชื่อคอลัมน์ที่ตัดตัวเลขออก เพื่อให้ไฟล์งวดถัดไป ("ปี 2568" แทน "ปี 2567") ใช้แม่แบบเดิมได้
+ */
+export const headerSignature = (header: Cell[]): string =>
+  header.map(cell => normalizeLabel(text(cell)).replace(/\d+/g, '#')).join('|').replace(/\|+$/, '');
+
+// --- เดารูปแบบตาราง ---
+
+// แถวหัวตาราง: แถวแรกที่มีข้อความหรือชื่องวดอย่างน้อย 2 ช่อง และแถวถัดไปที่ไม่ว่างมีตัวเลข
+export const detectHeaderRow = (rows: Cell[][]): number => {
+  const index = rows.slice(0, HEADER_SEARCH_ROWS).findIndex((row, i) => {
+    if (row.filter(isHeaderCell).length < 2) return false;
+    const next = rows.slice(i + 1).find(r => r.some(c => text(c) !== ''));
+    return !!next && next.some(c => parseAmount(c) !== null);
+  });
+  return Math.max(index, 0);
+};
+
+/**
+ * ชื่อคอลัมน์ของหัวตาราง ถ้าช่องว่าง (หัวตารางแบบผสานเซลล์) ใช้ข้อความของแถวบนหรือช่องทางซ้ายในแถวบน
+ */
+export const columnTitle = (rows: Cell[][], headerRow: number, col: number): string => {
+  for (let r = headerRow; r >= 0; r--) {
+    if (text(rows[r]?.[col])) return text(rows[r][col]);
+    if (r < headerRow) {
+      for (let c = col - 1; c >= 0; c--) {
+        if (text(rows[r]?.[c])) return text(rows[r][c]);
+      }
+    }
+  }
+  return '';
+};
+
+const columnCount = (rows: Cell[][]) => Math.max(0, ...rows.map(row => row.length));
+
+export const guessColumnRoles = (rows: Cell[][], headerRow: number): ColumnRole[] => {
+  const body = rows.slice(headerRow + 1);
+  const roles = Array.from({ length: columnCount(rows) }, (_, col): ColumnRole => {
+    const title = columnTitle(rows, headerRow, col);
+    const byTitle = ROLE_PATTERNS.find(([, pattern]) => pattern.test(title));
+    if (byTitle) return byTitle[0];
+    const values = body.map(row => row[col]).filter(c => text(c) !== '');
+    if (values.length === 0) return 'ignore';
+    const numeric = values.filter(c => parseAmount(c) !== null).length;
+    return numeric / values.length >= 0.5 ? 'amount' : 'account';
+  });
+  // ชื่อบัญชีมีคอลัมน์เดียว: คอลัมน์ข้อความอื่นไม่ใช้
+  const account = roles.indexOf('account');
+  return roles.map((role, col) => (role === 'account' && col !== account ? 'ignore' : role));
+};
+
+const accountLabel = (row: Cell[], columns: ColumnRole[]) => text(row[columns.indexOf('account')]);
+
+const hasAmount = (row: Cell[], columns: ColumnRole[]) =>
+  columns.some((role, col) => role === 'amount' && parseAmount(row[col]) !== null);
+
+// แถวที่ควรข้าม: ไม่มีชื่อบัญชี ไม่มีตัวเลข (หัวข้อกลุ่ม) หรือเป็นบรรทัดยอดรวม
+export const defaultSkipRows = (rows: Cell[][], headerRow: number, columns: ColumnRole[]): number[] =>
+  rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row, index }) => {
+      if (index <= headerRow) return false;
+      const label = accountLabel(row, columns);
+      return !label || !hasAmount(row, columns) || SUBTOTAL_PATTERN.test(normalizeLabel(label));
+    })
+    .map(({ index }) => index);
+
+/**
+ * การจัดคอลัมน์เริ่มต้นของ Sheet: ใช้แม่แบบถ้าพบหัวตารางที่ลายเซ็นตรงกัน ไม่เช่นนั้นเดาจากข้อมูล
+ */
+export const suggestMapping = (rows: Cell[][], templates: ImportTemplate[] = loadImportTemplates()): ColumnMapping => {
+  for (const [headerRow, row] of rows.slice(0, HEADER_SEARCH_ROWS).entries()) {
+    const template = templates.find(t => t.signature === headerSignature(row));
+    if (template) {
+      return { headerRow, columns: template.columns, skipRows: defaultSkipRows(rows, headerRow, template.columns), template: true };
+    }
+  }
+  const headerRow = detectHeaderRow(rows);
+  const columns = guessColumnRoles(rows, headerRow);
+  return { headerRow, columns, skipRows: defaultSkipRows(rows, headerRow, columns) };
+};
+
+// การจัดคอลัมน์ใช้ได้เมื่อมีชื่อบัญชีและจำนวนเงิน
+export const isMappingComplete = (mapping: ColumnMapping): boolean =>
+  mapping.columns.includes('account') && mapping.columns.includes('amount');
+
+/**
+ * แปลงแถวของ Sheet เป็นรายการบัญชีตามการจัดคอลัมน์ (ตำแหน่งแถว/คอลัมน์ยังอ้างถึง Sheet เดิม)
+ * ไม่มีคอลัมน์งวด: หัวคอลัมน์จำนวนเงินคือชื่องวด (ถ้ามีคอลัมน์จำนวนเงินคอลัมน์เดียวใช้ fallbackPeriod)
+ */
+export const applyColumnMapping = (
+  rows: Cell[][],
+  mapping: ColumnMapping,
+  fallbackPeriod: string,
+  source: Pick<LineItem, 'sheet' | 'statement' | 'file'> = {}
+): LineItem[] => {
+  const { headerRow, columns } = mapping;
+  const skip = new Set(mapping.skipRows);
+  const periodColumn = columns.indexOf('period');
+  const codeColumn = columns.indexOf('code');
+  const departmentColumn = columns.indexOf('department');
+  const amountColumns = columns.flatMap((role, col) => (role === 'amount' ? [col] : []));
+  const amountPeriod = (col: number) =>
+    amountColumns.length > 1 ? columnTitle(rows, headerRow, col) || fallbackPeriod : fallbackPeriod;
+
+  const items: LineItem[] = [];
+  // ชื่อหน่วยงานที่ผสานเซลล์ไว้มีเฉพาะแถวแรกของกลุ่ม ใช้ค่าล่าสุดกับแถวถัดไปที่ว่าง
+  let department: string | undefined;
+  rows.forEach((row, index) => {
+    if (index <= headerRow) return;
+    if (departmentColumn >= 0) department = text(row[departmentColumn]) || department;
+    if (skip.has(index)) return;
+    const label = accountLabel(row, columns);
+    if (!label) return;
+    const code = codeColumn >= 0 ? text(row[codeColumn]) || undefined : undefined;
+    const rowPeriod = periodColumn >= 0 ? text(row[periodColumn]) || fallbackPeriod : undefined;
+    amountColumns.forEach(col => {
+      const amount = parseAmount(row[col]);
+      if (amount === null) return;
+      items.push({
+        label, period: rowPeriod ?? amountPeriod(col), amount, code, department, ...source, row: index, column: col,
+      });
+    });
+  });
+  return items;
+};
+
+// ตารางที่จัดรูปแบบแล้ว (แถวละหนึ่งรายการ) ใช้แสดงตัวอย่างและส่งให้ AI แทน Sheet ดิบ
+export const normalizedTable = (items: LineItem[]): SheetRows => {
+  const withCode = items.some(i => i.code);
+  const withDepartment = items.some(i => i.department);
+  return [
+    [...(withDepartment ? ['หน่วยงาน'] : []), ...(withCode ? ['รหัสบัญชี'] : []), 'รายการ', 'งวด', 'จำนวนเงิน'],
+    ...items.map(i => [
+      ...(withDepartment ? [i.department ?? null] : []),
+      ...(withCode ? [i.code ?? null] : []),
+      i.label,
+      i.period,
+      i.amount,
+    ]),
+  ];
+};
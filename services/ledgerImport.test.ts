@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildLedgerStatements, LedgerImport } from './ledgerImport';
+
+type Row = (string | number | null)[];
+
+const HEADER: Row = ['รหัสบัญชี', 'ชื่อบัญชี', 'เดบิต', 'เครดิต'];
+
+const trialBalance: Row[] = [
+  ['งบทดลอง ณ 31 ธันวาคม 2567', null, null, null],
+  HEADER,
+  ['1101', 'เงินสด', 500, null],
+  ['1201', 'อาคาร', 1_000, null],
+  ['2101', 'เจ้าหนี้การค้า', null, 300],
+  ['3101', 'ทุนจดทะเบียน', null, 1_000],
+  ['4101', 'รายได้จากการขาย', null, 800],
+  ['5101', 'ต้นทุนขาย', 400, null],
+  ['5201', 'ค่าใช้จ่ายในการบริหาร', 200, null],
+  ['รวม', null, 2_100, 2_100],
+];
+
+const amountOf = (ledger: LedgerImport, statementName: string, label: string) =>
+  ledger.statements.find(s => s.name === statementName)?.rows.find(row => row[1] === label)?.[2];
+
+const build = (rows: Row[]) => buildLedgerStatements([rows], '2567', 'tb.xlsx')!;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('buildLedgerStatements', () => {
+  it('สร้างงบแสดงฐานะการเงินที่สมดุลและงบกำไรขาดทุนจากรหัสบัญชี', () => {
+    const ledger = build(trialBalance);
+    expect(ledger).toMatchObject({ totalDebit: 2_100, totalCredit: 2_100, balanced: true });
+    expect(amountOf(ledger, 'งบแสดงฐานะการเงิน', 'รวมสินทรัพย์')).toBe(1_500);
+    expect(amountOf(ledger, 'งบแสดงฐานะการเงิน', 'กำไร (ขาดทุน) งวดปัจจุบัน')).toBe(200);
+    expect(amountOf(ledger, 'งบแสดงฐานะการเงิน', 'รวมหนี้สินและส่วนของผู้ถือหุ้น')).toBe(1_500);
+    expect(amountOf(ledger, 'งบกำไรขาดทุน', 'กำไร (ขาดทุน) สุทธิ')).toBe(200);
+  });
+
+  it('ตรวจพบยอดเดบิตไม่เท่ากับเครดิต', () => {
+    const ledger = build([HEADER, ['1101', 'เงินสด', 500, null], ['3101', 'ทุนจดทะเบียน', null, 400]]);
+    expect(ledger.balanced).toBe(false);
+  });
+
+  it('แยกงบกำไรขาดทุนตามหน่วยงาน แต่รวมงบแสดงฐานะการเงิน', () => {
+    const ledger = build([
+      ['รหัสบัญชี', 'ชื่อบัญชี', 'แผนก', 'เดบิต', 'เครดิต'],
+      ['1101', 'เงินสด', 'BusA', 300, null],
+      ['1101', 'เงินสด', 'BusB', 200, null],
+      ['4101', 'รายได้จากการขาย', 'BusA', null, 300],
+      ['4101', 'รายได้จากการขาย', 'BusB', null, 200],
+    ]);
+    expect(ledger.statements.map(s => s.name)).toEqual(['งบแสดงฐานะการเงิน', 'BusA', 'BusB']);
+    expect(amountOf(ledger, 'BusA', 'กำไร (ขาดทุน) สุทธิ')).toBe(300);
+    expect(amountOf(ledger, 'งบแสดงฐานะการเงิน', 'เงินสด')).toBe(500);
+  });
+
+  it('บัญชีที่ไม่ทราบหมวดรอตรวจผังบัญชี และสร้างงบใหม่ตามหมวดที่ผู้ใช้จัด', () => {
+    const rows = [...trialBalance.slice(0, -1), [null, 'เงินประกันผลงานรับ', 1_000, null], [null, 'เงินมัดจำลูกค้า', null, 1_000]];
+    const before = build(rows);
+    expect(before.accounts.filter(a => !a.category).map(a => a.name)).toEqual(['เงินประกันผลงานรับ', 'เงินมัดจำลูกค้า']);
+    expect(before.statements[0].items.some(i => i.label === 'เงินมัดจำลูกค้า')).toBe(false);
+
+    const rules = [
+      { id: 'u1', matchType: 'name', pattern: 'เงินประกันผลงานรับ', category: 'nonCurrentAsset' },
+      { id: 'u2', matchType: 'name', pattern: 'เงินมัดจำลูกค้า', category: 'currentLiability' },
+    ];
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(rules) });
+    const after = build(rows);
+    expect(after.accounts.every(a => a.category)).toBe(true);
+    expect(amountOf(after, 'งบแสดงฐานะการเงิน', 'เงินมัดจำลูกค้า')).toBe(1_000);
+    expect(amountOf(after, 'งบแสดงฐานะการเงิน', 'รวมสินทรัพย์')).toBe(2_500);
+    expect(amountOf(after, 'งบแสดงฐานะการเงิน', 'รวมหนี้สินและส่วนของผู้ถือหุ้น')).toBe(2_500);
+  });
+});
@@ -0,0 +1,274 @@
+import { AccountCategory, AccountMappingRule, LineItem, StatementType } from "../types";
+import {
+  applyAccountMapping, CATEGORY_LABELS, DEFAULT_MAPPING_RULES, EXPENSE_CATEGORIES, loadUserRules, REVENUE_CATEGORIES
+} from "./accountMapping";
+import { GENERAL_DEPARTMENT } from "./budgetEngine";
+import { normalizeLabel, parseAmount, STATEMENT_LABELS } from "./spreadsheetParser";
+
+type Cell = string | number | null | undefined;
+type SheetRows = (string | number | null)[][];
+
+const DEBIT_PATTERN = /เดบิต|debit|^dr\.?$/i;
+const CREDIT_PATTERN = /เครดิต|credit|^cr\.?$/i;
+const DEPARTMENT_PATTERN = /แผนก|หน่วยงาน|ฝ่าย|ศูนย์ต้นทุน|department|dept|cost\s*cent/i;
+const CODE_PATTERN = /รหัส|เลขที่บัญชี|code|account\s*no/i;
+const NAME_PATTERN = /ชื่อบัญชี|account\s*name|^บัญชี$|^account$/i;
+const DESCRIPTION_PATTERN = /รายการ|คำอธิบาย|description/i;
+// บรรทัดยอดรวมของรายงาน (ไม่ใช่บัญชี) เช่น "รวม", "Total", "ยอดยกไป"
+const TOTAL_ROW_PATTERN = /^(รวม|ยอดรวม|total|grand total|ยอดยกไป)/i;
+
+const BALANCE_TOLERANCE = 0.5; // ปัดเศษสตางค์
+
+// ผังบัญชีมาตรฐานของไทย: 1 สินทรัพย์ 2 หนี้สิน 3 ทุน 4 รายได้ 5 ค่าใช้จ่าย (หลักที่สอง 1 = หมุนเวียน/ต้นทุนขาย)
+const CODE_CATEGORIES: [RegExp, AccountCategory][] = [
+  [/^11/, 'currentAsset'],
+  [/^1/, 'nonCurrentAsset'],
+  [/^21/, 'currentLiability'],
+  [/^2/, 'nonCurrentLiability'],
+  [/^3/, 'equity'],
+  [/^4/, 'revenue'],
+  [/^51/, 'cogs'],
+  [/^5/, 'opex'],
+];
+
+const BALANCE_SHEET_SECTIONS: { title: string; categories: AccountCategory[] }[] = [
+  { title: 'สินทรัพย์', categories: ['currentAsset', 'nonCurrentAsset'] },
+  { title: 'หนี้สิน', categories: ['currentLiability', 'nonCurrentLiability'] },
+];
+
+const INCOME_CATEGORIES: AccountCategory[] = [...REVENUE_CATEGORIES, ...EXPENSE_CATEGORIES];
+
+// ตำแหน่งคอลัมน์ของ TB/GL (-1 = ไม่มีคอลัมน์นี้)
+export interface LedgerColumns {
+  header: number;
+  code: number;
+  name: number;
+  debit: number;
+  credit: number;
+  department: number;
+}
+
+// ยอดรวมของบัญชีหนึ่งในหน่วยงานหนึ่ง
+export interface LedgerAccount {
+  code?: string;
+  name: string;
+  department: string;
+  debit: number;
+  credit: number;
+  category?: AccountCategory;
+}
+
+// งบที่สร้างจาก TB/GL: แถวสำหรับแสดง/ส่งให้ AI และรายการที่อ่านแล้ว (พร้อมหมวดบัญชี)
+export interface LedgerStatement {
+  name: string;
+  statement: StatementType;
+  rows: SheetRows;
+  items: LineItem[];
+}
+
+export interface LedgerImport {
+  accounts: LedgerAccount[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+  statements: LedgerStatement[];
+}
+
+const text = (cell: Cell) => (cell === null || cell === undefined ? '' : String(cell).trim());
+
+const findColumn = (header: Cell[], pattern: RegExp, exclude: number[] = []) =>
+  header.findIndex((cell, col) => !exclude.includes(col) && pattern.test(text(cell)));
+
+// TB ที่มีทั้งยอดยกมา ยอดเคลื่อนไหว และยอดยกไป ใช้คู่เดบิต/เครดิตคู่สุดท้าย (ยอดคงเหลือปลายงวด)
+const findLastColumn = (header: Cell[], pattern: RegExp) =>
+  header.reduce<number>((found, cell, col) => (pattern.test(text(cell)) ? col : found), -1);
+
+/**
+ * หาแถวหัวตารางของ Trial Balance หรือ GL (ต้องมีคอลัมน์เดบิตและเครดิต และรหัสหรือชื่อบัญชี)
+ */
+export const findLedgerColumns = (rows: Cell[][]): LedgerColumns | null => {
+  for (const [index, header] of rows.slice(0, 15).entries()) {
+    const debit = findLastColumn(header, DEBIT_PATTERN);
+    const credit = findLastColumn(header, CREDIT_PATTERN);
+    if (debit < 0 || credit < 0) continue;
+    const department = findColumn(header, DEPARTMENT_PATTERN);
+    const code = findColumn(header, CODE_PATTERN, [department]);
+    let name = findColumn(header, NAME_PATTERN, [department, code]);
+    if (name < 0) name = findColumn(header, DESCRIPTION_PATTERN, [department, code]);
+    if (code < 0 && name < 0) continue;
+    return { header: index, code, name, debit, credit, department };
+  }
+  return null;
+};
+
+const mappedCategory = (account: LedgerAccount, rules: AccountMappingRule[]) => {
+  const [mapped] = applyAccountMapping([{ label: account.name, code: account.code, period: '', amount: 0 }], rules);
+  return mapped.category === 'subtotal' ? undefined : mapped.category;
+};
+
+// กฎของผู้ใช้มาก่อน แล้วจึงใช้รหัสบัญชี และชื่อบัญชีตามผังเริ่มต้น
+// (ชื่ออย่าง "ค่าใช้จ่ายค้างจ่าย" เป็นหนี้สิน แม้กฎเริ่มต้นจะจับคำว่า "ค่าใช้จ่าย")
+const classifyAccount = (account: LedgerAccount): AccountCategory | undefined => {
+  const code = account.code?.replace(/[.\-\s]/g, '');
+  return (
+    mappedCategory(account, loadUserRules()) ??
+    (code ? CODE_CATEGORIES.find(([pattern]) => pattern.test(code))?.[1] : undefined) ??
+    mappedCategory(account, DEFAULT_MAPPING_RULES)
+  );
+};
+
+/**
+ * รวมยอดเดบิต/เครดิตตามบัญชีและหน่วยงาน
+ * GL ที่แสดงชื่อบัญชีเฉพาะบรรทัดแรกของกลุ่ม จะใช้บัญชีล่าสุดกับบรรทัดรายการที่ไม่มีรหัส/ชื่อบัญชี
+ */
+export const readLedger = (rows: Cell[][], columns: LedgerColumns): LedgerAccount[] => {
+  const accounts = new Map<string, LedgerAccount>();
+  let current: { code?: string; name: string } | null = null;
+
+  rows.slice(columns.header + 1).forEach(row => {
+    const code = columns.code >= 0 ? text(row[columns.code]) : '';
+    const name = columns.name >= 0 ? text(row[columns.name]) : '';
+    if (TOTAL_ROW_PATTERN.test(name) || TOTAL_ROW_PATTERN.test(code)) return;
+    if (code || name) current = { code: code || undefined, name: name || code };
+
+    const debit = parseAmount(row[columns.debit]) ?? 0;
+    const credit = parseAmount(row[columns.credit]) ?? 0;
+    if (!current || (debit === 0 && credit === 0)) return;
+
+    const department = (columns.department >= 0 && text(row[columns.department])) || GENERAL_DEPARTMENT;
+    const key = `${current.code ?? ''}|${normalizeLabel(current.name)}|${department}`;
+    const account = accounts.get(key) ?? { ...current, department, debit: 0, credit: 0 };
+    account.debit += debit;
+    account.credit += credit;
+    accounts.set(key, account);
+  });
+
+  return Array.from(accounts.values()).map(account => ({ ...account, category: classifyAccount(account) }));
+};
+
+// สินทรัพย์/ค่าใช้จ่ายมียอดปกติด้านเดบิต นอกนั้นด้านเครดิต
+const balanceOf = (account: LedgerAccount) =>
+  !account.category ||
+  account.category === 'currentAsset' ||
+  account.category === 'nonCurrentAsset' ||
+  EXPENSE_CATEGORIES.includes(account.category)
+    ? account.debit - account.credit
+    : account.credit - account.debit;
+
+// เขียนงบทีละบรรทัด พร้อมเก็บ LineItem ที่ชี้กลับไปยังแถวของงบที่สร้าง
+const statementWriter = (name: string, statement: StatementType, period: string, file?: string) => {
+  const rows: SheetRows = [[STATEMENT_LABELS[statement], null, null], ['รหัสบัญชี', 'ชื่อบัญชี', period]];
+  const items: LineItem[] = [];
+  return {
+    heading: (title: string) => rows.push([null, title, null]),
+    line: (label: string, amount: number, category?: AccountCategory, code?: string) => {
+      items.push({ label, period, amount, code, sheet: name, statement, file, category, row: rows.length, column: 2 });
+      rows.push([code ?? null, label, amount]);
+    },
+    done: (): LedgerStatement => ({ name, statement, rows, items }),
+  };
+};
+
+const sum = (accounts: LedgerAccount[]) => accounts.reduce((total, a) => total + balanceOf(a), 0);
+
+const byCode = (a: LedgerAccount, b: LedgerAccount) => (a.code ?? a.name).localeCompare(b.code ?? b.name);
+
+// รวมบัญชีเดียวกันจากทุกหน่วยงาน (งบแสดงฐานะการเงินไม่แยกหน่วยงาน)
+const mergeDepartments = (accounts: LedgerAccount[]): LedgerAccount[] => {
+  const merged = new Map<string, LedgerAccount>();
+  accounts.forEach(account => {
+    const key = `${account.code ?? ''}|${normalizeLabel(account.name)}`;
+    const existing = merged.get(key);
+    merged.set(key, existing
+      ? { ...existing, debit: existing.debit + account.debit, credit: existing.credit + account.credit }
+      : { ...account, department: GENERAL_DEPARTMENT });
+  });
+  return Array.from(merged.values());
+};
+
+const incomeStatement = (name: string, accounts: LedgerAccount[], period: string, file?: string): LedgerStatement => {
+  const writer = statementWriter(name, 'incomeStatement', period, file);
+  INCOME_CATEGORIES.forEach(category => {
+    const group = accounts.filter(a => a.category === category).sort(byCode);
+    if (group.length === 0) return;
+    writer.heading(CATEGORY_LABELS[category]);
+    group.forEach(a => writer.line(a.name, balanceOf(a), category, a.code));
+  });
+  const unclassified = accounts.filter(a => !a.category).sort(byCode);
+  if (unclassified.length > 0) {
+    // ไม่ทราบหมวด: ให้ผู้ใช้จัดหมวดในขั้นตรวจผังบัญชี แล้วสร้างงบใหม่ (ยอดแสดงด้านเดบิตชั่วคราว)
+    writer.heading('บัญชีที่ยังไม่ได้จัดหมวด');
+    unclassified.forEach(a => writer.line(a.name, balanceOf(a), undefined, a.code));
+  }
+  const revenue = sum(accounts.filter(a => a.category && REVENUE_CATEGORIES.includes(a.category)));
+  const expense = sum(accounts.filter(a => a.category && EXPENSE_CATEGORIES.includes(a.category)));
+  writer.line('รวมรายได้', revenue, 'subtotal');
+  writer.line('รวมค่าใช้จ่าย', expense, 'subtotal');
+  writer.line('กำไร (ขาดทุน) สุทธิ', revenue - expense, 'subtotal');
+  return writer.done();
+};
+
+const balanceSheet = (accounts: LedgerAccount[], netIncome: number, period: string, file?: string): LedgerStatement => {
+  const writer = statementWriter(STATEMENT_LABELS.balanceSheet, 'balanceSheet', period, file);
+  const writeGroup = (category: AccountCategory) => {
+    const group = accounts.filter(a => a.category === category).sort(byCode);
+    if (group.length === 0) return 0;
+    writer.heading(CATEGORY_LABELS[category]);
+    group.forEach(a => writer.line(a.name, balanceOf(a), category, a.code));
+    const total = sum(group);
+    writer.line(`รวม${CATEGORY_LABELS[category]}`, total, 'subtotal');
+    return total;
+  };
+
+  let liabilities = 0;
+  BALANCE_SHEET_SECTIONS.forEach(({ title, categories }) => {
+    const total = categories.reduce((acc, category) => acc + writeGroup(category), 0);
+    writer.line(`รวม${title}`, total, 'subtotal');
+    if (title === 'หนี้สิน') liabilities = total;
+  });
+
+  writer.heading(CATEGORY_LABELS.equity);
+  accounts.filter(a => a.category === 'equity').sort(byCode).forEach(a => writer.line(a.name, balanceOf(a), 'equity', a.code));
+  // TB ก่อนปิดบัญชียังมีบัญชีรายได้/ค่าใช้จ่ายค้างอยู่ กำไรงวดนี้จึงยังไม่เข้ากำไรสะสม
+  if (netIncome !== 0) writer.line('กำไร (ขาดทุน) งวดปัจจุบัน', netIncome, 'equity');
+  const equity = sum(accounts.filter(a => a.category === 'equity')) + netIncome;
+  writer.line(`รวม${CATEGORY_LABELS.equity}`, equity, 'subtotal');
+  writer.line('รวมหนี้สินและส่วนของผู้ถือหุ้น', liabilities + equity, 'subtotal');
+  return writer.done();
+};
+
+/**
+ * สร้างงบแสดงฐานะการเงินและงบกำไรขาดทุนจาก TB/GL ในเครื่อง
+ * - ตรวจว่ายอดเดบิตรวมเท่ากับเครดิตรวม
+ * - งบกำไรขาดทุนแยก Sheet ตามหน่วยงาน/ศูนย์ต้นทุน (ชื่อ Sheet เป็นชื่อหน่วยงาน) ถ้าไฟล์มีคอลัมน์หน่วยงาน
+ * - GL ที่ไม่มียอดยกมา งบแสดงฐานะการเงินจะมีเฉพาะยอดเคลื่อนไหวของงวด
+ */
+export const buildLedgerStatements = (sheets: Cell[][][], period: string, file?: string): LedgerImport | null => {
+  const accounts = sheets.flatMap(rows => {
+    const columns = findLedgerColumns(rows);
+    return columns ? readLedger(rows, columns) : [];
+  });
+  if (accounts.length === 0) return null;
+
+  const totalDebit = accounts.reduce((total, a) => total + a.debit, 0);
+  const totalCredit = accounts.reduce((total, a) => total + a.credit, 0);
+
+  const income = accounts.filter(a => !a.category || INCOME_CATEGORIES.includes(a.category));
+  const departments = Array.from(new Set(income.map(a => a.department)));
+  const incomeStatements = departments.length > 1
+    ? departments.map(department => incomeStatement(department, income.filter(a => a.department === department), period, file))
+    : [incomeStatement(STATEMENT_LABELS.incomeStatement, mergeDepartments(income), period, file)];
+
+  const netIncome =
+    sum(income.filter(a => a.category && REVENUE_CATEGORIES.includes(a.category))) -
+    sum(income.filter(a => a.category && EXPENSE_CATEGORIES.includes(a.category)));
+  const position = mergeDepartments(accounts.filter(a => a.category && !INCOME_CATEGORIES.includes(a.category)));
+
+  return {
+    accounts,
+    totalDebit,
+    totalCredit,
+    balanced: Math.abs(totalDebit - totalCredit) <= BALANCE_TOLERANCE,
+    statements: [balanceSheet(position, netIncome, period, file), ...incomeStatements],
+  };
+};
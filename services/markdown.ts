@@ -0,0 +1,21 @@
+import { Marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+// Markdown แบบ GitHub (ตาราง, รายการลำดับเลข, โค้ด) — ขึ้นบรรทัดใหม่ตามต้นฉบับเหมือนที่ AI เขียน
+const markdown = new Marked({ gfm: true, breaks: true });
+
+// อนุญาตเฉพาะแท็กที่รายงานใช้ (ไม่มี <script>, <img>, <a>, <style>) และ attribute จัดแนวคอลัมน์ตารางเท่านั้น
+// เพราะเนื้อหามาจาก AI ซึ่งอาจถูกชักนำด้วยข้อความในไฟล์ที่อัปโหลด
+const ALLOWED_TAGS = [
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'blockquote',
+  'ul', 'ol', 'li', 'strong', 'em', 'del', 'code', 'pre',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+];
+
+/**
+ * แปลง Markdown เป็น HTML ที่ผ่านการกรองแล้ว พร้อมใช้กับ dangerouslySetInnerHTML
+ */
+export const renderMarkdown = (source: string): string => {
+  const html = markdown.parse(source, { async: false });
+  return DOMPurify.sanitize(html, { ALLOWED_TAGS, ALLOWED_ATTR: ['align'] });
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { FinancialFigures, MaterialitySettings, SignificantChange } from '../types';
+import { applyMateriality, describeRule, selectForReview } from './materiality';
+
+const figures: FinancialFigures = {
+  currentAssets: null,
+  currentLiabilities: null,
+  totalAssets: 10_000_000,
+  totalDebt: null,
+  equity: null,
+  revenue: 5_000_000,
+  netIncome: null,
+};
+
+const change = (item: string, fromAmount: number, toAmount: number, relatedDepartment?: string): SignificantChange => ({
+  item,
+  amount: toAmount - fromAmount,
+  percentage: '',
+  trend: toAmount >= fromAmount ? 'increase' : 'decrease',
+  reason: '',
+  relatedDepartment,
+  basis: { fromPeriod: '2566', toPeriod: '2567', fromAmount, toAmount },
+});
+
+const settings: MaterialitySettings = {
+  default: { minAmount: 100_000, percentOfRevenue: 1, minPercent: 10 },
+  departments: { BusA: { minAmount: 10_000 } },
+  maxItems: 2,
+};
+
+describe('applyMateriality', () => {
+  it('ใช้เกณฑ์บาทที่สูงที่สุดระหว่างบาทและ % ของรายได้ ร่วมกับ % การเปลี่ยนแปลง', () => {
+    const selected = applyMateriality([
+      change('ค่าเช่า', 500_000, 540_000), // ต่ำกว่า 100,000 บาท
+      change('ค่าที่ปรึกษา', 2_000_000, 2_150_000), // 150,000 บาท แต่เปลี่ยนแปลง 7.5%
+      change('ค่าโฆษณา', 1_000_000, 1_200_000),
+    ], settings, figures);
+    expect(selected.map(c => c.item)).toEqual(['ค่าโฆษณา']);
+    expect(selected[0].materiality).toEqual({ rule: 'ทั่วไป: ≥ 100,000 บาท และ ≥ 1% ของรายได้ และ เปลี่ยนแปลง ≥ 10%', threshold: 100_000, score: 2 });
+  });
+
+  it('ใช้เกณฑ์ของหน่วยงานแทนเกณฑ์ทั่วไป และจัดอันดับตามสัดส่วนต่อผลต่างขั้นต่ำ', () => {
+    const selected = applyMateriality([
+      change('ค่าโฆษณา', 1_000_000, 1_300_000),
+      change('ค่าเช่า', 500_000, 540_000, 'BusA'),
+      change('ค่าน้ำมัน', 10_000, 12_000, 'BusA'),
+    ], settings, figures);
+    expect(selected.map(c => [c.item, c.materiality?.score])).toEqual([['ค่าเช่า', 4], ['ค่าโฆษณา', 3]]);
+  });
+
+  it('ตัดเหลือ maxItems รายการ', () => {
+    const many = [1, 2, 3].map(n => change(`รายการ ${n}`, 0, n * 1_000_000));
+    expect(applyMateriality(many, settings, figures)).toHaveLength(2);
+  });
+});
+
+describe('selectForReview', () => {
+  it('ส่งรายการที่ผ่านเกณฑ์ใดเกณฑ์หนึ่งให้ AI อธิบาย (ก่อนรู้หน่วยงาน)', () => {
+    const review = selectForReview([change('ค่าเช่า', 500_000, 540_000), change('ค่าน้ำมัน', 10_000, 12_000)], settings, figures);
+    expect(review.map(c => c.item)).toEqual(['ค่าเช่า']);
+  });
+});
+
+describe('describeRule', () => {
+  it('ไม่มีเกณฑ์ = ทุกรายการที่เปลี่ยนแปลง', () => {
+    expect(describeRule({})).toBe('ทุกรายการที่เปลี่ยนแปลง');
+  });
+});
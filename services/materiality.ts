@@ -0,0 +1,99 @@
+import { FinancialFigures, MaterialityRule, MaterialitySettings, SignificantChange } from "../types";
+
+const SETTINGS_KEY = 'smartacc.materiality';
+// จำนวนรายการสูงสุดที่ส่งให้ AI อธิบายสาเหตุ (ก่อนรู้หน่วยงานของแต่ละรายการ)
+const MAX_REVIEW_ITEMS = 40;
+
+export const DEFAULT_MATERIALITY: MaterialitySettings = {
+  default: { minPercent: 10 },
+  departments: {},
+  maxItems: 15,
+};
+
+export const loadMaterialitySettings = (): MaterialitySettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null') as Partial<MaterialitySettings> | null;
+    return { ...DEFAULT_MATERIALITY, ...saved };
+  } catch {
+    return DEFAULT_MATERIALITY;
+  }
+};
+
+export const saveMaterialitySettings = (settings: MaterialitySettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const formatBaht = (value: number) => value.toLocaleString('th-TH', { maximumFractionDigits: 0 });
+
+// % การเปลี่ยนแปลง: จากตัวเลขตั้งต้นถ้ามี ไม่เช่นนั้นจากข้อความ ("+12.5%", "ใหม่")
+const changePercent = (change: SignificantChange): number => {
+  if (change.basis) {
+    const { fromAmount, toAmount } = change.basis;
+    return fromAmount === 0 ? Infinity : Math.abs((toAmount - fromAmount) / fromAmount) * 100;
+  }
+  const parsed = Number(change.percentage.replace(/[+%,\s]/g, ''));
+  return Number.isFinite(parsed) ? Math.abs(parsed) : Infinity;
+};
+
+// ผลต่างขั้นต่ำเป็นบาท: ค่าสูงสุดของเกณฑ์บาทและเกณฑ์ % ของรายได้/สินทรัพย์ (ตัวเลขที่ไม่มีในไฟล์ข้ามไป)
+const amountThreshold = (rule: MaterialityRule, figures: FinancialFigures): number =>
+  Math.max(
+    rule.minAmount ?? 0,
+    rule.percentOfRevenue !== undefined && figures.revenue !== null ? Math.abs(figures.revenue) * rule.percentOfRevenue / 100 : 0,
+    rule.percentOfAssets !== undefined && figures.totalAssets !== null ? Math.abs(figures.totalAssets) * rule.percentOfAssets / 100 : 0
+  );
+
+export const describeRule = (rule: MaterialityRule): string => {
+  const parts = [
+    rule.minAmount !== undefined && `≥ ${formatBaht(rule.minAmount)} บาท`,
+    rule.percentOfRevenue !== undefined && `≥ ${rule.percentOfRevenue}% ของรายได้`,
+    rule.percentOfAssets !== undefined && `≥ ${rule.percentOfAssets}% ของสินทรัพย์`,
+    rule.minPercent !== undefined && `เปลี่ยนแปลง ≥ ${rule.minPercent}%`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' และ ') : 'ทุกรายการที่เปลี่ยนแปลง';
+};
+
+const ruleFor = (settings: MaterialitySettings, department?: string): { label: string; rule: MaterialityRule } => {
+  const override = department ? settings.departments[department] : undefined;
+  return override
+    ? { label: department!, rule: override }
+    : { label: 'ทั่วไป', rule: settings.default };
+};
+
+const isMaterial = (change: SignificantChange, rule: MaterialityRule, threshold: number): boolean =>
+  change.amount !== 0 && Math.abs(change.amount) >= threshold && changePercent(change) >= (rule.minPercent ?? 0);
+
+/**
+ * คัดและจัดอันดับรายการผลต่างตามเกณฑ์ความมีสาระสำคัญ (ใช้เกณฑ์ของหน่วยงานถ้ามี)
+ * เรียงตามผลต่างเทียบกับผลต่างขั้นต่ำ แล้วตัดเหลือ maxItems รายการ
+ */
+export const applyMateriality = (
+  changes: SignificantChange[],
+  settings: MaterialitySettings,
+  figures: FinancialFigures
+): SignificantChange[] =>
+  changes
+    .flatMap(change => {
+      const { label, rule } = ruleFor(settings, change.relatedDepartment);
+      const threshold = amountThreshold(rule, figures);
+      if (!isMaterial(change, rule, threshold)) return [];
+      const score = threshold > 0 ? Math.abs(change.amount) / threshold : Math.abs(change.amount);
+      return [{ ...change, materiality: { rule: `${label}: ${describeRule(rule)}`, threshold, score } }];
+    })
+    .sort((a, b) => b.materiality.score - a.materiality.score)
+    .slice(0, settings.maxItems);
+
+/**
+ * รายการที่อาจมีสาระสำคัญตามเกณฑ์ใดเกณฑ์หนึ่ง (ทั่วไปหรือของหน่วยงาน) สำหรับส่งให้ AI อธิบายสาเหตุ
+ * ยังไม่รู้หน่วยงานของรายการในขั้นนี้ จึงใช้เกณฑ์ที่หลวมที่สุด แล้วคัดจริงด้วย applyMateriality ภายหลัง
+ */
+export const selectForReview = (
+  changes: SignificantChange[],
+  settings: MaterialitySettings,
+  figures: FinancialFigures
+): SignificantChange[] => {
+  const rules = [settings.default, ...Object.values(settings.departments)];
+  return changes
+    .filter(change => rules.some(rule => isMaterial(change, rule, amountThreshold(rule, figures))))
+    .slice(0, MAX_REVIEW_ITEMS);
+};
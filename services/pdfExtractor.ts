@@ -0,0 +1,156 @@
+import * as pdfjs from 'pdfjs-dist';
+import type { PDFPageProxy, TextItem as PdfTextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { createWorker, Worker as OcrWorker } from 'tesseract.js';
+import ocrWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import { parseAmount } from "./spreadsheetParser";
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// หน้าที่มีตัวอักษรน้อยกว่านี้ถือว่าเป็นภาพสแกน ต้องใช้ OCR
+const MIN_TEXT_CHARS = 20;
+const OCR_SCALE = 2;
+const OCR_LANGS = 'tha+eng';
+// ไฟล์ OCR ที่ vite.config.ts (ocrAssets) คัดลอกไปกับแอป — worker อยู่คนละ URL จึงต้องเป็น URL เต็ม
+const bundledOcrPath = (dir: string) => new URL(`${import.meta.env.BASE_URL}ocr/${dir}`, window.location.href).href;
+
+export interface PdfPage {
+  pageNumber: number;
+  rows: string[][]; // ทุกบรรทัดของหน้า แยกเป็นช่องตามระยะห่างของข้อความ
+  ocr: boolean; // true = อ่านด้วย OCR (หน้าสแกน)
+}
+
+// ตำแหน่งข้อความบนหน้า (y นับจากบนลงล่าง ที่เส้นฐานของตัวอักษร)
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * จัดข้อความเป็นแถวและช่องตามตำแหน่งบนหน้า
+ * ข้อความที่ y ใกล้กันเป็นบรรทัดเดียวกัน ช่องว่างที่กว้างกว่าความสูงตัวอักษรถือเป็นการขึ้นคอลัมน์ใหม่
+ */
+const groupRows = (items: PositionedText[]): string[][] => {
+  const sorted = items.filter(item => item.text.trim()).sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: PositionedText[][] = [];
+  sorted.forEach(item => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - item.y) <= Math.max(line[0].height, item.height) * 0.5) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  });
+
+  return lines.map(line => {
+    const cells: string[] = [];
+    let prev: PositionedText | undefined;
+    line.sort((a, b) => a.x - b.x).forEach(item => {
+      const gap = prev ? item.x - (prev.x + prev.width) : Infinity;
+      const charHeight = Math.max(item.height, 1);
+      if (gap > charHeight * 1.5) {
+        cells.push(item.text.trim());
+      } else {
+        cells[cells.length - 1] += (gap > charHeight * 0.15 ? ' ' : '') + item.text.trim();
+      }
+      prev = item;
+    });
+    return cells;
+  });
+};
+
+const readTextLayer = async (page: PDFPageProxy): Promise<PositionedText[]> => {
+  const { height } = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  return content.items
+    .filter((item): item is PdfTextItem => 'str' in item)
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4],
+      y: height - item.transform[5],
+      width: item.width,
+      height: item.height || Math.abs(item.transform[3]),
+    }));
+};
+
+const readWithOcr = async (page: PDFPageProxy, worker: OcrWorker): Promise<PositionedText[]> => {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+
+  const { data } = await worker.recognize(canvas);
+  return data.words.map(word => ({
+    text: word.text,
+    x: word.bbox.x0,
+    y: word.bbox.y1,
+    width: word.bbox.x1 - word.bbox.x0,
+    height: word.bbox.y1 - word.bbox.y0,
+  }));
+};
+
+// โหลดตัวอ่าน OCR ไม่ได้ (เช่น server ไม่ได้ส่งไฟล์ใน /ocr) แสดงข้อความนี้ให้ผู้ใช้แทนข้อผิดพลาดทั่วไป
+export class OcrUnavailableError extends Error {
+  constructor() {
+    super('โหลดตัวอ่าน OCR หรือข้อมูลภาษาไม่สำเร็จ (ตรวจว่า server ส่งไฟล์ในโฟลเดอร์ ocr/ ของแอป หรือ VITE_OCR_CORE_PATH / VITE_OCR_LANG_PATH ชี้ไปที่ไฟล์ที่มีอยู่)');
+    this.name = 'OcrUnavailableError';
+  }
+}
+
+/**
+ * OCR worker ตัวประมวลผล (tesseract.js-core) และข้อมูลภาษาไทย/อังกฤษ มากับแอปทั้งหมด ใช้งาน offline ได้
+ * ระบุ VITE_OCR_CORE_PATH / VITE_OCR_LANG_PATH เฉพาะเมื่อต้องการโหลดจากที่อื่น (เช่น CDN ของหน่วยงาน)
+ */
+const createOcrWorker = async (): Promise<OcrWorker> => {
+  try {
+    return await createWorker(OCR_LANGS, undefined, {
+      workerPath: ocrWorkerUrl,
+      corePath: import.meta.env.VITE_OCR_CORE_PATH || bundledOcrPath('core'),
+      langPath: import.meta.env.VITE_OCR_LANG_PATH || bundledOcrPath('lang'),
+      errorHandler: () => undefined, // ข้อผิดพลาดส่งกลับทาง Promise ของ createWorker แล้ว
+    });
+  } catch {
+    throw new OcrUnavailableError();
+  }
+};
+
+/**
+ * อ่านข้อความและตารางจาก PDF ทีละหน้า
+ * ใช้ Text Layer ของ PDF ก่อน หน้าที่ไม่มีข้อความ (ภาพสแกน) จะอ่านด้วย Tesseract OCR (ไทย + อังกฤษ)
+ */
+export const extractPdfPages = async (
+  data: ArrayBuffer,
+  onProgress?: (pageNumber: number, totalPages: number, ocr: boolean) => void
+): Promise<PdfPage[]> => {
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  let ocrWorker: OcrWorker | undefined;
+  const pages: PdfPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      let items = await readTextLayer(page);
+      const ocr = items.reduce((sum, item) => sum + item.text.replace(/\s/g, '').length, 0) < MIN_TEXT_CHARS;
+      onProgress?.(pageNumber, pdf.numPages, ocr);
+
+      if (ocr) {
+        // สร้าง OCR worker เมื่อเจอหน้าสแกนหน้าแรกเท่านั้น (โหลดข้อมูลภาษาค่อนข้างนาน)
+        ocrWorker ??= await createOcrWorker();
+        items = await readWithOcr(page, ocrWorker);
+      }
+      pages.push({ pageNumber, rows: groupRows(items), ocr });
+    }
+  } finally {
+    await ocrWorker?.terminate();
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+// แถวที่ดูเหมือนตารางตัวเลข (ชื่อรายการ + ตัวเลขอย่างน้อย 1 ช่อง) ใช้แสดงตัวอย่างให้ผู้ใช้ตรวจ
+export const tableRows = (page: PdfPage): string[][] =>
+  page.rows.filter(row => row.length >= 2 && row.some(cell => parseAmount(cell) !== null));
@@ -0,0 +1,51 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmProvider, ProviderConfig } from "./types";
+import { ANALYSIS_SCHEMAS } from "../analysisSchema";
+import { fileCaption } from "./shared";
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export const createGeminiProvider = ({ apiKey, model }: ProviderConfig): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey: apiKey || '' });
+
+  return {
+    name: 'gemini',
+    generateJson: async ({ prompt, files, schema, signal }) => {
+      if (!apiKey) {
+        throw new Error("ไม่พบ API Key กรุณาตั้งค่า Environment Variable (API_KEY) ของ server");
+      }
+
+      const parts = [
+        {
+          text: prompt
+        },
+        ...files.flatMap(file => [
+          {
+            text: fileCaption(file)
+          },
+          {
+            inlineData: {
+              mimeType: file.mimeType,
+              data: file.data
+            }
+          }
+        ])
+      ];
+
+      const response = await ai.models.generateContent({
+        model: model || DEFAULT_MODEL,
+        contents: { parts: parts },
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: ANALYSIS_SCHEMAS[schema],
+          abortSignal: signal,
+        },
+      });
+
+      if (!response.text) {
+        throw new Error("ไม่ได้รับข้อมูลตอบกลับจาก AI");
+      }
+      return response.text;
+    },
+  };
+};
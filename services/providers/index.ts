@@ -0,0 +1,52 @@
+import { LlmProvider, ProviderConfig, ProviderName } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createOllamaProvider } from "./ollamaProvider";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+
+export type { LlmProvider, LlmRequest, ProviderConfig, ProviderName } from "./types";
+
+const PROVIDERS: Record<ProviderName, (config: ProviderConfig) => LlmProvider> = {
+  proxy: createProxyProvider,
+  gemini: createGeminiProvider,
+  openai: createOpenAiProvider,
+  ollama: createOllamaProvider,
+  mock: createMockProvider,
+};
+
+interface ProviderEnv {
+  provider?: string;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+// แปลงค่าจาก Environment Variable เป็น ProviderConfig (ใช้ร่วมกันทั้งเบราว์เซอร์และ server)
+export const parseProviderConfig = (env: ProviderEnv, fallback: ProviderName): ProviderConfig => {
+  const provider = (env.provider || fallback) as ProviderName;
+  if (!PROVIDERS[provider]) {
+    throw new Error(`ไม่รู้จัก LLM Provider "${provider}" (รองรับ: ${Object.keys(PROVIDERS).join(', ')})`);
+  }
+  return {
+    provider,
+    model: env.model || undefined,
+    apiKey: env.apiKey || undefined,
+    baseUrl: env.baseUrl || undefined,
+  };
+};
+
+// ฝั่งเบราว์เซอร์ใช้ Environment Variable แบบ VITE (import.meta.env) ซึ่งถูก bundle ไปกับหน้าเว็บ
+// จึงไม่อ่าน API Key ที่นี่ ค่าเริ่มต้นคือเรียกผ่าน server (proxy) ซึ่งเก็บ API Key ไว้เอง
+export const getProviderConfig = (): ProviderConfig =>
+  parseProviderConfig(
+    {
+      provider: import.meta.env.VITE_LLM_PROVIDER,
+      model: import.meta.env.VITE_LLM_MODEL,
+      baseUrl: import.meta.env.VITE_LLM_BASE_URL,
+    },
+    'proxy'
+  );
+
+export const createProvider = (config: ProviderConfig = getProviderConfig()): LlmProvider =>
+  PROVIDERS[config.provider](config);
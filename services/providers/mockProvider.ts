@@ -0,0 +1,20 @@
+import { LlmProvider } from "./types";
+import mockAnalysis from "./fixtures/mockAnalysis.json";
+
+const MOCK_DELAY_MS = 800;
+
+// คืนผลวิเคราะห์ตัวอย่างเดิมทุกครั้ง ใช้พัฒนาและสาธิต Dashboard โดยไม่ต้องใช้เครือข่ายหรือ API Key
+// (Fixture มีครบทุกช่องของทุก Schema ช่องที่เกินจะถูกข้ามตอนตรวจ)
+export const createMockProvider = (): LlmProvider => ({
+  name: 'mock',
+  generateJson: async ({ signal }) => {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, MOCK_DELAY_MS);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      });
+    });
+    return JSON.stringify(mockAnalysis);
+  },
+});
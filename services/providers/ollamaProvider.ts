@@ -0,0 +1,41 @@
+import { LlmProvider, ProviderConfig } from "./types";
+import { ANALYSIS_SCHEMAS } from "../analysisSchema";
+import { decodeTextFile, fileCaption, isTextFile, readErrorResponse } from "./shared";
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+const DEFAULT_MODEL = 'llama3.1';
+
+// Ollama รับได้เฉพาะข้อความ จึงส่งไฟล์ Excel/CSV ที่แปลงเป็น CSV แล้วเท่านั้น
+export const createOllamaProvider = ({ model, baseUrl }: ProviderConfig): LlmProvider => ({
+  name: 'ollama',
+  generateJson: async ({ prompt, files, schema, signal }) => {
+    const unsupported = files.filter(file => !isTextFile(file));
+    if (unsupported.length > 0) {
+      throw new Error(`Ollama รองรับเฉพาะไฟล์ Excel/CSV (ไม่รองรับ ${unsupported.map(f => f.name).join(', ')})`);
+    }
+
+    const content = [prompt, ...files.map(file => `${fileCaption(file)}\n${decodeTextFile(file)}`)].join('\n\n');
+
+    const response = await fetch(`${(baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: model || DEFAULT_MODEL,
+        stream: false,
+        format: ANALYSIS_SCHEMAS[schema],
+        messages: [{ role: 'user', content }],
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(await readErrorResponse(response));
+    }
+    const data = await response.json();
+    const text: string | undefined = data.message?.content;
+    if (!text) {
+      throw new Error("ไม่ได้รับข้อมูลตอบกลับจาก AI");
+    }
+    return text;
+  },
+});
@@ -0,0 +1,48 @@
+import { LlmProvider, ProviderConfig } from "./types";
+import { ANALYSIS_SCHEMAS } from "../analysisSchema";
+import { decodeTextFile, fileCaption, isTextFile, readErrorResponse } from "./shared";
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// ใช้ได้กับ OpenAI และ endpoint ที่เข้ากันได้ (เช่น llama.cpp server, vLLM, LM Studio)
+export const createOpenAiProvider = ({ apiKey, model, baseUrl }: ProviderConfig): LlmProvider => ({
+  name: 'openai',
+  generateJson: async ({ prompt, files, schema, signal }) => {
+    const content = [
+      { type: 'text', text: prompt },
+      ...files.map(file =>
+        isTextFile(file)
+          ? { type: 'text', text: `${fileCaption(file)}\n${decodeTextFile(file)}` }
+          : { type: 'file', file: { filename: file.name, file_data: `data:${file.mimeType};base64,${file.data}` } }
+      ),
+    ];
+
+    const response = await fetch(`${(baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: model || DEFAULT_MODEL,
+        messages: [{ role: 'user', content }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: `financial_${schema}`, schema: ANALYSIS_SCHEMAS[schema] },
+        },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(await readErrorResponse(response));
+    }
+    const data = await response.json();
+    const text: string | undefined = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error("ไม่ได้รับข้อมูลตอบกลับจาก AI");
+    }
+    return text;
+  },
+});
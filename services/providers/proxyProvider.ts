@@ -0,0 +1,26 @@
+import { LlmProvider, ProviderConfig } from "./types";
+
+export const PROXY_ENDPOINT = '/api/analyze';
+
+// เรียก AI ผ่าน server ของเราเอง (server/index.ts) เพื่อไม่ให้ API Key อยู่ในเบราว์เซอร์
+// ส่งเฉพาะชื่อ Schema ฝั่ง server จะใช้ Schema ของตัวเองเสมอ
+export const createProxyProvider = ({ baseUrl }: ProviderConfig): LlmProvider => ({
+  name: 'proxy',
+  generateJson: async ({ prompt, files, schema, signal }) => {
+    const response = await fetch(`${baseUrl ?? ''}${PROXY_ENDPOINT}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt, files, schema }),
+      signal,
+    });
+
+    const body = (await response.json().catch(() => null)) as { text?: string; error?: string } | null;
+    if (!response.ok) {
+      throw new Error(body?.error || `Server ตอบกลับ HTTP ${response.status}`);
+    }
+    if (!body?.text) {
+      throw new Error("ไม่ได้รับข้อมูลตอบกลับจาก AI");
+    }
+    return body.text;
+  },
+});
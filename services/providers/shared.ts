@@ -0,0 +1,18 @@
+import { UploadedFile } from "../../types";
+
+export const fileCaption = (file: UploadedFile): string =>
+  `ไฟล์: ${file.name}${file.period ? ` (งวด ${file.period})` : ''}`;
+
+export const isTextFile = (file: UploadedFile): boolean =>
+  file.mimeType.startsWith('text/') || file.mimeType === 'application/json';
+
+// ถอด base64 (UTF-8) กลับเป็นข้อความ สำหรับ Provider ที่รับได้เฉพาะข้อความ
+export const decodeTextFile = (file: UploadedFile): string => {
+  const bytes = Uint8Array.from(atob(file.data), c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const readErrorResponse = async (response: Response): Promise<string> => {
+  const body = await response.text().catch(() => '');
+  return `HTTP ${response.status}${body ? `: ${body.slice(0, 300)}` : ''}`;
+};
@@ -0,0 +1,24 @@
+import { UploadedFile } from "../../types";
+import { SchemaName } from "../analysisSchema";
+
+export type ProviderName = 'proxy' | 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string; // สำหรับ OpenAI-compatible endpoint หรือ Ollama/llama.cpp server
+}
+
+export interface LlmRequest {
+  prompt: string;
+  files: UploadedFile[];
+  schema: SchemaName; // Provider แปลงเป็น JSON Schema เองจาก ANALYSIS_SCHEMAS
+  signal?: AbortSignal; // ยกเลิกคำขอที่กำลังทำงานอยู่
+}
+
+// Provider ทุกตัวคืน JSON เป็นข้อความ การ parse และตรวจ schema ทำที่ analysisService
+export interface LlmProvider {
+  name: ProviderName;
+  generateJson: (request: LlmRequest) => Promise<string>;
+}
@@ -0,0 +1,49 @@
+import { BenchmarkPreset, RatioKey, RatioThreshold, RatioThresholds } from "../types";
+import benchmarkData from "./data/ratioBenchmarks.json";
+
+const SETTINGS_KEY = 'smartacc.benchmark';
+
+export const BENCHMARK_PRESETS = benchmarkData.presets as BenchmarkPreset[];
+export const BENCHMARK_NOTE = benchmarkData.note;
+export const DEFAULT_PRESET_ID = 'general';
+
+// ชุดเกณฑ์ที่เลือก และเกณฑ์ที่ผู้ใช้ปรับเองรายอัตราส่วน (ทับค่าของชุดเกณฑ์)
+export interface BenchmarkSettings {
+  presetId: string;
+  overrides: Partial<RatioThresholds>;
+}
+
+export interface ResolvedBenchmark {
+  preset: BenchmarkPreset;
+  thresholds: RatioThresholds;
+}
+
+export const DEFAULT_BENCHMARK_SETTINGS: BenchmarkSettings = { presetId: DEFAULT_PRESET_ID, overrides: {} };
+
+export const findPreset = (id: string): BenchmarkPreset =>
+  BENCHMARK_PRESETS.find(p => p.id === id) ?? BENCHMARK_PRESETS.find(p => p.id === DEFAULT_PRESET_ID)!;
+
+export const resolveBenchmark = ({ presetId, overrides }: BenchmarkSettings = DEFAULT_BENCHMARK_SETTINGS): ResolvedBenchmark => {
+  const preset = findPreset(presetId);
+  return { preset, thresholds: { ...preset.thresholds, ...overrides } };
+};
+
+export const isOverridden = (settings: BenchmarkSettings, key: RatioKey): boolean => settings.overrides[key] !== undefined;
+
+export const overrideThreshold = (settings: BenchmarkSettings, key: RatioKey, threshold: RatioThreshold | undefined): BenchmarkSettings => {
+  const { [key]: _previous, ...rest } = settings.overrides;
+  return { ...settings, overrides: threshold ? { ...rest, [key]: threshold } : rest };
+};
+
+export const loadBenchmarkSettings = (): BenchmarkSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null') as Partial<BenchmarkSettings> | null;
+    return { presetId: findPreset(saved?.presetId ?? DEFAULT_PRESET_ID).id, overrides: saved?.overrides ?? {} };
+  } catch {
+    return DEFAULT_BENCHMARK_SETTINGS;
+  }
+};
+
+export const saveBenchmarkSettings = (settings: BenchmarkSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { FinancialFigures, RatioKey } from '../types';
+import { applyBenchmark, computeRatios, normalizeFigures } from './ratioEngine';
+import { resolveBenchmark } from './ratioBenchmarks';
+
+const figures: FinancialFigures = {
+  currentAssets: 300,
+  currentLiabilities: 200,
+  totalAssets: 1_000,
+  totalDebt: 400,
+  equity: 600,
+  revenue: 800,
+  netIncome: 120,
+};
+
+const ratioOf = (key: RatioKey, f: FinancialFigures = figures) => computeRatios(f).find(r => r.key === key)!;
+
+describe('computeRatios', () => {
+  it('คำนวณอัตราส่วนจากตัวเลขในไฟล์และตัดสินสถานะตามเกณฑ์ทั่วไป', () => {
+    expect(ratioOf('currentRatio')).toMatchObject({ value: 1.5, status: 'good' });
+    expect(ratioOf('netProfitMargin')).toMatchObject({ value: 15, status: 'good' });
+    expect(ratioOf('roe')).toMatchObject({ value: 20, status: 'good' });
+    expect(ratioOf('assetTurnover')).toMatchObject({ value: 0.8, status: 'warning' });
+    expect(ratioOf('debtToEquity').value).toBeCloseTo(0.667, 3);
+  });
+
+  it('ไม่พบตัวเลขตั้งต้น: คำนวณไม่ได้และเป็น warning', () => {
+    const ratio = ratioOf('currentRatio', normalizeFigures({ currentAssets: 300 }));
+    expect(ratio).toMatchObject({ value: null, status: 'warning' });
+    expect(ratio.description).toContain('หนี้สินหมุนเวียน');
+  });
+
+  it('ตัวหารเป็นศูนย์ (ที่ไม่ใช่ส่วนของผู้ถือหุ้น) คำนวณไม่ได้', () => {
+    expect(ratioOf('currentRatio', { ...figures, currentLiabilities: 0 }).value).toBeNull();
+  });
+
+  it.each([
+    ['ส่วนของผู้ถือหุ้นติดลบ', -200],
+    ['ส่วนของผู้ถือหุ้นเป็นศูนย์', 0],
+  ])('%s: D/E และ ROE ไม่มีความหมายและเป็น critical', (_, equity) => {
+    const loss = { ...figures, equity, netIncome: -50 };
+    for (const key of ['debtToEquity', 'roe'] as RatioKey[]) {
+      const ratio = ratioOf(key, loss);
+      expect(ratio).toMatchObject({ value: null, status: 'critical' });
+      expect(ratio.description).toContain('ไม่มีความหมาย');
+    }
+  });
+
+  it('ตัดสินสถานะใหม่ตามชุดเกณฑ์ที่ผู้ใช้ปรับ โดยคงค่าเดิม', () => {
+    const ratios = computeRatios(figures);
+    const strict = applyBenchmark(ratios, resolveBenchmark({ presetId: 'general', overrides: { roe: { good: 25, warning: 21 } } }));
+    expect(strict.find(r => r.key === 'roe')).toMatchObject({ value: 20, status: 'critical' });
+    expect(strict.find(r => r.key === 'roe')?.benchmark).toMatchObject({ good: 25, warning: 21, higherIsBetter: true });
+  });
+
+  it('ส่วนของผู้ถือหุ้นติดลบยังเป็น critical เมื่อเปลี่ยนชุดเกณฑ์', () => {
+    const ratios = computeRatios({ ...figures, equity: -200 });
+    const lenient = applyBenchmark(ratios, resolveBenchmark({ presetId: 'general', overrides: { debtToEquity: { good: 100, warning: 200 } } }));
+    expect(lenient.find(r => r.key === 'debtToEquity')?.status).toBe('critical');
+  });
+});
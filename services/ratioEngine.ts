@@ -0,0 +1,159 @@
+import { FinancialFigures, FinancialRatio, RatioKey, RatioThreshold } from "../types";
+import { ResolvedBenchmark, resolveBenchmark } from "./ratioBenchmarks";
+
+type RatioStatus = FinancialRatio['status'];
+
+interface RatioDefinition {
+  key: RatioKey;
+  name: string;
+  unit: string;
+  formula: string;
+  inputs: (keyof FinancialFigures)[];
+  compute: (f: Record<keyof FinancialFigures, number>) => number;
+  higherIsBetter: boolean; // เกณฑ์ good/warning มาจากชุดเกณฑ์ที่เลือก (ratioBenchmarks)
+  positiveDivisor?: boolean; // ตัวหารติดลบหรือเป็นศูนย์ = ค่าไม่มีความหมาย (ไม่เทียบกับเกณฑ์)
+}
+
+export const FIGURE_LABELS: Record<keyof FinancialFigures, string> = {
+  currentAssets: 'สินทรัพย์หมุนเวียน',
+  currentLiabilities: 'หนี้สินหมุนเวียน',
+  totalAssets: 'สินทรัพย์รวม',
+  totalDebt: 'หนี้สินรวม',
+  equity: 'ส่วนของผู้ถือหุ้น',
+  revenue: 'รายได้รวม',
+  netIncome: 'กำไรสุทธิ',
+};
+
+// ยิ่งมากยิ่งดี: good เมื่อ >= good, warning เมื่อ >= warning
+// ยิ่งน้อยยิ่งดี: good เมื่อ <= good, warning เมื่อ <= warning
+export const classifyRatio = (value: number, { good, warning }: RatioThreshold, higherIsBetter: boolean): RatioStatus =>
+  higherIsBetter
+    ? (value >= good ? 'good' : value >= warning ? 'warning' : 'critical')
+    : (value <= good ? 'good' : value <= warning ? 'warning' : 'critical');
+
+export const RATIO_DEFINITIONS: RatioDefinition[] = [
+  {
+    key: 'currentRatio',
+    name: 'Current Ratio',
+    unit: 'เท่า',
+    formula: 'สินทรัพย์หมุนเวียน ÷ หนี้สินหมุนเวียน',
+    inputs: ['currentAssets', 'currentLiabilities'],
+    compute: f => f.currentAssets / f.currentLiabilities,
+    higherIsBetter: true,
+  },
+  {
+    key: 'netProfitMargin',
+    name: 'Net Profit Margin',
+    unit: '%',
+    formula: 'กำไรสุทธิ ÷ รายได้รวม × 100',
+    inputs: ['netIncome', 'revenue'],
+    compute: f => (f.netIncome / f.revenue) * 100,
+    higherIsBetter: true,
+  },
+  {
+    key: 'roe',
+    name: 'ROE',
+    unit: '%',
+    formula: 'กำไรสุทธิ ÷ ส่วนของผู้ถือหุ้น × 100',
+    inputs: ['netIncome', 'equity'],
+    compute: f => (f.netIncome / f.equity) * 100,
+    higherIsBetter: true,
+    positiveDivisor: true,
+  },
+  {
+    key: 'assetTurnover',
+    name: 'Asset Turnover',
+    unit: 'เท่า',
+    formula: 'รายได้รวม ÷ สินทรัพย์รวม',
+    inputs: ['revenue', 'totalAssets'],
+    compute: f => f.revenue / f.totalAssets,
+    higherIsBetter: true,
+  },
+  {
+    key: 'debtToEquity',
+    name: 'D/E Ratio',
+    unit: 'เท่า',
+    formula: 'หนี้สินรวม ÷ ส่วนของผู้ถือหุ้น',
+    inputs: ['totalDebt', 'equity'],
+    compute: f => f.totalDebt / f.equity,
+    higherIsBetter: false,
+    positiveDivisor: true,
+  },
+];
+
+// เติม null ให้ตัวเลขที่ AI ไม่ได้ส่งมา
+export const normalizeFigures = (figures: Partial<FinancialFigures> = {}): FinancialFigures => ({
+  currentAssets: figures.currentAssets ?? null,
+  currentLiabilities: figures.currentLiabilities ?? null,
+  totalAssets: figures.totalAssets ?? null,
+  totalDebt: figures.totalDebt ?? null,
+  equity: figures.equity ?? null,
+  revenue: figures.revenue ?? null,
+  netIncome: figures.netIncome ?? null,
+});
+
+// ส่วนของผู้ถือหุ้นติดลบ: D/E ติดลบจะผ่านเกณฑ์ "ยิ่งน้อยยิ่งดี" และขาดทุน ÷ ทุนติดลบได้ ROE เป็นบวก
+const isNotMeaningful = (def: RatioDefinition, inputs: FinancialRatio['inputs']): boolean => {
+  const divisor = inputs[inputs.length - 1]?.value;
+  return !!def.positiveDivisor && divisor !== null && divisor !== undefined && divisor <= 0;
+};
+
+/**
+ * ตัดสินสถานะของอัตราส่วนที่คำนวณแล้วใหม่ตามชุดเกณฑ์ (ไม่ต้องเรียก AI ซ้ำ)
+ * ค่าที่คำนวณไม่ได้ถือเป็น warning เสมอ ยกเว้นตัวหารติดลบ/เป็นศูนย์ที่ถือเป็น critical
+ */
+export const applyBenchmark = (ratios: FinancialRatio[], { preset, thresholds }: ResolvedBenchmark): FinancialRatio[] =>
+  ratios.map(ratio => {
+    const def = RATIO_DEFINITIONS.find(d => d.key === ratio.key);
+    if (!def) return ratio;
+    const threshold = thresholds[ratio.key];
+    return {
+      ...ratio,
+      status: isNotMeaningful(def, ratio.inputs)
+        ? 'critical'
+        : ratio.value === null ? 'warning' : classifyRatio(ratio.value, threshold, def.higherIsBetter),
+      benchmark: { ...threshold, preset: preset.name, higherIsBetter: def.higherIsBetter, median: preset.medians[ratio.key] },
+    };
+  });
+
+/**
+ * คำนวณอัตราส่วนทางการเงินจากตัวเลขที่ดึงได้ (ไม่ใช้ตัวเลขจาก AI)
+ * descriptions คือคำอธิบายจาก AI แยกตาม key ของอัตราส่วน, sources คือ Sheet ที่พบตัวเลขแต่ละตัว
+ * สถานะตัดสินจากเกณฑ์ของ benchmark (ค่าเริ่มต้น: ชุดเกณฑ์ทั่วไป)
+ */
+export const computeRatios = (
+  figures: FinancialFigures,
+  descriptions: Partial<Record<RatioKey, string>> = {},
+  sources: Partial<Record<keyof FinancialFigures, string>> = {},
+  benchmark: ResolvedBenchmark = resolveBenchmark()
+): FinancialRatio[] => {
+  const ratios = RATIO_DEFINITIONS.map((def): FinancialRatio => {
+    const inputs = def.inputs.map(key => ({ key, label: FIGURE_LABELS[key], value: figures[key], source: sources[key] }));
+    const missing = inputs.filter(i => i.value === null || !Number.isFinite(i.value));
+    const divisor = figures[def.inputs[def.inputs.length - 1]];
+    const notMeaningful = missing.length === 0 && isNotMeaningful(def, inputs);
+
+    let value: number | null = null;
+    if (missing.length === 0 && divisor !== 0 && !notMeaningful) {
+      value = def.compute(figures as Record<keyof FinancialFigures, number>);
+    }
+
+    const description = notMeaningful
+      ? `ไม่มีความหมาย: ${inputs[inputs.length - 1].label}ติดลบหรือเป็นศูนย์ จึงไม่เทียบกับเกณฑ์`
+      : value === null
+        ? `คำนวณไม่ได้: ไม่พบ${missing.map(i => i.label).join(', ') || 'ตัวหารที่ไม่เป็นศูนย์'}ในไฟล์`
+        : descriptions[def.key] || '';
+
+    return {
+      key: def.key,
+      name: def.name,
+      value,
+      unit: def.unit,
+      status: 'warning', // ตัดสินใน applyBenchmark
+      description,
+      formula: def.formula,
+      inputs,
+    };
+  });
+  return applyBenchmark(ratios, benchmark);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { LineItem, SignificantChange } from '../types';
+import { findCheck, reconcileAnalysis } from './reconciliation';
+
+const items: LineItem[] = [
+  { label: 'รายได้จากการขาย', period: '2566', amount: 1_000_000, sheet: 'BusA' },
+  { label: 'รายได้จากการขาย', period: '2567', amount: 1_500_000, sheet: 'BusA' },
+  { label: 'ค่าใช้จ่ายในการบริหาร', period: '2566', amount: -400_000, sheet: 'BusA' },
+  { label: 'ค่าใช้จ่ายในการบริหาร', period: '2567', amount: -600_000, sheet: 'BusA' },
+  { label: 'รายได้จากการขาย', period: '2567', amount: 300_000, sheet: 'BusB' },
+  { label: 'ค่าใช้จ่ายในการบริหาร', period: '2567', amount: -250_000, sheet: 'BusB' },
+];
+
+const department = (name: string, revenue: number, expense: number) => ({
+  name, revenue, expense, profit: revenue - expense, liquidityComment: '',
+});
+
+const change = (item: string, amount: number, trend: SignificantChange['trend']): SignificantChange => ({
+  item, amount, trend, percentage: '', reason: '',
+});
+
+const varianceStatus = (amount: number, trend: SignificantChange['trend'], item = 'รายได้จากการขาย') =>
+  findCheck(reconcileAnalysis({ departments: [], significantChanges: [change(item, amount, trend)] }, items), 'variance', item)
+    ?.status;
+
+describe('reconcileAnalysis', () => {
+  it.each([
+    // รายได้สองหน่วยงานรวมกัน: 1,000,000 → 1,800,000
+    ['ผลต่างตรงกับที่คำนวณ', 800_000, 'increase', 'match'],
+    ['ทิศทางกลับด้าน', 800_000, 'decrease', 'mismatch'],
+    ['ผลต่างติดลบแต่ไฟล์เพิ่มขึ้น', -800_000, 'decrease', 'mismatch'],
+    ['ปัดเศษภายใน 0.5%', 803_000, 'increase', 'match'],
+    ['ตรงกับเซลล์ของรายการเดียวกัน', 1_800_000, 'increase', 'match'],
+    ['ตรงกับเซลล์ของรายการอื่นเท่านั้น', 600_000, 'increase', 'mismatch'],
+  ] as const)('ผลต่าง: %s', (_, amount, trend, expected) => {
+    expect(varianceStatus(amount, trend)).toBe(expected);
+  });
+
+  it('ผลต่างของรายการที่ไม่มีในไฟล์ไม่ผ่าน', () => {
+    expect(varianceStatus(600_000, 'increase', 'รายได้อื่น')).toBe('mismatch');
+  });
+
+  it('ตรวจรายรับ/รายจ่ายของหน่วยงานในงวดล่าสุด โดยรายจ่ายเทียบขนาด', () => {
+    const { checks, confidence } = reconcileAnalysis(
+      { departments: [department('BusA', 1_500_000, 600_000), department('BusB', 300_000, 999_000)], significantChanges: [] },
+      items
+    );
+    expect(checks.filter(c => c.subject === 'BusA').map(c => c.status)).toEqual(['match', 'match', 'match']);
+    // 999,000 ไม่ตรงกับรายการของ BusB (แม้จะใกล้กับตัวเลขของหน่วยงานอื่นก็ไม่นับ)
+    expect(checks.find(c => c.kind === 'expense' && c.subject === 'BusB')?.status).toBe('mismatch');
+    expect(confidence).toBe(83);
+  });
+
+  it('ตัวเลขของหน่วยงานไม่ย้อนไปเทียบกับงวดก่อนหรือหน่วยงานอื่น', () => {
+    const reconciliation = reconcileAnalysis(
+      { departments: [department('BusA', 1_000_000, 600_000), department('BusB', 1_500_000, 250_000)], significantChanges: [] },
+      items
+    );
+    expect(findCheck(reconciliation, 'revenue', 'BusA')?.status).toBe('mismatch');
+    expect(findCheck(reconciliation, 'revenue', 'BusB')?.status).toBe('mismatch');
+  });
+});
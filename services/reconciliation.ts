@@ -0,0 +1,136 @@
+import { AnalysisResult, LineItem, Reconciliation, ReconciliationCheck, ReconciliationKind, SignificantChange } from "../types";
+import { departmentLookup, lineItemDepartment, lineItemKind } from "./budgetEngine";
+import { normalizeLabel } from "./spreadsheetParser";
+import { AlignedLineItem, alignLineItems, orderPeriods } from "./varianceEngine";
+
+const RELATIVE_TOLERANCE = 0.005; // ปัดเศษได้ 0.5% (อย่างน้อย 1 บาท)
+
+export const RECONCILIATION_KIND_LABELS: Record<ReconciliationKind, string> = {
+  revenue: 'รายรับหน่วยงาน',
+  expense: 'รายจ่ายหน่วยงาน',
+  profit: 'กำไร = รายรับ − รายจ่าย',
+  variance: 'ผลต่าง',
+};
+
+// รายรับ/รายจ่ายเทียบขนาด (ไฟล์อาจแสดงค่าใช้จ่ายเป็นค่าลบ) กำไรและผลต่างเทียบทั้งเครื่องหมาย
+const isSigned = (kind: ReconciliationKind) => kind === 'profit' || kind === 'variance';
+
+const matches = (kind: ReconciliationKind, claimed: number, expected: number) => {
+  const difference = isSigned(kind) ? claimed - expected : Math.abs(claimed) - Math.abs(expected);
+  return Math.abs(difference) <= Math.max(1, Math.abs(expected) * RELATIVE_TOLERANCE);
+};
+
+const check = (kind: ReconciliationKind, subject: string, claimed: number, expected: number | null): ReconciliationCheck => ({
+  kind,
+  subject,
+  claimed,
+  expected,
+  status: expected !== null && matches(kind, claimed, expected) ? 'match' : 'mismatch',
+});
+
+const unverified = (kind: ReconciliationKind, subject: string, claimed: number): ReconciliationCheck => ({
+  kind, subject, claimed, expected: null, status: 'unverified',
+});
+
+/**
+ * ยอดรวมที่คำนวณได้ไม่ตรง แต่ตัวเลขตรงกับเซลล์ของรายการเดียวกัน (เช่นบรรทัด "รวมรายได้" ของหน่วยงานที่ไม่นับในยอดรวม) ถือว่ามีที่มา
+ * cells ต้องจำกัดเฉพาะรายการที่เกี่ยวข้อง ไม่ใช่ทั้งไฟล์ เพราะตัวเลขที่สร้างขึ้นมักบังเอิญตรงกับเซลล์ใดเซลล์หนึ่ง
+ * ไม่พบทั้งสองแบบ = AI อาจสร้างตัวเลขขึ้นเอง
+ */
+const checkAgainstFile = (
+  kind: ReconciliationKind,
+  subject: string,
+  claimed: number,
+  computed: number | null,
+  cells: number[]
+): ReconciliationCheck => {
+  if (claimed === 0 || (computed !== null && matches(kind, claimed, computed))) return check(kind, subject, claimed, computed ?? 0);
+  const cell = cells.find(amount => matches(kind, claimed, amount));
+  return check(kind, subject, claimed, cell ?? computed);
+};
+
+const departmentChecks = (result: Pick<AnalysisResult, 'departments'>, items: LineItem[], latest: string): ReconciliationCheck[] => {
+  const known = departmentLookup(result.departments.map(d => d.name));
+  const latestItems = items.filter(i => i.period === latest);
+  // หน่วยงานเดียวคือทั้งกิจการ เทียบกับทุกรายการของงวดล่าสุด
+  const single = result.departments.length === 1;
+
+  return result.departments.flatMap(dept => {
+    const own = single ? latestItems : latestItems.filter(i => lineItemDepartment(i, known) === dept.name);
+    const cells = own.map(i => i.amount);
+    const total = (kind: 'revenue' | 'expense') =>
+      own.some(i => lineItemKind(i) === kind)
+        ? own.filter(i => lineItemKind(i) === kind).reduce((sum, i) => sum + Math.abs(i.amount), 0)
+        : null;
+    return [
+      checkAgainstFile('revenue', dept.name, dept.revenue, total('revenue'), cells),
+      checkAgainstFile('expense', dept.name, dept.expense, total('expense'), cells),
+      check('profit', dept.name, dept.profit, dept.revenue - dept.expense),
+    ];
+  });
+};
+
+// ผลต่างที่ AI ระบุเป็นค่าบวกพร้อมทิศทาง "ลดลง" = ผลต่างติดลบ
+const signedAmount = (change: SignificantChange) =>
+  change.amount < 0 || change.trend !== 'decrease' ? change.amount : -change.amount;
+
+/**
+ * ผลต่างของรายการเดียวกันระหว่างสองงวดตามงวดที่ระบุ หรือสองงวดล่าสุดที่รายการนี้มีตัวเลข
+ * ตัวเลขที่ไม่ตรงกับผลต่างที่คำนวณได้ ยอมรับเฉพาะเมื่อตรงกับเซลล์ของรายการเดียวกัน (เช่นคอลัมน์ผลต่างในไฟล์)
+ */
+const varianceCheck = (change: SignificantChange, aligned: AlignedLineItem[], periods: string[]): ReconciliationCheck => {
+  const label = normalizeLabel(change.item);
+  const match =
+    aligned.find(a => a.statement === change.statement && normalizeLabel(a.label) === label) ??
+    aligned.find(a => normalizeLabel(a.label) === label);
+
+  let computed: number | null = null;
+  if (match && change.basis) {
+    computed = (match.values[change.basis.toPeriod] ?? 0) - (match.values[change.basis.fromPeriod] ?? 0);
+  } else if (match) {
+    const present = periods.filter(p => match.values[p] !== undefined);
+    if (present.length >= 2) computed = match.values[present[present.length - 1]] - match.values[present[present.length - 2]];
+  }
+  const cells = match ? Object.values(match.values) : [];
+  return checkAgainstFile('variance', change.item, signedAmount(change), computed, cells);
+};
+
+/**
+ * ตรวจตัวเลขในผลวิเคราะห์กับรายการที่อ่านจากไฟล์: รายรับ/รายจ่ายของหน่วยงาน กำไร = รายรับ − รายจ่าย และจำนวนเงินของผลต่าง
+ * ความน่าเชื่อถือคือร้อยละของตัวเลขที่ตรง ไม่มีรายการจากไฟล์ (เช่น PDF ที่ไม่มีตาราง) ตรวจได้เฉพาะกำไร
+ */
+export const reconcileAnalysis = (
+  result: Pick<AnalysisResult, 'departments' | 'significantChanges'>,
+  lineItems: LineItem[]
+): Reconciliation => {
+  const periods = orderPeriods(lineItems);
+  const aligned = alignLineItems(lineItems);
+
+  const checks: ReconciliationCheck[] = periods.length === 0
+    ? [
+        ...result.departments.flatMap(dept => [
+          unverified('revenue', dept.name, dept.revenue),
+          unverified('expense', dept.name, dept.expense),
+          check('profit', dept.name, dept.profit, dept.revenue - dept.expense),
+        ]),
+        ...result.significantChanges.map(change => unverified('variance', change.item, signedAmount(change))),
+      ]
+    : [
+        ...departmentChecks(result, lineItems, periods[periods.length - 1]),
+        ...result.significantChanges.map(change => varianceCheck(change, aligned, periods)),
+      ];
+
+  const verified = checks.filter(c => c.status !== 'unverified');
+  const confidence = verified.length === 0
+    ? null
+    : Math.round((verified.filter(c => c.status === 'match').length / verified.length) * 100);
+  return { checks, confidence };
+};
+
+// ผลตรวจของรายการ (ใช้แสดงป้ายในตาราง)
+export const findCheck = (
+  reconciliation: Reconciliation | undefined,
+  kind: ReconciliationKind,
+  subject: string
+): ReconciliationCheck | undefined =>
+  reconciliation?.checks.find(c => c.kind === kind && c.subject === subject);
@@ -0,0 +1,309 @@
+import pdfMake from 'pdfmake/build/pdfmake';
+import type { Content, ContentText, ContentTocItem, TDocumentDefinitions } from 'pdfmake/interfaces';
+import sarabunLatinRegular from '@fontsource/sarabun/files/sarabun-latin-400-normal.woff?url';
+import sarabunLatinBold from '@fontsource/sarabun/files/sarabun-latin-700-normal.woff?url';
+import sarabunThaiRegular from '@fontsource/sarabun/files/sarabun-thai-400-normal.woff?url';
+import sarabunThaiBold from '@fontsource/sarabun/files/sarabun-thai-700-normal.woff?url';
+import { AnalysisResult, ConsolidationResult, DepartmentAnalysis, FinancialRatio, ReportSectionReview } from "../types";
+import { exportedSection, isFullyApproved, reviewSections, signOffRows } from "./reportReview";
+
+// Sarabun จาก Fontsource แยกไฟล์ตามชุดอักษร จึงลงทะเบียน 2 ฟอนต์แล้วสลับตามตัวอักษร (ดู scriptRuns)
+// pdfmake ในเบราว์เซอร์โหลดฟอนต์จาก URL แบบเต็มเท่านั้น
+const absolute = (url: string) => new URL(url, window.location.href).href;
+
+pdfMake.addFonts({
+  Sarabun: { normal: absolute(sarabunLatinRegular), bold: absolute(sarabunLatinBold) },
+  SarabunThai: { normal: absolute(sarabunThaiRegular), bold: absolute(sarabunThaiBold) },
+});
+
+const BRAND = '#4f46e5';
+const MUTED = '#64748b';
+const CHART_COLORS = { revenue: '#6366f1', expense: '#ef4444', profit: '#10b981' };
+const STATUS_LABELS: Record<FinancialRatio['status'], string> = {
+  good: 'ดี',
+  warning: 'เฝ้าระวัง',
+  critical: 'วิกฤต',
+};
+
+const THAI_RUN = /([\u0E00-\u0E7F]+)/;
+
+// แยกข้อความเป็นช่วงภาษาไทย/ไม่ใช่ไทย ให้แต่ละช่วงใช้ไฟล์ฟอนต์ที่มีตัวอักษรนั้น
+const scriptRuns = (text: string, bold = false): ContentText[] =>
+  text
+    .split(THAI_RUN)
+    .filter(Boolean)
+    .map(part => ({ text: part, bold, ...(THAI_RUN.test(part) ? { font: 'SarabunThai' } : {}) }));
+
+// รองรับเฉพาะตัวหนา **text** (บนหน้าจอแปลง Markdown เต็มรูปแบบด้วย renderMarkdown ใน services/markdown)
+const inline = (text: string): ContentText[] =>
+  text.split(/(\*\*.*?\*\*)/).flatMap(part =>
+    part.startsWith('**') && part.endsWith('**') && part.length > 4
+      ? scriptRuns(part.slice(2, -2), true)
+      : scriptRuns(part)
+  );
+
+const paragraph = (text: string, extra: Partial<ContentText> = {}): ContentText => ({ text: inline(text), ...extra });
+
+const formatNumber = (value: number | null) =>
+  value === null ? 'N/A' : value.toLocaleString('th-TH', { maximumFractionDigits: 2 });
+
+// แปลง Markdown แบบง่าย (หัวข้อย่อย, bullet, ตาราง, ตัวหนา) เป็น Content ของ pdfmake
+const markdownToContent = (markdown: string): Content[] => {
+  const content: Content[] = [];
+  let bullets: ContentText[] = [];
+  let tableRows: string[][] = [];
+
+  const flush = () => {
+    if (bullets.length > 0) content.push({ ul: bullets, margin: [0, 0, 0, 6] });
+    if (tableRows.length > 0) {
+      content.push({
+        table: { headerRows: 1, body: tableRows.map((row, idx) => row.map(cell => paragraph(cell, { bold: idx === 0 }))) },
+        layout: 'lightHorizontalLines',
+        margin: [0, 4, 0, 8],
+      });
+    }
+    bullets = [];
+    tableRows = [];
+  };
+
+  markdown.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (/^\|.*\|$/.test(trimmed)) {
+      // ข้ามเส้นคั่นหัวตาราง |---|---|
+      if (!/^\|[\s:|-]+\|$/.test(trimmed)) tableRows.push(trimmed.slice(1, -1).split('|').map(c => c.trim()));
+      return;
+    }
+    if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
+      bullets.push(paragraph(trimmed.substring(2)));
+      return;
+    }
+    flush();
+    if (!trimmed) return;
+    if (trimmed.startsWith('#')) {
+      content.push(paragraph(trimmed.replace(/^#+\s*/, ''), { style: 'h3' }));
+    } else {
+      content.push(paragraph(trimmed, { margin: [0, 0, 0, 6] }));
+    }
+  });
+  flush();
+  return content;
+};
+
+// ContentTocItem ของ pdfmake ให้ text เป็น string เท่านั้น แต่ตอนสร้างสารบัญจะคัดลอก text ไปใช้ตรงๆ
+// จึงใช้ ContentText (ช่วงข้อความ scriptRuns) ที่มี tocItem ทำให้สารบัญแสดงภาษาไทยถูกต้อง
+type TocHeading = ContentText & Pick<ContentTocItem, 'tocItem'>;
+
+const heading = (text: string): TocHeading => ({ text: scriptRuns(text), style: 'h2', tocItem: true });
+
+const ratioTable = (ratios: FinancialRatio[]): Content => ({
+  table: {
+    headerRows: 1,
+    widths: ['*', 'auto', 'auto', '*'],
+    body: [
+      ['อัตราส่วน', 'ค่า', 'สถานะ', 'สูตร'].map(h => paragraph(h, { bold: true })),
+      ...ratios.map(r => [
+        paragraph(r.name),
+        paragraph(`${formatNumber(r.value)} ${r.unit}`, { alignment: 'right' }),
+        paragraph(STATUS_LABELS[r.status]),
+        paragraph(r.formula, { color: MUTED, fontSize: 10 }),
+      ]),
+    ],
+  },
+  layout: 'lightHorizontalLines',
+});
+
+// หน่วยงานเกินจำนวนนี้ แท่งแนวตั้งจะแคบจนอ่านไม่ได้ จึงเปลี่ยนเป็นแท่งแนวนอน (1 แถวต่อหน่วยงาน)
+const MAX_VERTICAL_DEPARTMENTS = 8;
+const CHART_FIELDS = ['revenue', 'expense', 'profit'] as const;
+
+const barColor = (d: DepartmentAnalysis, field: typeof CHART_FIELDS[number]) =>
+  (d[field] || 0) < 0 ? '#fca5a5' : CHART_COLORS[field];
+
+const verticalBars = (departments: DepartmentAnalysis[], max: number): Content[] => {
+  const width = 500;
+  const height = 180;
+  const groupWidth = width / departments.length;
+  const barWidth = Math.min(24, (groupWidth - 12) / CHART_FIELDS.length);
+
+  const bars = departments.flatMap((d, i) =>
+    CHART_FIELDS.map((field, j) => {
+      const h = (Math.abs(d[field] || 0) / max) * height;
+      return {
+        type: 'rect' as const,
+        x: i * groupWidth + (groupWidth - barWidth * CHART_FIELDS.length) / 2 + j * barWidth,
+        y: height - h,
+        w: barWidth - 2,
+        h,
+        color: barColor(d, field),
+      };
+    })
+  );
+
+  return [
+    { canvas: [...bars, { type: 'line', x1: 0, y1: height, x2: width, y2: height, lineWidth: 0.5, lineColor: MUTED }] },
+    {
+      columns: departments.map(d => paragraph(d.name, { alignment: 'center', fontSize: 9, color: MUTED })),
+      margin: [0, 4, 0, 4],
+    },
+  ];
+};
+
+const horizontalBars = (departments: DepartmentAnalysis[], max: number): Content[] => {
+  const labelWidth = 110;
+  const width = 500 - labelWidth;
+  const barHeight = 5;
+
+  return departments.map(d => ({
+    columns: [
+      { ...paragraph(d.name, { fontSize: 8, color: MUTED }), width: labelWidth },
+      {
+        width,
+        canvas: CHART_FIELDS.map((field, j) => ({
+          type: 'rect' as const,
+          x: 0,
+          y: j * (barHeight + 1),
+          w: (Math.abs(d[field] || 0) / max) * width,
+          h: barHeight,
+          color: barColor(d, field),
+        })),
+      },
+    ],
+    margin: [0, 0, 0, 4],
+  }));
+};
+
+// กราฟแท่งรายรับ/รายจ่าย/กำไรตามหน่วยงาน วาดด้วย vector ของ pdfmake (ไม่ขึ้นกับกราฟบนหน้าจอ)
+const departmentChart = (departments: DepartmentAnalysis[]): Content[] => {
+  const max = Math.max(1, ...departments.flatMap(d => CHART_FIELDS.map(f => Math.abs(d[f] || 0))));
+
+  return [
+    ...(departments.length > MAX_VERTICAL_DEPARTMENTS ? horizontalBars(departments, max) : verticalBars(departments, max)),
+    {
+      // คำอธิบายสีของกราฟ
+      text: [
+        { text: scriptRuns('รายรับ   ', true), color: CHART_COLORS.revenue },
+        { text: scriptRuns('รายจ่าย   ', true), color: CHART_COLORS.expense },
+        { text: scriptRuns('กำไร', true), color: CHART_COLORS.profit },
+      ],
+      fontSize: 9,
+      alignment: 'center',
+      margin: [0, 0, 0, 10],
+    },
+  ];
+};
+
+const departmentTable = (departments: DepartmentAnalysis[]): Content => ({
+  table: {
+    headerRows: 1,
+    widths: ['*', 'auto', 'auto', 'auto'],
+    body: [
+      ['หน่วยงาน', 'รายรับ', 'รายจ่าย', 'กำไร'].map(h => paragraph(h, { bold: true })),
+      ...departments.map(d => [
+        paragraph(d.name),
+        ...[d.revenue, d.expense, d.profit].map(v => paragraph(formatNumber(v), { alignment: 'right' })),
+      ]),
+    ],
+  },
+  layout: 'lightHorizontalLines',
+});
+
+// งบการเงินรวม: รายบริษัทก่อนตัดรายการ และยอดของกลุ่มพร้อมส่วนได้เสียที่ไม่มีอำนาจควบคุม
+const consolidationTable = (consolidation: ConsolidationResult): Content => ({
+  table: {
+    headerRows: 1,
+    widths: ['*', 'auto', 'auto', 'auto', 'auto'],
+    body: [
+      ['บริษัท', 'ถือหุ้น', 'รายได้', 'ค่าใช้จ่าย', 'กำไร'].map(h => paragraph(h, { bold: true })),
+      ...consolidation.entities.map(e => [
+        paragraph(e.parent ? `${e.name} (บริษัทใหญ่)` : e.name),
+        paragraph(`${e.ownership}%`, { alignment: 'right' }),
+        ...[e.revenue, e.expense, e.profit].map(v => paragraph(formatNumber(v), { alignment: 'right' })),
+      ]),
+      [
+        paragraph('งบการเงินรวม (ตัดรายการระหว่างกันแล้ว)', { bold: true }),
+        paragraph(''),
+        ...[consolidation.revenue, consolidation.expense, consolidation.profit].map(v => paragraph(formatNumber(v), { alignment: 'right', bold: true })),
+      ],
+      [paragraph('กำไรส่วนของบริษัทใหญ่'), paragraph(''), paragraph(''), paragraph(''), paragraph(formatNumber(consolidation.profitToParent), { alignment: 'right' })],
+      [paragraph('ส่วนได้เสียที่ไม่มีอำนาจควบคุม'), paragraph(''), paragraph(''), paragraph(''), paragraph(formatNumber(consolidation.nciProfit), { alignment: 'right' })],
+    ],
+  },
+  layout: 'lightHorizontalLines',
+});
+
+// ตารางสรุปการตรวจทานและอนุมัติของแต่ละส่วน ท้ายรายงาน
+const signOffBlock = (sections: ReportSectionReview[]): Content[] => [
+  { ...heading('การตรวจทานและอนุมัติรายงาน'), pageBreak: 'before' as const },
+  {
+    table: {
+      headerRows: 1,
+      widths: ['*', 'auto', 'auto', 'auto', 'auto', 'auto'],
+      body: signOffRows(sections).map((row, idx) => row.map(cell => paragraph(cell, { bold: idx === 0, fontSize: 10 }))),
+    },
+    layout: 'lightHorizontalLines',
+  },
+  ...(isFullyApproved(sections)
+    ? []
+    : [paragraph('รายงานฉบับนี้ยังไม่ได้รับการอนุมัติครบทุกส่วน ไม่ควรนำไปเผยแพร่', { color: '#dc2626', margin: [0, 12, 0, 0] })]),
+];
+
+export const buildReportDocument = (data: AnalysisResult): TDocumentDefinitions => {
+  const printedAt = new Date().toLocaleDateString('th-TH', { year: 'numeric', month: 'long', day: 'numeric' });
+  const sections = reviewSections(data);
+  const approved = isFullyApproved(sections);
+
+  const cover: Content[] = [
+    { text: scriptRuns('รายงานวิเคราะห์ทางการเงิน', true), fontSize: 28, color: BRAND, margin: [0, 200, 0, 8] },
+    { text: scriptRuns('SmartAcc Analyst • Executive Report'), fontSize: 14, color: MUTED },
+    { text: scriptRuns(`ข้อมูล ณ วันที่ ${printedAt}`), fontSize: 12, color: MUTED, margin: [0, 4, 0, approved ? 40 : 8] },
+    ...(approved ? [] : [{ text: scriptRuns('ฉบับร่าง — ยังไม่ได้รับการอนุมัติ', true), fontSize: 12, color: '#dc2626', margin: [0, 0, 0, 32] } as ContentText]),
+    paragraph(data.overallAnalysis, { fontSize: 13, margin: [0, 0, 60, 0] }),
+    { text: '', pageBreak: 'after' },
+  ];
+
+  const toc: Content[] = [
+    { toc: { title: { text: scriptRuns('สารบัญ', true), style: 'h1' } } },
+    { text: '', pageBreak: 'after' },
+  ];
+
+  const overview: Content[] = [
+    heading('อัตราส่วนทางการเงินที่สำคัญ'),
+    ratioTable(data.ratios),
+    ...(data.consolidation ? [heading('งบการเงินรวมของกลุ่มบริษัท'), consolidationTable(data.consolidation)] : []),
+    ...(data.departments.length > 0
+      ? [heading('ผลการดำเนินงานตามหน่วยงาน'), ...departmentChart(data.departments), departmentTable(data.departments)]
+      : []),
+  ];
+
+  const body: Content[] = sections.flatMap((section, idx) => {
+    const { content, note } = exportedSection(section);
+    return [
+      { ...heading(section.title), pageBreak: idx === 0 ? 'before' as const : undefined },
+      ...(note ? [paragraph(`[${note}]`, { color: '#dc2626', fontSize: 10, margin: [0, 0, 0, 6] })] : []),
+      ...markdownToContent(content),
+    ];
+  });
+
+  return {
+    pageSize: 'A4',
+    pageMargins: [56, 56, 56, 64],
+    info: { title: 'SmartAcc Analyst Report' },
+    defaultStyle: { font: 'Sarabun', fontSize: 12, lineHeight: 1.3 },
+    styles: {
+      h1: { fontSize: 20, bold: true, color: BRAND, margin: [0, 0, 0, 12] },
+      h2: { fontSize: 16, bold: true, color: BRAND, margin: [0, 16, 0, 8] },
+      h3: { fontSize: 13, bold: true, margin: [0, 8, 0, 4] },
+    },
+    // ไม่ใส่เลขหน้าที่ปก
+    footer: (currentPage, pageCount) =>
+      currentPage === 1
+        ? null
+        : { text: scriptRuns(`หน้า ${currentPage} / ${pageCount}`), alignment: 'center', fontSize: 9, color: MUTED, margin: [0, 24, 0, 0] },
+    content: [...cover, ...toc, ...overview, ...body, ...(sections.length > 0 ? signOffBlock(sections) : [])],
+  };
+};
+
+export const exportReportPdf = async (data: AnalysisResult): Promise<void> => {
+  const fileName = `SmartAcc_Report_${new Date().toISOString().split('T')[0]}.pdf`;
+  await pdfMake.createPdf(buildReportDocument(data)).download(fileName);
+};
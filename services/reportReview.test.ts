@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ReportSectionReview } from '../types';
+import { advanceSection, editSection, exportedSection, isFullyApproved, signOffRows } from './reportReview';
+
+const draft: ReportSectionReview = { title: 'บทสรุปผู้บริหาร', aiContent: 'ร่าง', content: 'ร่าง', status: 'draft' };
+
+const approve = (section: ReportSectionReview) => advanceSection(advanceSection(section, 'สมชาย', 1), 'สมหญิง', 2);
+
+describe('การตรวจทานรายงาน', () => {
+  it('ส่วนที่อนุมัติแล้วส่งออกข้อความปัจจุบันโดยไม่มีหมายเหตุ', () => {
+    const approved = approve(draft);
+    expect(approved).toMatchObject({ status: 'approved', approvedBy: 'สมหญิง', approvedContent: 'ร่าง' });
+    expect(exportedSection(approved)).toEqual({ content: 'ร่าง' });
+  });
+
+  it('แก้ไขหลังอนุมัติ: กลับเป็นร่าง แต่ส่งออกฉบับที่อนุมัติ', () => {
+    const edited = editSection(approve(draft), 'ข้อความใหม่');
+    expect(edited).toMatchObject({ status: 'draft', content: 'ข้อความใหม่', approvedContent: 'ร่าง', approvedBy: 'สมหญิง' });
+    expect(edited.reviewedBy).toBeUndefined();
+    expect(exportedSection(edited).content).toBe('ร่าง');
+    expect(exportedSection(edited).note).toContain('แก้ไขภายหลัง');
+    expect(isFullyApproved([edited])).toBe(false);
+    expect(signOffRows([edited])[1][1]).toContain('แก้ไขหลังอนุมัติ');
+  });
+
+  it('อนุมัติใหม่หลังแก้ไขแล้วส่งออกข้อความใหม่', () => {
+    const reapproved = approve(editSection(approve(draft), 'ข้อความใหม่'));
+    expect(exportedSection(reapproved)).toEqual({ content: 'ข้อความใหม่' });
+  });
+
+  it('ส่วนที่ยังไม่เคยอนุมัติส่งออกข้อความปัจจุบันพร้อมหมายเหตุ', () => {
+    expect(exportedSection(draft)).toEqual({ content: 'ร่าง', note: 'ร่าง — ยังไม่ได้รับการอนุมัติ' });
+  });
+});
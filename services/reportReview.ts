@@ -0,0 +1,129 @@
+import { AnalysisResult, ReportSectionReview, ReviewStatus } from "../types";
+import { splitReportSections } from "./reportSections";
+
+const REVIEWER_KEY = 'smartacc.reviewer';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'ร่าง',
+  reviewed: 'ตรวจแล้ว',
+  approved: 'อนุมัติแล้ว',
+};
+
+// ชื่อผู้ตรวจทานล่าสุด (localStorage) เพื่อไม่ต้องกรอกซ้ำทุกครั้ง
+export const loadReviewerName = (): string => localStorage.getItem(REVIEWER_KEY) ?? '';
+
+export const saveReviewerName = (name: string) => {
+  localStorage.setItem(REVIEWER_KEY, name);
+};
+
+// ส่วนของรายงานพร้อมสถานะตรวจทาน (ยังไม่เคยแก้ไข = ร่างจาก AI ทุกส่วน)
+export const reviewSections = (data: AnalysisResult): ReportSectionReview[] =>
+  data.reportReview ??
+  splitReportSections(data.formalReport).map(section => ({
+    title: section.title,
+    aiContent: section.content,
+    content: section.content,
+    status: 'draft',
+  }));
+
+// แก้ข้อความแล้วต้องตรวจทานใหม่ จึงกลับเป็นร่างและล้างผู้ตรวจเดิม แต่คงฉบับที่อนุมัติล่าสุดไว้ใช้ส่งออก
+export const editSection = (section: ReportSectionReview, content: string): ReportSectionReview => ({
+  title: section.title,
+  aiContent: section.aiContent,
+  content,
+  status: 'draft',
+  approvedBy: section.approvedBy,
+  approvedAt: section.approvedAt,
+  approvedContent: section.approvedContent,
+});
+
+// คำตอบจากการถาม-ตอบที่ผู้ใช้เลือกแนบในรายงาน เป็นส่วนใหม่ท้ายรายงานที่ต้องตรวจทานเหมือนส่วนอื่น
+export const pinnedAnswerSection = (question: string, answer: string): ReportSectionReview => ({
+  title: `ถาม-ตอบเพิ่มเติม: ${question.replace(/\s+/g, ' ').trim()}`,
+  aiContent: answer,
+  content: answer,
+  status: 'draft',
+});
+
+export const advanceSection = (section: ReportSectionReview, reviewer: string, now = Date.now()): ReportSectionReview => {
+  if (section.status === 'draft') return { ...section, status: 'reviewed', reviewedBy: reviewer, reviewedAt: now };
+  if (section.status === 'reviewed') {
+    return { ...section, status: 'approved', approvedBy: reviewer, approvedAt: now, approvedContent: section.content };
+  }
+  return section;
+};
+
+export const isFullyApproved = (sections: ReportSectionReview[]): boolean =>
+  sections.length > 0 && sections.every(s => s.status === 'approved');
+
+export const formatReviewTime = (timestamp?: number): string =>
+  timestamp ? new Date(timestamp).toLocaleString('th-TH', { dateStyle: 'medium', timeStyle: 'short' }) : '-';
+
+// ส่วนที่แก้ไขหลังอนุมัติและยังไม่ได้อนุมัติใหม่
+export const hasPendingEdit = (section: ReportSectionReview): boolean =>
+  section.status !== 'approved' && section.approvedContent !== undefined;
+
+/**
+ * ข้อความของส่วนที่ใช้ในไฟล์ส่งออก: ฉบับที่อนุมัติ (แม้จะแก้ไขภายหลัง) หรือข้อความปัจจุบันพร้อมหมายเหตุว่ายังไม่อนุมัติ
+ */
+export const exportedSection = (section: ReportSectionReview): { content: string; note?: string } => {
+  if (section.status === 'approved') return { content: section.content };
+  if (section.approvedContent !== undefined) {
+    return {
+      content: section.approvedContent,
+      note: `ฉบับที่อนุมัติเมื่อ ${formatReviewTime(section.approvedAt)} — มีการแก้ไขภายหลังที่ยังไม่ได้รับการอนุมัติ`,
+    };
+  }
+  return { content: section.content, note: `${REVIEW_STATUS_LABELS[section.status]} — ยังไม่ได้รับการอนุมัติ` };
+};
+
+// สรุปการลงนามของแต่ละส่วน สำหรับแนบท้ายไฟล์ที่ส่งออก
+export const signOffRows = (sections: ReportSectionReview[]): string[][] => [
+  ['หัวข้อ', 'สถานะ', 'ผู้ตรวจทาน', 'วันที่ตรวจ', 'ผู้อนุมัติ', 'วันที่อนุมัติ'],
+  ...sections.map(s => [
+    s.title,
+    hasPendingEdit(s) ? `${REVIEW_STATUS_LABELS[s.status]} (แก้ไขหลังอนุมัติ ส่งออกฉบับที่อนุมัติ)` : REVIEW_STATUS_LABELS[s.status],
+    s.reviewedBy ?? '-',
+    formatReviewTime(s.reviewedAt),
+    s.approvedBy ?? '-',
+    formatReviewTime(s.approvedAt),
+  ]),
+];
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * เทียบความต่างรายบรรทัดระหว่างร่างจาก AI กับข้อความที่แก้ไข (Longest Common Subsequence)
+ * รายงานแต่ละส่วนยาวไม่กี่สิบบรรทัด จึงใช้ตาราง O(n×m) ได้
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  a.slice(i).forEach(text => result.push({ type: 'removed', text }));
+  b.slice(j).forEach(text => result.push({ type: 'added', text }));
+  return result;
+};
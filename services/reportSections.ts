@@ -0,0 +1,19 @@
+export interface ReportSection {
+  title: string; // ไม่รวมเครื่องหมาย #
+  content: string;
+}
+
+// แบ่งรายงาน Markdown ตามหัวข้อระดับ ## (ใช้ทั้งหน้าจอรายงานและไฟล์ PDF)
+export const splitReportSections = (report: string): ReportSection[] => {
+  if (!report) return [];
+  return report
+    .split(/(?=^##\s)/m)
+    .filter(part => part.trim().length > 0)
+    .map(part => {
+      const lines = part.split('\n');
+      return {
+        title: lines[0].trim().replace(/^#+\s*/, ''),
+        content: lines.slice(1).join('\n').trim(),
+      };
+    });
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DepartmentAnalysis, FinancialFigures } from '../types';
+import { computeRatios, normalizeFigures } from './ratioEngine';
+import { resolveBenchmark } from './ratioBenchmarks';
+import { describeDrivers, EMPTY_DRIVERS, hasDriverChanges, simulateScenario } from './scenarioEngine';
+
+const department = (name: string, revenue: number, expense: number): DepartmentAnalysis => ({
+  name, revenue, expense, profit: revenue - expense, liquidityComment: '',
+});
+
+const figures: FinancialFigures = {
+  currentAssets: 300,
+  currentLiabilities: 200,
+  totalAssets: 1_000,
+  totalDebt: 400,
+  equity: 600,
+  revenue: 1_500,
+  netIncome: 300,
+};
+
+const base = (f: FinancialFigures = figures) => ({
+  figures: f,
+  ratios: computeRatios(f),
+  departments: [department('BusA', 1_000, 800), department('BusB', 500, 400)],
+});
+
+describe('simulateScenario', () => {
+  it('ไม่มีสมมติฐาน: ตัวเลขเท่าเดิม', () => {
+    expect(simulateScenario(base(), EMPTY_DRIVERS, resolveBenchmark()).figures).toEqual(figures);
+  });
+
+  it('รายได้ที่เพิ่มกระทบกำไร เงินสด และส่วนของผู้ถือหุ้น เงินกู้ใหม่เพิ่มหนี้ รายจ่ายลงทุนย้ายเงินสด', () => {
+    const outcome = simulateScenario(base(), {
+      ...EMPTY_DRIVERS,
+      revenueChange: { BusA: 10 },
+      newDebt: 200,
+      capex: 50,
+    }, resolveBenchmark());
+    expect(outcome.departments[0]).toMatchObject({ revenue: 1_100, profit: 300 });
+    expect(outcome.departments[1]).toMatchObject({ revenue: 500, profit: 100 });
+    expect(outcome.figures).toEqual({
+      currentAssets: 550,
+      currentLiabilities: 200,
+      totalAssets: 1_300,
+      totalDebt: 600,
+      equity: 700,
+      revenue: 1_600,
+      netIncome: 400,
+    });
+    expect(outcome.ratios.find(r => r.key === 'debtToEquity')!.value).toBeCloseTo(600 / 700);
+  });
+
+  it('วันเก็บหนี้ที่เพิ่มเพิ่มลูกหนี้และเงินกู้ระยะสั้นตามรายได้ต่อวัน', () => {
+    const outcome = simulateScenario(base({ ...figures, revenue: 3_650 }), { ...EMPTY_DRIVERS, receivableDays: 10 }, resolveBenchmark());
+    expect(outcome.figures).toMatchObject({ currentAssets: 400, currentLiabilities: 300, totalAssets: 1_100, totalDebt: 500 });
+  });
+
+  it('ตัวเลขที่หาไม่พบในไฟล์ยังคงเป็น null', () => {
+    const outcome = simulateScenario(base(normalizeFigures({ revenue: 1_500 })), { ...EMPTY_DRIVERS, newDebt: 200 }, resolveBenchmark());
+    expect(outcome.figures).toMatchObject({ totalDebt: null, equity: null, revenue: 1_500 });
+  });
+});
+
+describe('hasDriverChanges / describeDrivers', () => {
+  it('สรุปเฉพาะสมมติฐานที่เปลี่ยน', () => {
+    expect(hasDriverChanges(EMPTY_DRIVERS)).toBe(false);
+    expect(hasDriverChanges({ ...EMPTY_DRIVERS, expenseChange: { BusA: 0 } })).toBe(false);
+    const drivers = { ...EMPTY_DRIVERS, revenueChange: { BusA: 10, BusB: 0 }, expenseChange: { BusB: -5 }, receivableDays: -15 };
+    expect(hasDriverChanges(drivers)).toBe(true);
+    expect(describeDrivers(drivers)).toEqual(['รายได้ BusA +10%', 'รายจ่าย BusB -5%', 'วันเก็บหนี้ -15 วัน']);
+  });
+});
@@ -0,0 +1,83 @@
+import { AnalysisResult, FinancialFigures, RatioKey, Scenario, ScenarioDrivers, ScenarioOutcome } from "../types";
+import { computeRatios } from "./ratioEngine";
+import { ResolvedBenchmark } from "./ratioBenchmarks";
+
+const DAYS_PER_YEAR = 365;
+
+export const EMPTY_DRIVERS: ScenarioDrivers = {
+  revenueChange: {},
+  expenseChange: {},
+  newDebt: 0,
+  capex: 0,
+  receivableDays: 0,
+};
+
+export const BASE_SCENARIO_NAME = 'กรณีฐาน';
+
+// ตัวเลขที่หาไม่พบในไฟล์ (null) ยังคงเป็น null เพราะไม่รู้ฐานที่จะปรับ
+const adjust = (value: number | null, delta: number): number | null => (value === null ? null : value + delta);
+
+export const hasDriverChanges = (drivers: ScenarioDrivers): boolean =>
+  drivers.newDebt !== 0 ||
+  drivers.capex !== 0 ||
+  drivers.receivableDays !== 0 ||
+  Object.values(drivers.revenueChange).some(v => v !== 0) ||
+  Object.values(drivers.expenseChange).some(v => v !== 0);
+
+/**
+ * คำนวณตัวเลข อัตราส่วน และกำไรของหน่วยงานใหม่ตามสมมติฐาน (ไม่เรียก AI)
+ * - รายได้/รายจ่ายที่เปลี่ยนกระทบกำไรสุทธิเต็มจำนวน (ไม่คิดภาษี) และสะสมเป็นเงินสดกับส่วนของผู้ถือหุ้น
+ * - เงินกู้ใหม่เป็นหนี้ระยะยาว: เงินสดและหนี้สินรวมเพิ่มขึ้น
+ * - รายจ่ายลงทุนจ่ายด้วยเงินสด: สินทรัพย์หมุนเวียนย้ายไปเป็นสินทรัพย์ไม่หมุนเวียน
+ * - ลูกหนี้ที่เพิ่มตามวันเก็บหนี้ ถือว่าใช้เงินกู้ระยะสั้นหมุนเวียน (รายได้ถือเป็นยอดทั้งปี)
+ */
+export const simulateScenario = (
+  base: Pick<AnalysisResult, 'figures' | 'ratios' | 'departments'>,
+  drivers: ScenarioDrivers,
+  benchmark: ResolvedBenchmark
+): ScenarioOutcome => {
+  const departments = base.departments.map(d => {
+    const revenue = d.revenue * (1 + (drivers.revenueChange[d.name] ?? 0) / 100);
+    const expense = d.expense * (1 + (drivers.expenseChange[d.name] ?? 0) / 100);
+    return { ...d, revenue, expense, profit: revenue - expense };
+  });
+  const revenueDelta = departments.reduce((sum, d, i) => sum + d.revenue - base.departments[i].revenue, 0);
+  const profitDelta = departments.reduce((sum, d, i) => sum + d.profit - base.departments[i].profit, 0);
+
+  const { figures } = base;
+  const revenue = adjust(figures.revenue, revenueDelta);
+  const receivableDelta = revenue === null ? 0 : (revenue / DAYS_PER_YEAR) * drivers.receivableDays;
+  const cashDelta = profitDelta + drivers.newDebt - drivers.capex;
+
+  const simulated: FinancialFigures = {
+    currentAssets: adjust(figures.currentAssets, cashDelta + receivableDelta),
+    currentLiabilities: adjust(figures.currentLiabilities, receivableDelta),
+    totalAssets: adjust(figures.totalAssets, profitDelta + drivers.newDebt + receivableDelta),
+    totalDebt: adjust(figures.totalDebt, drivers.newDebt + receivableDelta),
+    equity: adjust(figures.equity, profitDelta),
+    revenue,
+    netIncome: adjust(figures.netIncome, profitDelta),
+  };
+
+  const descriptions = Object.fromEntries(base.ratios.map(r => [r.key, r.description])) as Partial<Record<RatioKey, string>>;
+  return { figures: simulated, ratios: computeRatios(simulated, descriptions, {}, benchmark), departments };
+};
+
+export const createScenario = (name: string, drivers: ScenarioDrivers, now = Date.now()): Scenario => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  drivers,
+  createdAt: now,
+});
+
+// คำอธิบายสั้นของสมมติฐาน ใช้แสดงใต้ชื่อสถานการณ์
+export const describeDrivers = (drivers: ScenarioDrivers): string[] => {
+  const percent = (value: number) => `${value > 0 ? '+' : ''}${value}%`;
+  return [
+    ...Object.entries(drivers.revenueChange).filter(([, v]) => v !== 0).map(([dept, v]) => `รายได้ ${dept} ${percent(v)}`),
+    ...Object.entries(drivers.expenseChange).filter(([, v]) => v !== 0).map(([dept, v]) => `รายจ่าย ${dept} ${percent(v)}`),
+    ...(drivers.newDebt !== 0 ? [`กู้เพิ่ม ${drivers.newDebt.toLocaleString()} บาท`] : []),
+    ...(drivers.capex !== 0 ? [`ลงทุน ${drivers.capex.toLocaleString()} บาท`] : []),
+    ...(drivers.receivableDays !== 0 ? [`วันเก็บหนี้ ${drivers.receivableDays > 0 ? '+' : ''}${drivers.receivableDays} วัน`] : []),
+  ];
+};
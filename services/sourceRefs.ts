@@ -0,0 +1,74 @@
+import { AnalysisResult, DepartmentAnalysis, FinancialRatio, LineItem, SignificantChange, SourceRef } from "../types";
+import { departmentLookup, lineItemDepartment, lineItemKind } from "./budgetEngine";
+import { normalizeLabel } from "./spreadsheetParser";
+import { orderPeriods } from "./varianceEngine";
+
+// รายการจาก PDF ที่ไม่มีตาราง หรือรายการเก่าก่อนเก็บตำแหน่ง จะไม่มีแถว/คอลัมน์
+const hasPosition = (item: LineItem): item is LineItem & { sheet: string; row: number; column: number } =>
+  item.sheet !== undefined && item.row !== undefined && item.column !== undefined;
+
+export const toSourceRef = (item: LineItem & { sheet: string; row: number; column: number }): SourceRef => ({
+  file: item.file,
+  sheet: item.sheet,
+  row: item.row,
+  column: item.column,
+  label: item.label,
+  period: item.period,
+  amount: item.amount,
+});
+
+const refsOf = (items: LineItem[]): SourceRef[] => items.filter(hasPosition).map(toSourceRef);
+
+// คีย์เดียวกับ alignLineItems: ชื่อบัญชีมาตรฐาน (ถ้ามี) แยกตามงบ
+const alignKey = (label: string, statement?: string) => `${statement ?? 'other'}|${normalizeLabel(label)}`;
+
+const changeSources = (change: SignificantChange, items: LineItem[], latest: string): SourceRef[] => {
+  const key = alignKey(change.item, change.statement);
+  const periods = change.basis ? [change.basis.fromPeriod, change.basis.toPeriod] : [latest];
+  let matched = items.filter(i => periods.includes(i.period) && alignKey(i.account ?? i.label, i.statement) === key);
+  // ผลต่างที่ AI หาเอง (ไม่มีงบระบุ): เทียบเฉพาะชื่อรายการ
+  if (matched.length === 0 && !change.basis) {
+    matched = items.filter(i => i.period === latest && normalizeLabel(i.account ?? i.label) === normalizeLabel(change.item));
+  }
+  return refsOf(matched);
+};
+
+const departmentSources = (dept: DepartmentAnalysis, items: LineItem[], latest: string, known: Map<string, string>): SourceRef[] =>
+  refsOf(items.filter(i => i.period === latest && lineItemKind(i) !== null && lineItemDepartment(i, known) === dept.name));
+
+/**
+ * ตัวเลขที่ AI ดึงมา (เช่น สินทรัพย์รวม) ไม่ได้ระบุเซลล์ จึงหาเซลล์ในงวดล่าสุดที่มีค่าเท่ากัน
+ * ถ้าพบหลายเซลล์และ AI ระบุ Sheet ไว้ ใช้เฉพาะเซลล์ใน Sheet นั้น
+ */
+const ratioInputSources = (ratio: FinancialRatio, items: LineItem[], latest: string): FinancialRatio => ({
+  ...ratio,
+  inputs: ratio.inputs.map(input => {
+    if (input.value === null) return input;
+    const value = Math.abs(input.value);
+    const matched = items.filter(i => i.period === latest && Math.abs(Math.abs(i.amount) - value) < 0.5);
+    const inSheet = matched.filter(i => i.sheet && input.source?.includes(i.sheet));
+    return { ...input, refs: refsOf(inSheet.length > 0 ? inSheet : matched) };
+  }),
+});
+
+/**
+ * ผูกตัวเลขใน AnalysisResult กับตำแหน่งในไฟล์ต้นทาง: รายได้/รายจ่ายของหน่วยงาน ผลต่าง และตัวเลขตั้งต้นของอัตราส่วน
+ */
+export const attachSources = <T extends Pick<AnalysisResult, 'departments' | 'significantChanges' | 'ratios' | 'varianceCandidates'>>(
+  result: T,
+  lineItems: LineItem[]
+): T => {
+  const periods = orderPeriods(lineItems);
+  if (periods.length === 0) return result;
+  const latest = periods[periods.length - 1];
+  const known = departmentLookup((result.departments || []).map(d => d.name));
+  const withSources = (change: SignificantChange) => ({ ...change, sources: changeSources(change, lineItems, latest) });
+
+  return {
+    ...result,
+    departments: (result.departments || []).map(d => ({ ...d, sources: departmentSources(d, lineItems, latest, known) })),
+    significantChanges: result.significantChanges.map(withSources),
+    varianceCandidates: result.varianceCandidates?.map(withSources),
+    ratios: result.ratios.map(r => ratioInputSources(r, lineItems, latest)),
+  };
+};
@@ -0,0 +1,143 @@
+import { LineItem, StatementType } from "../types";
+
+type Cell = string | number | boolean | null | undefined;
+
+export const STATEMENT_LABELS: Record<StatementType, string> = {
+  balanceSheet: 'งบแสดงฐานะการเงิน',
+  incomeStatement: 'งบกำไรขาดทุน',
+  cashFlow: 'งบกระแสเงินสด',
+  other: 'อื่นๆ',
+};
+
+const STATEMENT_PATTERNS: [StatementType, RegExp][] = [
+  ['cashFlow', /กระแสเงินสด|cash\s*flow|\bcf\b/i],
+  ['incomeStatement', /กำไรขาดทุน|income|profit|p\s*&\s*l|\bpl\b/i],
+  ['balanceSheet', /ฐานะการเงิน|งบดุล|balance|financial position|\bbs\b/i],
+];
+
+const THAI_MONTHS = ['ม.ค', 'ก.พ', 'มี.ค', 'เม.ย', 'พ.ค', 'มิ.ย', 'ก.ค', 'ส.ค', 'ก.ย', 'ต.ค', 'พ.ย', 'ธ.ค'];
+const EN_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const YEAR_PATTERN = /(?:^|\D)(20\d{2}|25\d{2})(?:\D|$)/;
+
+const findMonth = (text: string): number => {
+  const lower = text.toLowerCase();
+  const thai = THAI_MONTHS.findIndex(m => lower.includes(m));
+  if (thai >= 0) return thai;
+  return EN_MONTHS.findIndex(m => new RegExp(`\\b${m}`).test(lower));
+};
+
+// หัวคอลัมน์ที่ดูเหมือนชื่องวด เช่น "ปี 2567", "FY2025", "Jan-25", "ม.ค. 68"
+const isPeriodHeader = (cell: Cell): boolean => {
+  if (typeof cell === 'number') {
+    return Number.isInteger(cell) && ((cell >= 2000 && cell < 2100) || (cell >= 2500 && cell < 2600));
+  }
+  if (typeof cell !== 'string') return false;
+  return YEAR_PATTERN.test(cell) || findMonth(cell) >= 0;
+};
+
+// แปลง "1,234.50", "(1,234)" หรือตัวเลขเป็น number (วงเล็บ = ติดลบ)
+export const parseAmount = (cell: Cell): number | null => {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+  if (typeof cell !== 'string') return null;
+  const trimmed = cell.trim();
+  if (!/^\(?-?[\d,]+(\.\d+)?\)?$/.test(trimmed)) return null;
+  const negative = trimmed.startsWith('(') && trimmed.endsWith(')');
+  const value = parseFloat(trimmed.replace(/[(),]/g, ''));
+  if (!Number.isFinite(value)) return null;
+  return negative ? -value : value;
+};
+
+const isLabel = (cell: Cell): cell is string =>
+  typeof cell === 'string' && cell.trim().length > 0 && parseAmount(cell) === null;
+
+// รหัสบัญชีที่อยู่หน้าชื่อบัญชี เช่น 1101, 11-0100, 4.1.01
+const findAccountCode = (row: Cell[], labelIndex: number): string | undefined => {
+  const code = row
+    .slice(0, labelIndex)
+    .map(c => (c === null || c === undefined ? '' : String(c).trim()))
+    .find(c => /^\d[\d.\-]+$/.test(c));
+  return code || undefined;
+};
+
+export const normalizeLabel = (label: string): string =>
+  label
+    .toLowerCase()
+    .replace(/^[\d.\s)\-–]+/, '')
+    .replace(/[:：]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// เดาชื่องวดจากชื่อไฟล์ (เช่น "งบ_2567.xlsx" -> "2567")
+export const guessPeriodFromFileName = (fileName: string): string => {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const year = base.match(YEAR_PATTERN);
+  return year ? year[1] : base;
+};
+
+// ค่าสำหรับเรียงงวดตามเวลา (ปี พ.ศ. แปลงเป็น ค.ศ.) หรือ null ถ้าไม่พบปี
+export const periodSortKey = (period: string): number | null => {
+  const year = period.match(YEAR_PATTERN);
+  if (!year) return null;
+  let ce = parseInt(year[1], 10);
+  if (ce >= 2500) ce -= 543;
+  return ce * 12 + Math.max(findMonth(period), 0);
+};
+
+// จำแนกประเภทงบจากชื่อ Sheet หรือหัวเรื่องในแถวแรกๆ
+export const classifyStatement = (sheetName: string, rows: Cell[][] = []): StatementType => {
+  const title = rows.slice(0, 5).flat().filter(c => typeof c === 'string').join(' ');
+  for (const text of [sheetName, title]) {
+    const match = STATEMENT_PATTERNS.find(([, pattern]) => pattern.test(text));
+    if (match) return match[0];
+  }
+  return 'other';
+};
+
+/**
+ * ดึงรายการบัญชีจากแถวของ Sheet
+ * - ถ้าพบแถวหัวตารางที่มีชื่องวดตั้งแต่ 2 คอลัมน์ จะอ่านทุกคอลัมน์งวด
+ * - ถ้าไม่พบ ถือว่าทั้ง Sheet เป็นงวดเดียว (fallbackPeriod) และใช้ตัวเลขตัวแรกของแถว
+ */
+export const extractLineItems = (
+  rows: Cell[][],
+  fallbackPeriod: string,
+  source: Pick<LineItem, 'sheet' | 'statement' | 'file'> = {}
+): LineItem[] => {
+  const items: LineItem[] = [];
+  const headerIndex = rows.slice(0, 15).findIndex(row => row.filter(isPeriodHeader).length >= 2);
+
+  if (headerIndex >= 0) {
+    const header = rows[headerIndex];
+    const periodColumns = header
+      .map((cell, col) => ({ col, period: isPeriodHeader(cell) ? String(cell).trim() : '' }))
+      .filter(c => c.period);
+
+    rows.slice(headerIndex + 1).forEach((row, offset) => {
+      let labelIndex = row.slice(0, periodColumns[0].col).findIndex(isLabel);
+      if (labelIndex < 0) labelIndex = row.findIndex(isLabel);
+      if (labelIndex < 0) return;
+      const label = String(row[labelIndex]).trim();
+      const code = findAccountCode(row, labelIndex);
+      periodColumns.forEach(({ col, period }) => {
+        const amount = parseAmount(row[col]);
+        if (amount !== null) items.push({ label, period, amount, code, ...source, row: headerIndex + 1 + offset, column: col });
+      });
+    });
+    return items;
+  }
+
+  rows.forEach((row, rowIndex) => {
+    const labelIndex = row.findIndex(isLabel);
+    if (labelIndex < 0) return;
+    const amountIndex = row.findIndex((cell, col) => col > labelIndex && parseAmount(cell) !== null);
+    if (amountIndex >= 0) {
+      const code = findAccountCode(row, labelIndex);
+      items.push({
+        label: String(row[labelIndex]).trim(), period: fallbackPeriod, amount: parseAmount(row[amountIndex])!, code,
+        ...source, row: rowIndex, column: amountIndex,
+      });
+    }
+  });
+  return items;
+};
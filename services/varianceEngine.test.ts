@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { LineItem } from '../types';
+import { alignLineItems, computeVariances, orderPeriods, summarizePeriods } from './varianceEngine';
+
+const item = (label: string, period: string, amount: number, extra: Partial<LineItem> = {}): LineItem => ({
+  label,
+  period,
+  amount,
+  statement: 'incomeStatement',
+  ...extra,
+});
+
+describe('orderPeriods', () => {
+  it('เรียงงวดตามเวลาเมื่อทุกงวดมีปี (พ.ศ. และ ค.ศ.)', () => {
+    expect(orderPeriods([item('a', '2567', 1), item('a', '2023', 1), item('a', 'ธ.ค. 2566', 1)])).toEqual(['2023', 'ธ.ค. 2566', '2567']);
+  });
+
+  it('งวดที่ไม่มีปีคงลำดับที่พบ', () => {
+    expect(orderPeriods([item('a', 'ปีนี้', 1), item('a', 'ปีก่อน', 1)])).toEqual(['ปีนี้', 'ปีก่อน']);
+  });
+});
+
+describe('alignLineItems', () => {
+  it('รวมชื่อเดียวกันในงวดเดียวกัน และแยกชื่อเดียวกันในคนละงบ', () => {
+    const aligned = alignLineItems([
+      item('ค่าเช่า', '2567', 100, { department: 'BusA' }),
+      item('ค่าเช่า', '2567', 50, { department: 'BusB' }),
+      item('กำไรสุทธิ', '2567', 30),
+      item('กำไรสุทธิ', '2567', 30, { statement: 'cashFlow' }),
+    ]);
+    expect(aligned).toHaveLength(3);
+    expect(aligned[0].values).toEqual({ '2567': 150 });
+  });
+
+  it('ใช้ชื่อบัญชีมาตรฐานจับคู่ชื่อไทย/อังกฤษข้ามงวด', () => {
+    const aligned = alignLineItems([
+      item('Trade receivables', '2566', 100, { account: 'ลูกหนี้การค้า' }),
+      item('ลูกหนี้การค้า', '2567', 120, { account: 'ลูกหนี้การค้า' }),
+    ]);
+    expect(aligned).toEqual([expect.objectContaining({ label: 'ลูกหนี้การค้า', values: { '2566': 100, '2567': 120 } })]);
+  });
+});
+
+describe('computeVariances', () => {
+  it('คำนวณผลต่างสองงวดล่าสุด เรียงตามผลต่างมากไปน้อย และระบุรายการใหม่', () => {
+    const aligned = alignLineItems([
+      item('รายได้จากการขาย', '2566', 1_000),
+      item('รายได้จากการขาย', '2567', 1_100),
+      item('ค่าโฆษณา', '2567', 300),
+      item('ค่าเช่า', '2566', 200),
+      item('ค่าเช่า', '2567', 200),
+    ]);
+    const changes = computeVariances(aligned, ['2566', '2567']);
+    expect(changes.map(c => [c.item, c.amount, c.percentage, c.trend])).toEqual([
+      ['ค่าโฆษณา', 300, 'ใหม่', 'increase'],
+      ['รายได้จากการขาย', 100, '+10.0%', 'increase'],
+    ]);
+    expect(changes[1].basis).toEqual({ fromPeriod: '2566', toPeriod: '2567', fromAmount: 1_000, toAmount: 1_100 });
+  });
+
+  it('มีงวดเดียวไม่มีผลต่าง', () => {
+    expect(computeVariances(alignLineItems([item('a', '2567', 1)]), ['2567'])).toEqual([]);
+  });
+});
+
+describe('summarizePeriods', () => {
+  it('รวมรายได้และค่าใช้จ่ายตามหมวดบัญชี โดยไม่นับบรรทัดยอดรวม', () => {
+    const aligned = alignLineItems([
+      item('รายได้จากการขาย', '2567', 1_000, { category: 'revenue' }),
+      item('ต้นทุนขาย', '2567', -600, { category: 'cogs' }),
+      item('ค่าใช้จ่ายในการบริหาร', '2567', 150, { category: 'opex' }),
+      item('รวมค่าใช้จ่าย', '2567', 750, { category: 'subtotal' }),
+    ]);
+    expect(summarizePeriods(aligned, ['2567'])).toEqual([{ period: '2567', revenue: 1_000, expense: 750, profit: 250 }]);
+  });
+
+  it('ไม่มีหมวดบัญชี: ใช้บรรทัดรวมตามชื่อรายการ', () => {
+    const aligned = alignLineItems([
+      item('รายได้จากการขาย', '2567', 700),
+      item('รายได้อื่น', '2567', 300),
+      item('รวมรายได้', '2567', 1_000),
+      item('ค่าใช้จ่ายในการขาย', '2567', 400),
+    ]);
+    expect(summarizePeriods(aligned, ['2567'])).toEqual([{ period: '2567', revenue: 1_000, expense: 400, profit: 600 }]);
+  });
+});
@@ -0,0 +1,117 @@
+import { AccountCategory, LineItem, PeriodSummary, SignificantChange, StatementType } from "../types";
+import { EXPENSE_CATEGORIES, REVENUE_CATEGORIES } from "./accountMapping";
+import { normalizeLabel, periodSortKey } from "./spreadsheetParser";
+
+// รายการบัญชีเดียวกันที่จับคู่ข้ามงวดแล้ว
+export interface AlignedLineItem {
+  label: string;
+  statement?: StatementType;
+  category?: AccountCategory;
+  values: Record<string, number>; // period -> amount
+}
+
+const REVENUE_PATTERN = /รายได้|รายรับ|ยอดขาย|revenue|sales|income/i;
+const EXPENSE_PATTERN = /ค่าใช้จ่าย|ต้นทุน|รายจ่าย|expense|cost/i;
+const TOTAL_PATTERN = /รวม|total/i;
+const NET_PATTERN = /สุทธิ|net/i;
+
+// เรียงงวดตามเวลาถ้าทุกงวดมีปี ไม่เช่นนั้นเรียงตามลำดับที่พบ
+export const orderPeriods = (items: LineItem[]): string[] => {
+  const periods = Array.from(new Set(items.map(i => i.period)));
+  const keys = periods.map(periodSortKey);
+  if (keys.some(k => k === null)) return periods;
+  return periods
+    .map((period, idx) => ({ period, key: keys[idx] as number }))
+    .sort((a, b) => a.key - b.key)
+    .map(p => p.period);
+};
+
+export const alignLineItems = (items: LineItem[]): AlignedLineItem[] => {
+  const byKey = new Map<string, AlignedLineItem>();
+  items.forEach(item => {
+    // ใช้ชื่อบัญชีมาตรฐานจากผังบัญชี (ถ้ามี) เพื่อให้ "ลูกหนี้การค้า" กับ "Trade receivables" เป็นรายการเดียวกัน
+    const label = normalizeLabel(item.account ?? item.label);
+    if (!label) return;
+    // ชื่อเดียวกันในคนละงบ (เช่น "กำไรสุทธิ" ในงบกำไรขาดทุนและงบกระแสเงินสด) เป็นคนละรายการ
+    const key = `${item.statement ?? 'other'}|${label}`;
+    const aligned = byKey.get(key) ?? {
+      label: item.account ?? item.label,
+      statement: item.statement,
+      category: item.category,
+      values: {},
+    };
+    // ถ้าชื่อซ้ำในงวดเดียวกัน (เช่นหลายหน่วยงาน) ให้รวมยอด
+    aligned.values[item.period] = (aligned.values[item.period] ?? 0) + item.amount;
+    byKey.set(key, aligned);
+  });
+  return Array.from(byKey.values());
+};
+
+const formatPercentage = (from: number, to: number): string => {
+  if (from === 0) return to === 0 ? '0%' : 'ใหม่';
+  const pct = ((to - from) / Math.abs(from)) * 100;
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`;
+};
+
+/**
+ * คำนวณผลต่างระหว่างสองงวดล่าสุดของทุกรายการที่เปลี่ยนแปลง (เรียงตามผลต่างมากไปน้อย)
+ * การคัดรายการที่มีสาระสำคัญทำที่ materiality, reason และ relatedDepartment เติมภายหลังจากความเห็นของ AI
+ */
+export const computeVariances = (aligned: AlignedLineItem[], periods: string[]): SignificantChange[] => {
+  if (periods.length < 2) return [];
+  const fromPeriod = periods[periods.length - 2];
+  const toPeriod = periods[periods.length - 1];
+
+  return aligned
+    .filter(a => a.values[fromPeriod] !== undefined || a.values[toPeriod] !== undefined)
+    .map(a => {
+      const fromAmount = a.values[fromPeriod] ?? 0;
+      const toAmount = a.values[toPeriod] ?? 0;
+      return { a, fromAmount, toAmount };
+    })
+    .filter(v => v.toAmount !== v.fromAmount)
+    .sort((x, y) => Math.abs(y.toAmount - y.fromAmount) - Math.abs(x.toAmount - x.fromAmount))
+    .map(({ a, fromAmount, toAmount }): SignificantChange => ({
+      item: a.label,
+      amount: toAmount - fromAmount,
+      percentage: formatPercentage(fromAmount, toAmount),
+      trend: toAmount >= fromAmount ? 'increase' : 'decrease',
+      reason: '',
+      statement: a.statement,
+      basis: { fromPeriod, toPeriod, fromAmount, toAmount },
+    }));
+};
+
+// ยอดรวมของกลุ่มรายการ: ใช้บรรทัด "รวม" ถ้ามี ไม่เช่นนั้นรวมทุกบรรทัดในกลุ่ม
+const groupTotal = (aligned: AlignedLineItem[], pattern: RegExp, period: string): number => {
+  const group = aligned.filter(a => pattern.test(a.label) && !NET_PATTERN.test(a.label));
+  const totals = group.filter(a => TOTAL_PATTERN.test(a.label));
+  const source = totals.length > 0 ? totals.slice(0, 1) : group;
+  return source.reduce((sum, a) => sum + Math.abs(a.values[period] ?? 0), 0);
+};
+
+const categoryTotal = (aligned: AlignedLineItem[], categories: AccountCategory[], period: string): number =>
+  aligned
+    .filter(a => a.category && categories.includes(a.category))
+    .reduce((sum, a) => sum + Math.abs(a.values[period] ?? 0), 0);
+
+export const summarizePeriods = (aligned: AlignedLineItem[], periods: string[]): PeriodSummary[] => {
+  // มีหมวดบัญชีจากผังบัญชีแล้ว: รวมตามหมวด (ไม่รวมบรรทัดยอดรวม)
+  if (aligned.some(a => a.category && a.category !== 'subtotal')) {
+    return periods.map(period => {
+      const revenue = categoryTotal(aligned, REVENUE_CATEGORIES, period);
+      const expense = categoryTotal(aligned, EXPENSE_CATEGORIES, period);
+      return { period, revenue, expense, profit: revenue - expense };
+    });
+  }
+
+  // ถ้ารู้ว่า Sheet ไหนเป็นงบกำไรขาดทุน ให้ใช้เฉพาะรายการในงบนั้น
+  const incomeItems = aligned.filter(a => a.statement === 'incomeStatement');
+  const source = incomeItems.length > 0 ? incomeItems : aligned;
+
+  return periods.map(period => {
+    const revenue = groupTotal(source, REVENUE_PATTERN, period);
+    const expense = groupTotal(source, EXPENSE_PATTERN, period);
+    return { period, revenue, expense, profit: revenue - expense };
+  });
+};
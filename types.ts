@@ -1,10 +1,59 @@
 
+// ตัวเลขจากงบการเงินที่ใช้คำนวณอัตราส่วน (null = หาไม่พบในไฟล์)
+export interface FinancialFigures {
+  currentAssets: number | null; // สินทรัพย์หมุนเวียน
+  currentLiabilities: number | null; // หนี้สินหมุนเวียน
+  totalAssets: number | null; // สินทรัพย์รวม
+  totalDebt: number | null; // หนี้สินรวม
+  equity: number | null; // ส่วนของผู้ถือหุ้น
+  revenue: number | null; // รายได้รวม
+  netIncome: number | null; // กำไรสุทธิ
+}
+
+export type RatioKey = 'currentRatio' | 'netProfitMargin' | 'roe' | 'assetTurnover' | 'debtToEquity';
+
+export interface RatioInput {
+  key: keyof FinancialFigures;
+  label: string;
+  value: number | null;
+  source?: string; // Sheet/ส่วนของไฟล์ที่พบตัวเลข
+  refs?: SourceRef[]; // เซลล์ในไฟล์ที่มีตัวเลขนี้
+}
+
+// เกณฑ์สถานะของอัตราส่วน: ทิศทาง (ยิ่งมาก/น้อยยิ่งดี) กำหนดใน ratioEngine
+export interface RatioThreshold {
+  good: number;
+  warning: number;
+}
+
+export type RatioThresholds = Record<RatioKey, RatioThreshold>;
+
+// ชุดเกณฑ์ตามอุตสาหกรรม พร้อมค่ากลางโดยประมาณ (ค่าตัวอย่าง) ของหมวดธุรกิจใน SET (services/data/ratioBenchmarks.json)
+export interface BenchmarkPreset {
+  id: string;
+  name: string;
+  sector?: string;
+  thresholds: RatioThresholds;
+  medians: Partial<Record<RatioKey, number>>;
+}
+
+// เกณฑ์ที่ใช้ตัดสินสถานะของอัตราส่วนนี้ เก็บไว้แสดงเทียบกับค่าที่คำนวณได้
+export interface RatioBenchmark extends RatioThreshold {
+  preset: string; // ชื่อชุดเกณฑ์
+  higherIsBetter: boolean;
+  median?: number; // ค่ากลางอุตสาหกรรมโดยประมาณ (ค่าตัวอย่าง ถ้ามี)
+}
+
 export interface FinancialRatio {
+  key: RatioKey;
   name: string;
-  value: number;
+  value: number | null; // null เมื่อข้อมูลตั้งต้นไม่ครบ
   unit: string;
   status: 'good' | 'warning' | 'critical';
-  description: string;
+  description: string; // คำอธิบายจาก AI
+  formula: string; // สูตรที่ใช้คำนวณ
+  inputs: RatioInput[]; // ตัวเลขตั้งต้นที่ใช้คำนวณ
+  benchmark?: RatioBenchmark;
 }
 
 export interface DepartmentAnalysis {
@@ -13,6 +62,293 @@ export interface DepartmentAnalysis {
   expense: number;
   profit: number;
   liquidityComment: string;
+  sources?: SourceRef[]; // รายการรายได้/รายจ่ายของหน่วยงานในงวดล่าสุด
+}
+
+// ไฟล์ที่ผู้ใช้อัปโหลด (data เป็น base64)
+export interface UploadedFile {
+  name: string;
+  data: string;
+  mimeType: string;
+  period?: string; // งวดที่ผู้ใช้ระบุ (เช่น "FY2025", "ม.ค. 2568")
+}
+
+export type StatementType = 'balanceSheet' | 'incomeStatement' | 'cashFlow' | 'other';
+
+// หมวดบัญชีมาตรฐาน (อ้างอิง TFRS) ที่ใช้จัดกลุ่มรายการก่อนวิเคราะห์
+export type AccountCategory =
+  | 'currentAsset'
+  | 'nonCurrentAsset'
+  | 'currentLiability'
+  | 'nonCurrentLiability'
+  | 'equity'
+  | 'revenue'
+  | 'otherIncome'
+  | 'cogs'
+  | 'opex'
+  | 'financeCost'
+  | 'tax'
+  | 'subtotal'; // บรรทัดยอดรวม ไม่นำไปรวมซ้ำ
+
+export interface AccountMappingRule {
+  id: string;
+  matchType: 'code' | 'name'; // code = ขึ้นต้นด้วยรหัส, name = ชื่อบัญชีมีข้อความนี้
+  pattern: string;
+  category: AccountCategory;
+  standardName?: string; // ชื่อบัญชีมาตรฐานที่ใช้จับคู่ข้ามงวด
+}
+
+// รายการบัญชี 1 บรรทัดใน 1 งวด ที่อ่านได้จาก Spreadsheet
+export interface LineItem {
+  label: string;
+  period: string;
+  amount: number;
+  code?: string; // รหัสบัญชี (ถ้ามี)
+  sheet?: string; // ชื่อ Sheet ต้นทาง
+  statement?: StatementType; // ประเภทงบของ Sheet ต้นทาง
+  category?: AccountCategory; // หมวดบัญชีหลัง mapping
+  account?: string; // ชื่อบัญชีมาตรฐานหลัง mapping
+  department?: string; // หน่วยงานจากคอลัมน์ที่ผู้ใช้ระบุ (ไม่มี = ใช้ชื่อ Sheet)
+  entity?: string; // บริษัทในกลุ่ม (งบการเงินรวม) ใช้แทนหน่วยงาน
+  file?: string; // ชื่อไฟล์ต้นทาง
+  row?: number; // แถวใน Sheet (เริ่มที่ 0)
+  column?: number; // คอลัมน์ของตัวเลข (เริ่มที่ 0)
+}
+
+// บทบาทของคอลัมน์ที่ผู้ใช้กำหนดในตัวช่วยนำเข้า
+// period = คอลัมน์ที่ระบุงวดของแต่ละแถว (ถ้าไม่มี หัวคอลัมน์ amount คือชื่องวด), ignore = ไม่ใช้ เช่นคอลัมน์หมายเหตุ
+export type ColumnRole = 'account' | 'code' | 'department' | 'period' | 'amount' | 'ignore';
+
+// การจัดคอลัมน์ของ Sheet หนึ่ง
+export interface ColumnMapping {
+  headerRow: number; // แถวหัวตาราง (เริ่มที่ 0)
+  columns: ColumnRole[];
+  skipRows: number[]; // แถวที่ไม่นำเข้า เช่นบรรทัดรวมหรือแถวว่าง
+  template?: boolean; // ได้มาจากแม่แบบที่บันทึกไว้
+}
+
+// แม่แบบการจัดคอลัมน์ ผูกกับลายเซ็นของหัวตาราง ใช้กับไฟล์รูปแบบเดียวกันโดยอัตโนมัติ
+export interface ImportTemplate {
+  signature: string;
+  columns: ColumnRole[];
+  updatedAt: number;
+}
+
+// ตำแหน่งของตัวเลขในไฟล์ต้นทาง ใช้ย้อนดูแถวเดิม (drill-down)
+export interface SourceRef {
+  file?: string;
+  sheet: string;
+  row: number;
+  column: number;
+  label: string;
+  period: string;
+  amount: number;
+}
+
+// แถวของ Sheet (หรือหน้า PDF) ที่อ่านได้ เก็บไว้แสดงแถวต้นฉบับคู่กับ SourceRef
+export interface SourceSheet {
+  file: string;
+  name: string;
+  rows: (string | number | null)[][];
+}
+
+// บริษัทในกลุ่ม: แต่ละไฟล์ผลจริงคือหนึ่งบริษัท
+export interface GroupEntity {
+  name: string;
+  ownership: number; // % การถือหุ้นของบริษัทใหญ่ (บริษัทใหญ่ = 100)
+  parent: boolean;
+}
+
+// คู่บัญชีระหว่างกันที่ตัดออกในงบการเงินรวม เช่น ลูกหนี้บริษัทในเครือ ↔ เจ้าหนี้บริษัทในเครือ
+export interface IntercompanyPair {
+  id: string;
+  name: string;
+  matchType: 'code' | 'name'; // เหมือน AccountMappingRule: รหัสขึ้นต้นด้วย หรือชื่อบัญชีมีข้อความนี้
+  sideA: string;
+  sideB: string;
+}
+
+// ยอดที่ตัดออกของคู่บัญชีหนึ่งในงวดหนึ่ง
+export interface IntercompanyElimination {
+  pair: string;
+  period: string;
+  sideA: number; // ยอดรวมด้าน A จากทุกบริษัท
+  sideB: number;
+  eliminated: number; // ยอดที่จับคู่ข้ามบริษัทได้ (ตัดออกทั้งสองด้าน)
+  unmatched: number; // ยอดที่ไม่ได้ตัดของทั้งสองด้านรวมกัน ต้องกระทบยอดระหว่างบริษัท
+}
+
+// ตัวเลขของบริษัทในกลุ่มก่อนตัดรายการระหว่างกัน (งวดล่าสุด)
+export interface EntitySummary extends GroupEntity {
+  revenue: number;
+  expense: number;
+  profit: number;
+  equity: number | null; // null = ไฟล์ไม่มีงบแสดงฐานะการเงิน
+  nciProfit: number; // กำไรส่วนที่เป็นของส่วนได้เสียที่ไม่มีอำนาจควบคุม
+  nciEquity: number | null;
+}
+
+export interface ConsolidationResult {
+  period: string; // งวดล่าสุด
+  entities: EntitySummary[];
+  eliminations: IntercompanyElimination[];
+  revenue: number; // หลังตัดรายการระหว่างกัน
+  expense: number;
+  profit: number;
+  nciProfit: number;
+  profitToParent: number; // กำไรส่วนที่เป็นของบริษัทใหญ่
+  nciEquity: number | null;
+  goodwill: number | null; // เงินลงทุนในบริษัทย่อยส่วนที่เกินส่วนได้เสียในส่วนของผู้ถือหุ้น (null = ไม่พบเงินลงทุน)
+  notes: string[];
+}
+
+export interface AnalysisInput {
+  files: UploadedFile[];
+  lineItems: LineItem[];
+  budgetItems?: LineItem[]; // รายการจากไฟล์งบประมาณ (ไม่ส่งให้ AI แต่ใช้เทียบกับผลจริงในเครื่อง)
+  sourceSheets?: SourceSheet[]; // แถวต้นฉบับของ Sheet ที่เลือก
+  consolidation?: ConsolidationResult; // มีเมื่อวิเคราะห์งบการเงินรวม (lineItems รวมรายการตัดบัญชีแล้ว)
+}
+
+export interface PeriodSummary {
+  period: string;
+  revenue: number;
+  expense: number;
+  profit: number;
+}
+
+// ตัวเลขตั้งต้นของผลต่างที่คำนวณในเครื่อง
+export interface VarianceBasis {
+  fromPeriod: string;
+  toPeriod: string;
+  fromAmount: number;
+  toAmount: number;
+}
+
+// วิธีหากระแสเงินสด: จากงบกระแสเงินสดในไฟล์ (direct) หรือคำนวณจากงบดุล 2 งวดและงบกำไรขาดทุน (indirect)
+export type CashFlowMethod = 'direct' | 'indirect';
+
+// ขั้นของกราฟ Waterfall (total = แท่งยอดสะสม เช่น เงินสดจากการดำเนินงาน)
+export interface CashFlowStep {
+  label: string;
+  amount: number;
+  total?: boolean;
+}
+
+export interface CashFlowAnalysis {
+  method: CashFlowMethod;
+  period: string;
+  fromPeriod?: string; // งวดเปรียบเทียบ (indirect)
+  netIncome: number | null;
+  operating: number;
+  investing: number;
+  financing: number;
+  netChange: number;
+  capex: number | null; // รายจ่ายลงทุน (ค่าบวก)
+  freeCashFlow: number | null; // เงินสดจากการดำเนินงาน − รายจ่ายลงทุน
+  cashConversion: number | null; // เงินสดจากการดำเนินงาน ÷ กำไรสุทธิ (เท่า)
+  operatingCashFlowRatio: number | null; // เงินสดจากการดำเนินงาน ÷ หนี้สินหมุนเวียน (เท่า)
+  steps: CashFlowStep[];
+  notes: string[]; // ข้อจำกัดของการคำนวณ เช่น ไม่พบค่าเสื่อมราคา
+}
+
+// งบประมาณเทียบผลจริง 1 ตัวเลข (favorable: รายได้/กำไรสูงกว่างบ หรือรายจ่ายต่ำกว่างบ)
+export interface BudgetFigure {
+  budget: number;
+  actual: number;
+  variance: number; // ผลจริง − งบประมาณ
+  variancePercent: number | null; // null เมื่องบประมาณเป็น 0
+  favorable: boolean;
+}
+
+export interface BudgetLine extends BudgetFigure {
+  item: string;
+  department: string;
+  kind: 'revenue' | 'expense';
+}
+
+export interface DepartmentBudget {
+  name: string;
+  revenue: BudgetFigure;
+  expense: BudgetFigure;
+  profit: BudgetFigure;
+}
+
+export interface BudgetComparison {
+  budgetPeriod: string;
+  actualPeriod: string;
+  departments: DepartmentBudget[];
+  items: BudgetLine[]; // เรียงตามผลต่างมากไปน้อย
+  notes: string[]; // เช่น รายการที่มีเฉพาะในงบประมาณหรือผลจริง
+}
+
+// วิธีคาดการณ์ (คำนวณในเครื่องทั้งหมด)
+export type ForecastMethod = 'linear' | 'movingAverage' | 'seasonal';
+export type ForecastMetric = 'revenue' | 'expense' | 'profit';
+
+export interface ForecastPoint {
+  period: string;
+  value: number;
+  lower: number; // ขอบล่างของช่วงความเชื่อมั่น 95%
+  upper: number;
+}
+
+export interface ForecastSeries {
+  department: string;
+  metric: ForecastMetric;
+  history: { period: string; value: number }[];
+  forecast: ForecastPoint[];
+}
+
+export interface ForecastResult {
+  method: ForecastMethod; // วิธีที่ใช้ในรายงาน
+  seasonLength: number | null; // จำนวนงวดต่อรอบฤดูกาล (12 = รายเดือน, 4 = รายไตรมาส)
+  periods: string[]; // ชื่องวดที่คาดการณ์
+  series: ForecastSeries[];
+  notes: string[];
+}
+
+// สมมติฐานของสถานการณ์จำลอง (What-if) เทียบกับกรณีฐาน
+export interface ScenarioDrivers {
+  revenueChange: Record<string, number>; // % เปลี่ยนแปลงรายได้ ต่อหน่วยงาน
+  expenseChange: Record<string, number>; // % เปลี่ยนแปลงรายจ่าย ต่อหน่วยงาน
+  newDebt: number; // เงินกู้ยืมระยะยาวใหม่ (บาท)
+  capex: number; // รายจ่ายลงทุนด้วยเงินสด (บาท)
+  receivableDays: number; // ระยะเวลาเก็บหนี้ที่เปลี่ยน (วัน)
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  drivers: ScenarioDrivers;
+  createdAt: number;
+}
+
+export interface ScenarioOutcome {
+  figures: FinancialFigures;
+  ratios: FinancialRatio[];
+  departments: DepartmentAnalysis[];
+}
+
+// เกณฑ์ความมีสาระสำคัญ: ผลต่างต้องถึงทุกเกณฑ์ที่กำหนด (ช่องที่ไม่กำหนด = ไม่ใช้เกณฑ์นั้น)
+export interface MaterialityRule {
+  minAmount?: number; // ผลต่างขั้นต่ำ (บาท)
+  minPercent?: number; // % การเปลี่ยนแปลงขั้นต่ำ
+  percentOfRevenue?: number; // ผลต่างขั้นต่ำเป็น % ของรายได้รวม
+  percentOfAssets?: number; // ผลต่างขั้นต่ำเป็น % ของสินทรัพย์รวม
+}
+
+export interface MaterialitySettings {
+  default: MaterialityRule;
+  departments: Record<string, MaterialityRule>; // เกณฑ์เฉพาะหน่วยงาน ทับเกณฑ์ทั่วไป
+  maxItems: number;
+}
+
+// เกณฑ์ที่ใช้คัดรายการนี้ (แสดงคู่กับรายการในตารางและไฟล์ Excel)
+export interface AppliedMateriality {
+  rule: string; // คำอธิบายเกณฑ์ เช่น "ทั่วไป: ≥ 500,000 บาท และ ≥ 10%"
+  threshold: number; // ผลต่างขั้นต่ำเป็นบาทหลังคำนวณจากทุกเกณฑ์
+  score: number; // ผลต่าง ÷ ผลต่างขั้นต่ำ ใช้จัดอันดับ
 }
 
 export interface SignificantChange {
@@ -22,18 +358,95 @@ export interface SignificantChange {
   trend: 'increase' | 'decrease';
   reason: string; // ความเห็น AI ว่าทำไมถึงเปลี่ยนเยอะ
   relatedDepartment?: string; // หน่วยงานที่เกี่ยวข้อง (ถ้ามี)
+  statement?: StatementType; // งบที่รายการนี้อยู่
+  basis?: VarianceBasis; // มีเมื่อคำนวณจากข้อมูลหลายงวด
+  materiality?: AppliedMateriality;
+  sources?: SourceRef[]; // รายการในไฟล์ของทั้งสองงวดที่ใช้คำนวณผลต่าง
+}
+
+// สถานะการตรวจทานรายงาน: ร่าง → ตรวจแล้ว → อนุมัติ
+export type ReviewStatus = 'draft' | 'reviewed' | 'approved';
+
+export interface ReportSectionReview {
+  title: string;
+  aiContent: string; // ร่างจาก AI (ไม่เปลี่ยน ใช้เทียบความต่าง)
+  content: string; // ข้อความปัจจุบันหลังแก้ไข
+  status: ReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: number;
+  approvedBy?: string; // ผู้อนุมัติล่าสุด (คงไว้เมื่อแก้ไขหลังอนุมัติ คู่กับ approvedContent)
+  approvedAt?: number;
+  approvedContent?: string; // ข้อความฉบับที่อนุมัติ ใช้ส่งออกแทนข้อความที่แก้ไขแต่ยังไม่อนุมัติใหม่
+}
+
+// แหล่งอ้างอิงของคำตอบ: รายการผลต่าง (SignificantChange.item) หรือรายการในไฟล์ (LineItem.label)
+export interface ChatCitation {
+  type: 'change' | 'lineItem';
+  ref: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: ChatCitation[];
+  pinned?: boolean; // แนบคำตอบนี้ในรายงานฉบับเต็มแล้ว
+  createdAt: number;
+}
+
+// ผลตรวจตัวเลขที่ AI ให้มาเทียบกับข้อมูลที่อ่านจากไฟล์ (กันตัวเลขที่ไม่มีอยู่จริง)
+export type ReconciliationStatus = 'match' | 'mismatch' | 'unverified';
+export type ReconciliationKind = 'revenue' | 'expense' | 'profit' | 'variance';
+
+export interface ReconciliationCheck {
+  kind: ReconciliationKind;
+  subject: string; // ชื่อหน่วยงานหรือรายการ
+  claimed: number; // ตัวเลขในผลวิเคราะห์
+  expected: number | null; // ตัวเลขที่คำนวณจากไฟล์ (null = ไม่พบในไฟล์)
+  status: ReconciliationStatus;
+}
+
+export interface Reconciliation {
+  checks: ReconciliationCheck[];
+  confidence: number | null; // 0–100: สัดส่วนตัวเลขที่ตรงกับไฟล์ (null = ไม่มีข้อมูลในไฟล์ให้ตรวจ)
 }
 
 export interface AnalysisResult {
   overallAnalysis: string;
-  formalReport: string; // บทรายงานแบบทางการ
-  ratios: FinancialRatio[];
+  formalReport: string; // บทรายงานแบบทางการ (ร่างจาก AI)
+  reportReview?: ReportSectionReview[]; // มีเมื่อผู้ใช้เริ่มแก้ไข/ตรวจทานรายงาน
+  chat?: ChatMessage[]; // ถาม-ตอบเพิ่มเติมหลังวิเคราะห์
+  figures: FinancialFigures; // ตัวเลขที่ดึงจากไฟล์
+  ratios: FinancialRatio[]; // คำนวณในเครื่องด้วย ratioEngine
   departments: DepartmentAnalysis[];
-  significantChanges: SignificantChange[]; // รายการที่มีนัยสำคัญ
+  significantChanges: SignificantChange[]; // รายการที่มีนัยสำคัญ (ผ่านเกณฑ์ความมีสาระสำคัญ)
+  varianceCandidates?: SignificantChange[]; // ผลต่างทุกรายการก่อนคัด ใช้คัดใหม่เมื่อเปลี่ยนเกณฑ์
+  cashFlow?: CashFlowAnalysis; // ไม่มีเมื่อไฟล์ไม่มีงบกระแสเงินสดและมีงบดุลไม่ถึง 2 งวด
+  budget?: BudgetComparison; // มีเมื่ออัปโหลดไฟล์งบประมาณ
+  forecast?: ForecastResult; // มีเมื่อข้อมูลย้อนหลังตั้งแต่ 3 งวด
+  scenarios?: Scenario[]; // สถานการณ์จำลองที่ผู้ใช้บันทึกไว้
+  reconciliation?: Reconciliation; // ผลตรวจตัวเลขของ AI กับไฟล์
+  consolidation?: ConsolidationResult; // งบการเงินรวมของกลุ่มบริษัท
+  periods: PeriodSummary[]; // สรุปรายได้/รายจ่าย/กำไร แยกตามงวด
   topHighItems: string[];
   topLowItems: string[];
 }
 
+// ผลการวิเคราะห์ที่บันทึกไว้ในเครื่อง (IndexedDB)
+export interface SavedAnalysis {
+  id: string;
+  name: string;
+  fileNames: string[];
+  hash: string; // SHA-256 ของไฟล์ที่อัปโหลด ใช้ตรวจว่าเคยวิเคราะห์แล้วหรือไม่
+  createdAt: number;
+  result: AnalysisResult;
+  lineItems?: LineItem[]; // รายการจากไฟล์ ใช้เป็นบริบทของการถาม-ตอบเมื่อเปิดจากประวัติ
+  sourceSheets?: SourceSheet[]; // แถวต้นฉบับ ใช้ย้อนดูที่มาของตัวเลขเมื่อเปิดจากประวัติ
+}
+
+// ขั้นตอนการวิเคราะห์ตามลำดับ: อ่านไฟล์ → ดึงตัวเลข → อัตราส่วน → ผลต่าง → รายงาน
+export type AnalysisStage = 'parse' | 'figures' | 'ratios' | 'variances' | 'report';
+
 export enum AppState {
   UPLOAD,
   ANALYZING,
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_PROVIDER?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_MAX_UPLOAD_MB?: string;
+  readonly VITE_OCR_CORE_PATH?: string;
+  readonly VITE_OCR_LANG_PATH?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
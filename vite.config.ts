@@ -1,7 +1,43 @@
-import { defineConfig } from 'vite';
+import { createReadStream, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// ตัวประมวลผล OCR (LSTM ทั้งแบบ SIMD และไม่มี SIMD) และข้อมูลภาษา tha/eng ที่แอปให้บริการเอง แทนการดาวน์โหลดจาก CDN
+const OCR_ASSETS: Record<string, string> = {
+  'ocr/core/tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'ocr/core/tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'ocr/lang/tha.traineddata.gz': '@tesseract.js-data/tha/4.0.0_best_int/tha.traineddata.gz',
+  'ocr/lang/eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+};
+
+const modulePath = (file: string) => fileURLToPath(new URL(`./node_modules/${file}`, import.meta.url));
+
+// dev: ส่งไฟล์จาก node_modules โดยตรง, build: คัดลอกไปไว้ใน dist/ocr
+const ocrAssets = (): Plugin => ({
+  name: 'ocr-assets',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const file = OCR_ASSETS[(req.url ?? '').split('?')[0].replace(/^\//, '')];
+      if (!file) return next();
+      res.setHeader('Content-Type', file.endsWith('.js') ? 'text/javascript' : 'application/gzip');
+      createReadStream(modulePath(file)).pipe(res);
+    });
+  },
+  generateBundle() {
+    Object.entries(OCR_ASSETS).forEach(([fileName, file]) => {
+      this.emitFile({ type: 'asset', fileName, source: readFileSync(modulePath(file)) });
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
-});
\ No newline at end of file
+  plugins: [react(), ocrAssets()],
+  server: {
+    // ส่งต่อ /api ไปยัง server/index.ts (npm run server) เพื่อไม่ให้ API Key อยู่ในเบราว์เซอร์
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
+});